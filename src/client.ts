@@ -14,16 +14,34 @@ import MockupGeneratorAPI from './lib/mockup-generator';
 import WarehouseProductsAPI from './lib/warehouse-products';
 import ReportsAPI from './lib/reports';
 import ApprovalSheetsAPI from './lib/approval-sheets';
+import Transport from './lib/transport';
+import ScopeGuard, { METHOD_SCOPES } from './lib/scopes';
+import type RequestQueue from './lib/request-queue';
+import SpendingGuard, { toOrder } from './lib/spending-guard';
+import AddressValidator from './lib/address-validator';
+import { assertOrderAction } from './lib/order-lifecycle';
+import { PrintfulError } from './lib/errors';
+import type { ScopedMethod } from './lib/scopes';
+import type { Interceptor } from './lib/interceptors';
 import type { Headers } from './types/headers';
+import type { AccountClientOptions, CallOptions, ClientOptions } from './types/client';
+import type { Order, OrderAction } from './types/order';
+import type { APIFailure } from './types/response';
+import type { SpendingGuardOptions } from './types/spending';
+
+// Sub API properties of the client that have scoped methods, e.g. 'orders'
+type ScopedAPI = ScopedMethod extends infer M ? M extends `${infer API}.${string}` ? API & keyof PrintfulStoreClient : never : never;
 
 export class PrintfulStoreClient{
-    protected origin = "https://api.printful.com";
+    protected origin: string;
     protected headers: Headers;
+    protected transport: Transport;
 
     //SUB APIs
     public oauth: OAuthAPI;
     public catalog: CatalogAPI;
     public products: ProductsAPI;
+    public productTemplates: ProductTemplatesAPI;
     public orders: OrdersAPI;
     public fileLibrary: FileLibraryAPI;
     public shippingRate: ShippingRateAPI;
@@ -37,27 +55,213 @@ export class PrintfulStoreClient{
     public reports: ReportsAPI;
     public approvalSheets: ApprovalSheetsAPI;
 
-    constructor(auth: string | undefined){
+    public scopes: ScopeGuard;
+    public queue: RequestQueue;             // pause(), resume() and drain() the requests of the client
+    public addresses: AddressValidator;     // validate() recipient addresses before sending them
+    public spendingGuard?: SpendingGuard;   // Set with the `spendingGuard` option
+
+    constructor(auth: string | undefined, options: ClientOptions = {}){
         this.headers = {Authorization: "Bearer " + (auth || "")};
-        
-        this.oauth = new OAuthAPI(this.headers, this.origin);
-        this.catalog = new CatalogAPI(this.headers, this.origin);
-        this.products = new ProductsAPI(this.headers, this.origin);
-        this.orders = new OrdersAPI(this.headers, this.origin);
-        this.fileLibrary = new FileLibraryAPI(this.headers, this.origin);
-        this.shippingRate = new ShippingRateAPI(this.headers, this.origin);
-        this.ecommerceSync = new EcommerceSyncAPI(this.headers, this.origin);
-        this.countryCodes = new CountryCodesAPI(this.origin);
-        this.taxRate = new TaxRateAPI(this.origin);
-        this.webhook = new WebhookAPI(this.headers, this.origin);
-        this.storeInformation = new StoreInformationAPI(this.headers, this.origin);
-        this.mockupGenerator = new MockupGeneratorAPI(this.headers, this.origin);
-        this.warehouseProducts = new WarehouseProductsAPI(this.headers, this.origin);
-        this.reports = new ReportsAPI(this.headers, this.origin);
-        this.approvalSheets = new ApprovalSheetsAPI(this.headers, this.origin);
+        this.transport = new Transport(this.headers, options);
+        this.origin = this.transport.origin;
+
+        this.oauth = new OAuthAPI(this.transport, options.oauth);
+        this.catalog = new CatalogAPI(this.transport);
+        this.products = new ProductsAPI(this.transport);
+        this.productTemplates = new ProductTemplatesAPI(this.transport);
+        this.orders = new OrdersAPI(this.transport);
+        this.fileLibrary = new FileLibraryAPI(this.transport);
+        this.shippingRate = new ShippingRateAPI(this.transport);
+        this.ecommerceSync = new EcommerceSyncAPI(this.transport);
+        this.countryCodes = new CountryCodesAPI(this.transport);
+        this.taxRate = new TaxRateAPI(this.transport);
+        this.webhook = new WebhookAPI(this.transport);
+        this.storeInformation = new StoreInformationAPI(this.transport);
+        this.mockupGenerator = new MockupGeneratorAPI(this.transport);
+        this.warehouseProducts = new WarehouseProductsAPI(this.transport);
+        this.reports = new ReportsAPI(this.transport);
+        this.approvalSheets = new ApprovalSheetsAPI(this.transport);
+
+        this.scopes = new ScopeGuard(this.oauth);
+        this.queue = this.transport.queue;
+        this.addresses = new AddressValidator(this.countryCodes);
+        options.spendingGuard && this.guardSpending(options.spendingGuard);
+        options.checkOrderState && this.guardOrderState();
+        options.checkScopes && this.guardScopes();
+    }
+
+    /**
+     * Whether the token has the scope required by the given SDK method. Scopes are loaded once and cached.
+     * 
+     * @param {string} method - SDK method, e.g. 'orders.createOrder'
+     * 
+     * @returns {promise} boolean
+     */
+    canCall(method: ScopedMethod){
+        return this.scopes.canCall(method);
+    }
+
+    /**
+     * Adds an interceptor at the end of the request pipeline
+     * 
+     * @param {Interceptor} interceptor - beforeRequest, afterResponse and onError hooks
+     * 
+     * @returns {this} client, for chaining
+     */
+    use(interceptor: Interceptor){
+        this.transport.interceptors.use(interceptor);
+        return this;
+    }
+
+    /**
+     * Removes cached responses, see the `cache` option
+     * 
+     * @param {string|RegExp} match - Path prefix (e.g. `/products/71`) or URL pattern of the responses to remove, every response when omitted
+     */
+    async invalidateCache(match?: string | RegExp){
+        if (!this.transport.cache) return;
+        await this.transport.cache.invalidate(typeof match === "string" ? this.transport.url(match) : match);
+    }
+
+    /**
+     * Wraps every SDK method that requires a scope so it is checked before the request is sent
+     */
+    protected guardScopes(){
+        for (const method of Object.keys(METHOD_SCOPES) as Array<ScopedMethod>){
+            if (!METHOD_SCOPES[method]) continue;
+            const [name, fn] = method.split(".") as [ScopedAPI, string];
+            const api = this[name] as unknown as Record<string, (...args: Array<unknown>) => Promise<unknown>>;
+            const original = api[fn].bind(api);
+            api[fn] = (...args: Array<unknown>) => this.guarded(async () => {
+                await this.scopes.check(method);
+                return original(...args);
+            });
+        }
+    }
+
+    /**
+     * Wraps the order methods that confirm orders so their cost is checked by the spending guard first
+     */
+    protected guardSpending(options: SpendingGuardOptions){
+        const orders = this.orders;
+        const guard = this.spendingGuard = new SpendingGuard(orders, options);
+        const createOrder = orders.createOrder.bind(orders);
+        const updateOrder = orders.updateOrder.bind(orders);
+        const confirmOrder = orders.confirmOrder.bind(orders);
+        // dry runs are checked but not recorded
+        const charged = (options?: CallOptions) => !(options && options.dryRun !== undefined ? options.dryRun : this.transport.dryRun.enabled);
+        orders.createOrder = (newOrder, confirm, update_existing, options) => !confirm ? createOrder(newOrder, confirm, update_existing, options) : this.guarded(() => guard.guard(
+            async () => ({result: newOrder, code: 200, error: null}),
+            () => createOrder(newOrder, confirm, update_existing, options),
+            charged(options), options
+        ));
+        orders.updateOrder = (id, orderData, confirm, options) => !confirm ? updateOrder(id, orderData, confirm, options) : this.guarded(() => guard.guard(
+            async () => {
+                const current = await orders.getOrder(id, options);
+                if (current.error) return current;
+                const order = toOrder(current.result);
+                return {...current, result: {...order, ...orderData, recipient: {...order.recipient, ...orderData.recipient}} as Order};
+            },
+            () => updateOrder(id, orderData, confirm, options),
+            charged(options), options
+        ));
+        orders.confirmOrder = (id, options) => this.guarded(() => guard.guard(
+            async () => {
+                const current = await orders.getOrder(id, options);
+                return current.error ? current : {...current, result: toOrder(current.result)};
+            },
+            () => confirmOrder(id, options),
+            charged(options), options
+        ));
+    }
+
+    /**
+     * Wraps the order methods that change orders so the status of the order is checked first, see {@link ORDER_ACTIONS}
+     */
+    protected guardOrderState(){
+        const orders = this.orders;
+        const cancelOrder = orders.cancelOrder.bind(orders);
+        const updateOrder = orders.updateOrder.bind(orders);
+        const confirmOrder = orders.confirmOrder.bind(orders);
+        const checked = <T>(id: number | string, action: OrderAction, options: CallOptions | undefined, call: () => Promise<T>) => this.guarded<T>(async () => {
+            const current = await orders.getOrder(id, options);
+            if (current.error) return current;
+            assertOrderAction({id, status: current.result.status}, action);
+            return call();
+        });
+        orders.cancelOrder = (id, options) => checked(id, "cancel", options, () => cancelOrder(id, options));
+        orders.updateOrder = (id, orderData, confirm, options) => checked(id, "update", options, () => updateOrder(id, orderData, confirm, options));
+        orders.confirmOrder = (id, options) => checked(id, "confirm", options, () => confirmOrder(id, options));
+    }
+
+    /**
+     * Runs a guarded call, returning errors raised by the guard as the result unless `throwOnError` is set
+     */
+    protected async guarded<T>(call: () => Promise<T | APIFailure>): Promise<T | APIFailure>{
+        try{
+            return await call();
+        }
+        catch (error){
+            if (this.transport.throwOnError || !(error instanceof PrintfulError)) throw error;
+            return {result: null, code: error.status, error: {reason: error.reason, message: error.message}};
+        }
+    }
+}
+
+export function createPrintfulStoreClient(auth: string | undefined, options?: ClientOptions){
+    return new PrintfulStoreClient(auth, options);
+}
+
+/**
+ * Client for account level tokens, which can access every store of the account.
+ * 
+ * Store endpoints act on the store selected with the `storeId` option (sent as the `X-PF-Store-Id` header),
+ * use {@link forStore} or {@link getStoreClients} to get clients scoped to other stores.
+ */
+export class PrintfulAccountClient extends PrintfulStoreClient{
+    public storeId?: number;
+    protected auth: string | undefined;
+    protected options: AccountClientOptions;
+
+    constructor(auth: string | undefined, options: AccountClientOptions = {}){
+        super(auth, options);
+        this.auth = auth;
+        this.options = options;
+        this.storeId = options.storeId;
+        this.transport.accountLevel = true;
+        options.storeId !== undefined && (this.headers["X-PF-Store-Id"] = String(options.storeId));
+    }
+
+    /**
+     * Returns a client with the same token and options, scoped to the given store.
+     * 
+     * OAuth tokens are shared through the token store, so refreshed tokens are used by every scoped client.
+     * The request queue and the spend ledger are shared too, their limits apply to every scoped client.
+     * So are the interceptors: one added with `use()` on any of the clients runs for all of them.
+     * 
+     * @param {int} storeId - Store ID
+     * 
+     * @returns {PrintfulAccountClient} client
+     */
+    forStore(storeId: number){
+        const oauth = this.options.oauth && {...this.options.oauth, tokenStore: this.oauth.tokenStore};
+        const spendingGuard = this.spendingGuard && {...this.options.spendingGuard, ledger: this.spendingGuard.ledger};
+        const client = new PrintfulAccountClient(this.auth, {...this.options, oauth, storeId, queue: this.queue, spendingGuard});
+        client.transport.interceptors = this.transport.interceptors;
+        return client;
+    }
+
+    /**
+     * Lists every store of the account together with a client scoped to it
+     * 
+     * @returns {promise} Array of {store, client}
+     */
+    async getStoreClients(){
+        const stores = await this.storeInformation.iterateAllStoresInfo().collectAll();
+        return stores.map((store) => ({store, client: this.forStore(store.id)}));
     }
 }
 
-export function createPrintfulStoreClient(auth: string | undefined){
-    return new PrintfulStoreClient(auth);
+export function createPrintfulAccountClient(auth: string | undefined, options?: AccountClientOptions){
+    return new PrintfulAccountClient(auth, options);
 }
\ No newline at end of file
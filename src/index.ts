@@ -1 +1,51 @@
-export * from "./client";
\ No newline at end of file
+export * from "./client";
+export * from "./lib/errors";
+export { default as MemoryTokenStore } from "./lib/token-store";
+export { MemoryCacheStore, DEFAULT_CACHE_RULES } from "./lib/cache";
+export { default as FileCacheStore } from "./lib/file-cache-store";
+export { default as MockPrintfulServer } from "./lib/mock-server";
+export { default as Cassette, RECIPIENT_PII_FIELDS } from "./lib/cassette";
+export { default as RequestQueue } from "./lib/request-queue";
+export { DEFAULT_DRY_RUN_RULES } from "./lib/dry-run";
+export { default as MemorySpendLedger } from "./lib/spend-ledger";
+export { default as AddressValidator, validateAddress, taxNumberProblem, ZIP_FORMATS, STATE_REQUIRED_COUNTRIES, TAX_NUMBER_REQUIRED_COUNTRIES } from "./lib/address-validator";
+export { ORDER_TRANSITIONS, ORDER_ACTIONS, canTransition, canReach, canTakeAction, canCancel, canUpdate, canConfirm, assertOrderAction } from "./lib/order-lifecycle";
+export { default as OrderImporter, DEFAULT_IMPORT_COLUMNS } from "./lib/order-importer";
+export { default as OrderExporter, EXPORT_COLUMNS } from "./lib/order-exporter";
+export { parseCsv, formatCsvRow } from "./lib/csv";
+export { selectRate } from "./lib/shipping-rate";
+export { default as OrderBuilder, validateOrder, validateOrderItem, MAX_ITEM_QUANTITY } from "./lib/order-builder";
+export type { default as SpendingGuard } from "./lib/spending-guard";
+export { schema, validateSchema, DEFAULT_SCHEMA_RULES } from "./lib/schemas";
+export { METHOD_SCOPES } from "./lib/scopes";
+export type { ScopedMethod } from "./lib/scopes";
+export type { MockServerOptions, MockRequest, MockReply } from "./lib/mock-server";
+export type { Interceptor, InterceptorRequest, InterceptorResponse } from "./lib/interceptors";
+export type { default as Paginator, PaginateOptions } from "./lib/paginator";
+export type { ClientOptions, AccountClientOptions, CallOptions, FetchFunction, RetryOptions, RateLimitOptions, RateLimitRule, QueueOptions, QueueRule, QueuePriority } from "./types/client";
+export type { OAuthOptions, OAuthTokens, TokenStore } from "./types/oauth";
+export type { CacheEntry, CacheOptions, CacheRule, CacheStore } from "./types/cache";
+export type { CassetteMode, CassetteMatching, CassetteOptions, CassetteInteraction, CassetteRequest, CassetteResponse, CassetteFile } from "./types/cassette";
+export type { SpendEntry, SpendLedger, SpendingGuardOptions } from "./types/spending";
+export type { ImportField, OrderImportOptions, ImportedOrder, ImportReport, ImportOrderReport, ImportRowReport } from "./types/import";
+export type { ExportFormat, ExportColumn, ExportRow, OrderExportOptions, ExportStream } from "./types/export";
+export type { CsvRecord } from "./lib/csv";
+export type { DryRunOptions, DryRunRequest, DryRunRule, DryRunContext } from "./types/dry-run";
+export type { ValidationMode, ValidationOptions, Schema, SchemaRule, SchemaIssue, SchemaDrift } from "./types/validation";
+export type { APIError, APIResult, APISuccess, APIFailure, APIPagedResult } from "./types/response";
+export type { Order, OrderItem, OrderRecipient, OrderStatus, OrderAction, OrderIssue, OrderWatchOptions, OrderStatusEvent, OrderShipmentEvent, OrderGift, OrderPackingSlip, SubmitOrderOptions, OrderResponse, OrderItemResponse, OrderCosts, OrderRetailCosts, OrderCostEstimate, Shipment, ShipmentItem } from "./types/order";
+export type { CatalogProduct, CatalogVariant, CatalogProductInfo, CatalogVariantInfo, ProductSizeGuide, Category } from "./types/catalog";
+export type { SyncProduct, SyncProductResponse, SyncProductInfo } from "./types/product";
+export type { SyncVariant, SyncVariantResponse, SyncVariantInfo } from "./types/variant";
+export type { File, FileInfo, FileStatus, ThreadColors } from "./types/file";
+export type { MockupTask, MockupTaskCreated, MockupTaskResult, MockupTaskStatus, ProductPrintfiles, LayoutTemplates } from "./types/mockup";
+export type { ShippingInfo, ShippingRate, ShippingPolicy, ShippingSelectOptions, ShippingSelection } from "./types/shipping";
+export type { Country, State, TaxCountry, TaxRate, AddressIssue } from "./types/country";
+export type { StoreInfo } from "./types/store";
+export type { ProductTemplate } from "./types/template";
+export type { WarehouseProduct, WarehouseVariant } from "./types/warehouse";
+export type { ReportStatistics } from "./types/report";
+export type { WebhookConfig, WebhookInfo } from "./types/webhook";
+export type { ApprovalSheet } from "./types/approval-sheet";
+export type { Paging } from "./types/client";
+export type { TokenScopes } from "./types/oauth";
\ No newline at end of file
@@ -0,0 +1,153 @@
+import type CountryCodesAPI from "./country-codes";
+import type { CallOptions } from "../types/client";
+import type { AddressIssue, Country } from "../types/country";
+import type { OrderRecipient } from "../types/order";
+import type { APIResult } from "../types/response";
+
+// Fields required for every country
+const REQUIRED_FIELDS: Array<keyof OrderRecipient> = ["address1", "city", "country_code"];
+
+// Countries where orders are rejected without a state code
+export const STATE_REQUIRED_COUNTRIES = ["US", "CA", "AU"];
+
+// Countries where the tax number (CPF/CNPJ in Brazil) is required
+export const TAX_NUMBER_REQUIRED_COUNTRIES = ["BR"];
+
+/**
+ * Postal code formats, with an example shown in the issues. The zip is required for these countries.
+ */
+export const ZIP_FORMATS: Record<string, {pattern: RegExp, example: string}> = {
+    US: {pattern: /^\d{5}(-\d{4})?$/, example: "91311 or 91311-1234"},
+    CA: {pattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, example: "K1A 0B1"},
+    AU: {pattern: /^\d{4}$/, example: "2000"},
+    BR: {pattern: /^\d{5}-?\d{3}$/, example: "01310-100"},
+    GB: {pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, example: "SW1A 1AA"},
+    DE: {pattern: /^\d{5}$/, example: "10115"},
+    FR: {pattern: /^\d{5}$/, example: "75001"},
+    ES: {pattern: /^\d{5}$/, example: "28001"},
+    IT: {pattern: /^\d{5}$/, example: "00118"},
+    NL: {pattern: /^\d{4} ?[A-Z]{2}$/i, example: "1012 AB"},
+    MX: {pattern: /^\d{5}$/, example: "06600"},
+    JP: {pattern: /^\d{3}-?\d{4}$/, example: "100-0001"},
+    NZ: {pattern: /^\d{4}$/, example: "6011"},
+    IN: {pattern: /^\d{6}$/, example: "110001"},
+};
+
+const CPF = /^\d{3}\.\d{3}\.\d{3}-\d{2}$/;
+const CNPJ = /^\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}$/;
+
+/**
+ * Whether the check digits of a CPF (11 digits) or CNPJ (14 digits) number match
+ */
+function checkDigits(digits: Array<number>){
+    if (digits.every((digit) => digit === digits[0])) return false;
+    const cpf = digits.length === 11;
+    const check = (length: number) => {
+        const weights = cpf ? Array.from({length}, (_, index) => length + 1 - index) : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2].slice(13 - length);
+        const remainder = digits.slice(0, length).reduce((sum, digit, index) => sum + digit * weights[index], 0) % 11;
+        return remainder < 2 ? 0 : 11 - remainder;
+    };
+    const length = digits.length - 2;
+    return check(length) === digits[length] && check(length + 1) === digits[length + 1];
+}
+
+/**
+ * Checks a Brazilian tax number: a CPF formatted as 000.000.000-00 or a CNPJ formatted as 00.000.000/0000-00
+ *
+ * @param {string} tax_number - CPF or CNPJ number
+ *
+ * @returns {string|null} the problem, or null when the number is valid
+ */
+export function taxNumberProblem(tax_number: string){
+    if (!CPF.test(tax_number) && !CNPJ.test(tax_number)){
+        return "must be a CPF formatted as 000.000.000-00 or a CNPJ formatted as 00.000.000/0000-00";
+    }
+    const digits = tax_number.replace(/\D/g, "").split("").map(Number);
+    return checkDigits(digits) ? null : "is not a valid " + (digits.length === 11 ? "CPF" : "CNPJ") + " number (check digits don't match)";
+}
+
+/**
+ * Checks a recipient address against the country list of the API: country and state codes, the fields required
+ * in the country, the zip format and, for Brazil, the CPF/CNPJ tax number
+ *
+ * @param {OrderRecipient|ShippingRecipient} recipient - Recipient of an order or of a shipping rate request
+ * @param {Array<Country>} countries - Countries returned by `countryCodes.getCountryList`
+ *
+ * @returns {Array<AddressIssue>} issues, empty when the address is valid
+ */
+export function validateAddress(recipient: OrderRecipient, countries: Array<Country>): Array<AddressIssue>{
+    const issues: Array<AddressIssue> = [];
+    const value = (field: keyof OrderRecipient) => (recipient[field] || "").trim();
+    for (const field of REQUIRED_FIELDS){
+        value(field) || issues.push({field, message: "is required"});
+    }
+    const code = value("country_code");
+    if (!code) return issues;
+    const country = countries.find((country) => country.code === code);
+    if (!country){
+        issues.push({field: "country_code", message: "'" + code + "' is not a country code of the API"});
+        return issues;
+    }
+    const state = value("state_code");
+    if (!state){
+        STATE_REQUIRED_COUNTRIES.includes(code) && issues.push({field: "state_code", message: "is required in " + country.name});
+    }
+    else if (country.states && !country.states.some(({code}) => code === state)){
+        issues.push({field: "state_code", message: "'" + state + "' is not a state code of " + country.name});
+    }
+    const zip = value("zip");
+    const format = ZIP_FORMATS[code];
+    if (format && !zip){
+        issues.push({field: "zip", message: "is required in " + country.name});
+    }
+    else if (format && !format.pattern.test(zip)){
+        issues.push({field: "zip", message: "'" + zip + "' is not a valid zip in " + country.name + ", e.g. " + format.example});
+    }
+    if (TAX_NUMBER_REQUIRED_COUNTRIES.includes(code)){
+        const tax_number = value("tax_number");
+        const problem = tax_number ? taxNumberProblem(tax_number) : "is required in " + country.name + " (CPF or CNPJ)";
+        problem && issues.push({field: "tax_number", message: problem});
+    }
+    return issues;
+}
+
+//------------------------------------------------------------------------------------------------------//
+// ADDRESS VALIDATOR
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Validates recipient addresses before they are sent to the API, with the country list loaded once
+ * from `countryCodes.getCountryList`
+ */
+export default class AddressValidator{
+    protected countryCodes: CountryCodesAPI
+    protected countries?: Promise<APIResult<Array<Country>>>
+
+    constructor(countryCodes: CountryCodesAPI){
+        this.countryCodes = countryCodes;
+    }
+
+    /**
+     * Checks a recipient address, see {@link validateAddress}
+     *
+     * @param {OrderRecipient|ShippingRecipient} recipient - Recipient of an order or of a shipping rate request
+     * @param {CallOptions} options - Abort signal and timeout for loading the country list (optional)
+     *
+     * @returns {promise} {result, code, error} with the issues as result, empty when the address is valid
+     */
+    async validate(recipient: OrderRecipient, options?: CallOptions): Promise<APIResult<Array<AddressIssue>>>{
+        const countries = await this.load(options);
+        if (countries.error) return countries;
+        return {...countries, result: validateAddress(recipient, countries.result)};
+    }
+
+    /**
+     * Loads the country list, failed loads are retried on the next call
+     */
+    protected load(options?: CallOptions){
+        if (!this.countries){
+            this.countries = this.countryCodes.getCountryList(options);
+            this.countries.then(({error}) => error && (this.countries = undefined), () => this.countries = undefined);
+        }
+        return this.countries;
+    }
+}
@@ -1,27 +1,24 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type Transport from "./transport";
 import type { ApprovalSheetChanges } from "../types/approval-sheet";
+import type { CallOptions } from "../types/client";
+import type { ApprovalSheet, ApprovalSheetStatus } from "../types/approval-sheet";
 
 //------------------------------------------------------------------------------------------------------//
 // XVI. APPROVAL SHEETS API
 //------------------------------------------------------------------------------------------------------//
 export default class ApprovalSheetsAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Retrieve a list of approval sheets confirming suggested changes to files of on hold orders.
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getApprovalSheets(){
-        const url = this.origin + "/approval-sheets";
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getApprovalSheets(options?: CallOptions){
+        return this.request<Array<ApprovalSheet>>("/approval-sheets", options);
     }
 
     /**
@@ -29,22 +26,13 @@ export default class ApprovalSheetsAPI extends GenericAPI{
      * 
      * @param {string} confirm_hash - Example: confirm_hash=a14e51714be01f98487fcf5131727d31, The confirm hash for the approval sheet you would like to approve.
      * @param {string} status - Value: "approved"
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async approveDesign(confirm_hash: string, status: string){
+    async approveDesign(confirm_hash: string, status: string, options?: CallOptions){
         const params = new URLSearchParams({confirm_hash});
-        const url = this.origin + "/approval-sheets?"+params.toString();
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify({
-                status
-            })
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<ApprovalSheetStatus>("/approval-sheets", {method: "POST", params, body: {status}, ...options});
     }
 
     /**
@@ -52,19 +40,12 @@ export default class ApprovalSheetsAPI extends GenericAPI{
      * 
      * @param {string} confirm_hash - Example: confirm_hash=a14e51714be01f98487fcf5131727d31, The confirm hash for the approval sheet you would like to approve.
      * @param {ApprovalSheetChanges} changes - Data to be submitted to Printful designers
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async changeApprovalSheet(confirm_hash: string, changes: ApprovalSheetChanges){
+    async changeApprovalSheet(confirm_hash: string, changes: ApprovalSheetChanges, options?: CallOptions){
         const params = new URLSearchParams({confirm_hash});
-        const url = this.origin + "/approval-sheets/changes?"+params.toString();
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(changes)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<ApprovalSheetStatus>("/approval-sheets/changes", {method: "POST", params, body: changes, ...options});
     }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { failed } from "./generic";
+import type { CacheEntry, CacheOptions, CacheRule, CacheStore } from "../types/cache";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Code and error of a parsed response body
+ */
+function outcome(data: unknown){
+    const body: {code?: unknown, error?: unknown} = data && typeof data === "object" ? data : {};
+    return {code: typeof body.code === "number" ? body.code : 0, error: body.error};
+}
+
+/**
+ * Cached endpoints by default, all serve rarely changing public data. The first matching rule applies.
+ */
+export const DEFAULT_CACHE_RULES: Array<CacheRule> = [
+    {pattern: /^\/products(\/|$)/, ttl: HOUR, staleWhileRevalidate: 24 * HOUR},
+    {pattern: /^\/categories(\/|$)/, ttl: 24 * HOUR, staleWhileRevalidate: 24 * HOUR},
+    {pattern: /^\/countries$/, ttl: 24 * HOUR, staleWhileRevalidate: 7 * 24 * HOUR},
+    {pattern: /^\/tax\/countries$/, ttl: 24 * HOUR, staleWhileRevalidate: 7 * 24 * HOUR},
+];
+
+//------------------------------------------------------------------------------------------------------//
+// MEMORY CACHE STORE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Keeps entries in memory, evicting the least recently used one when full
+ */
+export class MemoryCacheStore implements CacheStore{
+    protected entries: Map<string, CacheEntry>
+    protected maxEntries: number
+
+    constructor(maxEntries = 500){
+        this.entries = new Map();
+        this.maxEntries = maxEntries;
+    }
+
+    get(key: string){
+        const entry = this.entries.get(key);
+        if (entry){
+            // re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry){
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries){
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    delete(key: string){
+        this.entries.delete(key);
+    }
+
+    keys(){
+        return [...this.entries.keys()];
+    }
+}
+
+//------------------------------------------------------------------------------------------------------//
+// RESPONSE CACHE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Serves GET responses of cached endpoints from a {@link CacheStore}.
+ * 
+ * Fresh entries are returned as is. Stale entries within `staleWhileRevalidate` are returned while they are
+ * refreshed in the background. Entries with an ETag are revalidated with `If-None-Match`.
+ * Failed responses are never cached.
+ */
+export default class ResponseCache{
+    protected store: CacheStore
+    protected rules: Array<CacheRule>
+    protected revalidating: Map<string, Promise<unknown>>
+
+    constructor(options: CacheOptions = {}){
+        this.store = options.store || new MemoryCacheStore();
+        this.rules = [...(options.rules || []), ...DEFAULT_CACHE_RULES];
+        this.revalidating = new Map();
+    }
+
+    /**
+     * Returns the rule of a path, if it is cached
+     */
+    rule(path: string){
+        const rule = this.rules.find((rule) => rule.pattern.test(path));
+        return rule && rule.ttl > 0 ? rule : undefined;
+    }
+
+    /**
+     * Returns the cache key of a request
+     */
+    key(url: string, storeId?: string){
+        return storeId ? url + "#store=" + storeId : url;
+    }
+
+    /**
+     * Returns the cached response body, loading it when missing or expired
+     * 
+     * @param {string} key - Cache key of the request
+     * @param {CacheRule} rule - Rule of the request path
+     * @param {function} load - Sends the request, with `If-None-Match` when an ETag is given
+     * 
+     * @returns {promise} parsed response body
+     */
+    async get(key: string, rule: CacheRule, load: (etag?: string) => Promise<{data: unknown, etag?: string}>){
+        const entry = await this.store.get(key);
+        const now = Date.now();
+        if (entry && now < entry.expiresAt) return entry.data;
+        if (entry && now < entry.staleUntil){
+            this.revalidate(key, rule, entry, load).catch(() => undefined);
+            return entry.data;
+        }
+        return this.revalidate(key, rule, entry, load);
+    }
+
+    /**
+     * Removes cached responses
+     * 
+     * @param {string|RegExp} match - URL prefix or pattern of the entries to remove, every entry when omitted
+     */
+    async invalidate(match?: string | RegExp){
+        for (const key of await this.store.keys()){
+            const matches = match === undefined
+                || (typeof match === "string" ? key.startsWith(match) : match.test(key));
+            matches && await this.store.delete(key);
+        }
+    }
+
+    protected revalidate(key: string, rule: CacheRule, entry: CacheEntry | undefined, load: (etag?: string) => Promise<{data: unknown, etag?: string}>){
+        const pending = this.revalidating.get(key);
+        if (pending) return pending;
+        const promise = (async () => {
+            const {data, etag} = await load(entry && entry.etag);
+            const now = Date.now();
+            const lifetime = {expiresAt: now + rule.ttl, staleUntil: now + rule.ttl + (rule.staleWhileRevalidate || 0)};
+            const {code, error} = outcome(data);
+            if (entry && code === 304){
+                await this.store.set(key, {...entry, ...lifetime});
+                return entry.data;
+            }
+            // network, timeout and abort failures have code 0
+            !failed(code) && !error && await this.store.set(key, {data, etag, ...lifetime});
+            return data;
+        })().finally(() => this.revalidating.delete(key));
+        this.revalidating.set(key, promise);
+        return promise;
+    }
+}
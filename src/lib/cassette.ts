@@ -0,0 +1,190 @@
+import { Response } from "cross-fetch";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { PrintfulCassetteError } from "./errors";
+import { REDACTED, SECRET_FIELDS, SECRET_FORM_FIELDS } from "./interceptors";
+import type { CassetteFile, CassetteInteraction, CassetteOptions, CassetteRequest } from "../types/cassette";
+import type { FetchFunction, HttpMethod } from "../types/client";
+
+// OrderRecipient fields that identify a person, country and state codes are kept
+export const RECIPIENT_PII_FIELDS = ["name", "company", "address1", "address2", "city", "zip", "phone", "email", "tax_number"];
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Serializes a value with sorted object keys, so equal bodies compare equal
+ */
+function canonical(value: unknown): string{
+    if (Array.isArray(value)) return "[" + value.map(canonical).join(",") + "]";
+    if (value && typeof value === "object"){
+        return "{" + Object.keys(value).sort().map((key) => JSON.stringify(key) + ":" + canonical((value as Record<string, unknown>)[key])).join(",") + "}";
+    }
+    return JSON.stringify(value);
+}
+
+//------------------------------------------------------------------------------------------------------//
+// CASSETTE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Records request/response pairs to a JSON file and replays them, to run tests against real API responses without network:
+ *
+ *     const client = createPrintfulStoreClient(process.env.TOKEN, {cassette: new Cassette("test/cassettes/orders.json", {mode: "auto"})});
+ *
+ * Recordings never contain the bearer token, OAuth credentials or the personal data of order recipients,
+ * requests are scrubbed the same way before they are matched. Requests without a matching recording fail with
+ * {@link PrintfulCassetteError}.
+ */
+export default class Cassette{
+    public interactions: Array<CassetteInteraction> = []
+    public recording = false                // Set once the cassette is loaded
+    protected file: string
+    protected options: CassetteOptions
+    protected loaded?: Promise<void>
+    protected played = new Set<number>()
+    protected writing: Promise<void> = Promise.resolve()
+    protected redacted: Array<string>
+
+    constructor(file: string, options: CassetteOptions = {}){
+        this.file = file;
+        this.options = options;
+        this.redacted = options.redact || [];
+    }
+
+    /**
+     * Wraps a fetch function to record its responses, or to replay them without calling it
+     *
+     * @param {FetchFunction} fetch - fetch used while recording
+     *
+     * @returns {FetchFunction} fetch
+     */
+    wrap(fetch: FetchFunction): FetchFunction{
+        return async (url, init = {}) => {
+            await this.load();
+            if (init.signal && init.signal.aborted){
+                throw Object.assign(new Error("The operation was aborted."), {name: "AbortError"});
+            }
+            const request = this.scrubRequest(url, init);
+            return this.recording ? this.record(fetch, request, url, init) : this.replay(request);
+        }
+    }
+
+    /**
+     * Reads the recordings, or starts a new recording depending on the mode. Called by the first request.
+     */
+    load(){
+        this.loaded = this.loaded || (async () => {
+            const mode = this.options.mode || "replay";
+            let contents: string | undefined;
+            if (mode !== "record"){
+                try{
+                    contents = await fs.readFile(this.file, "utf8");
+                }
+                catch (error){
+                    if (mode === "replay"){
+                        throw new PrintfulCassetteError("Cassette " + this.file + " does not exist, record it first with mode 'record' or 'auto'", {status: 0, reason: "CassetteMissing", cause: error});
+                    }
+                }
+            }
+            this.recording = contents === undefined;
+            this.interactions = contents === undefined ? [] : (JSON.parse(contents) as CassetteFile).interactions;
+        })();
+        return this.loaded;
+    }
+
+    /**
+     * Writes the recordings to the cassette file, waiting for pending writes
+     */
+    async save(){
+        this.writing = this.writing.then(async () => {
+            const contents: CassetteFile = {version: 1, recorded: new Date().toISOString(), interactions: this.interactions};
+            await fs.mkdir(path.dirname(this.file), {recursive: true});
+            await fs.writeFile(this.file, JSON.stringify(contents, null, 2) + "\n");
+        });
+        return this.writing;
+    }
+
+    protected async record(fetch: FetchFunction, request: CassetteRequest, url: string, init: RequestInit){
+        const response = await fetch(url, init);
+        const text = NULL_BODY_STATUSES.includes(response.status) ? "" : await response.text();
+        const headers: Record<string, string> = {};
+        response.headers && typeof response.headers.forEach === "function" && response.headers.forEach((value, name) => {
+            name !== "set-cookie" && (headers[name] = value);
+        });
+        let body: unknown;
+        try{
+            body = text ? this.scrub(JSON.parse(text)) : undefined;
+        }
+        catch (error){
+            body = undefined;
+        }
+        this.interactions.push({request, response: {status: response.status, headers, ...(body === undefined && text ? {text} : {body})}});
+        await this.save();
+        // only the recording is scrubbed, the caller gets the live response
+        return this.response(response.status, headers, text);
+    }
+
+    protected replay(request: CassetteRequest){
+        const strict = (this.options.match || "strict") === "strict";
+        const path = new URL(request.url).pathname;
+        const candidates = this.interactions
+            .map((interaction, index) => ({interaction, index}))
+            .filter(({interaction}) => interaction.request.method === request.method && new URL(interaction.request.url).pathname === path);
+        const matching = strict ? candidates.filter(({interaction}) => this.equal(interaction.request, request)) : candidates;
+        // unplayed recordings first, in recorded order; loose matching may repeat the last one
+        const found = matching.find(({index}) => !this.played.has(index)) || (!strict ? matching[matching.length - 1] : undefined);
+        if (!found){
+            throw new PrintfulCassetteError(this.mismatch(request, candidates.length, matching.length), {status: 0, reason: "CassetteMismatch", request: {method: request.method, url: request.url}});
+        }
+        this.played.add(found.index);
+        const {status, headers, body, text} = found.interaction.response;
+        return this.response(status, headers, body === undefined ? text || "" : JSON.stringify(body));
+    }
+
+    protected mismatch(request: CassetteRequest, endpoint: number, matching: number){
+        const strict = (this.options.match || "strict") === "strict";
+        const described = request.method + " " + request.url + " (" + (strict ? "strict" : "loose") + " matching)";
+        if (matching > 0) return "Every recording of " + described + " in cassette " + this.file + " was already replayed";
+        if (endpoint > 0) return "No recording in cassette " + this.file + " matches " + described + ", " + endpoint + " recording(s) of the endpoint differ in query, store or body";
+        return "Cassette " + this.file + " has no recording of " + described + ", record it again to add the request";
+    }
+
+    protected equal(recorded: CassetteRequest, request: CassetteRequest){
+        return recorded.url === request.url
+            && recorded.headers["X-PF-Store-Id"] === request.headers["X-PF-Store-Id"]
+            && canonical(recorded.body) === canonical(request.body)
+            && canonical(recorded.form) === canonical(request.form);
+    }
+
+    protected response(status: number, headers: Record<string, string>, body: string){
+        return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, {status, headers});
+    }
+
+    protected scrubRequest(url: string, init: RequestInit): CassetteRequest{
+        const headers: Record<string, string> = {...(init.headers as Record<string, string>)};
+        headers.Authorization !== undefined && (headers.Authorization = REDACTED);
+        const request: CassetteRequest = {method: (init.method || "GET").toUpperCase() as HttpMethod, url, headers};
+        if (init.body instanceof URLSearchParams){
+            request.form = Object.fromEntries([...init.body].map(([key, value]) => [key, SECRET_FORM_FIELDS.includes(key) ? REDACTED : value]));
+        }
+        else if (typeof init.body === "string"){
+            request.body = this.scrub(JSON.parse(init.body));
+        }
+        return request;
+    }
+
+    /**
+     * Replaces recipient PII, OAuth credentials and the `redact` fields with `[REDACTED]`, in a copy of the value
+     */
+    protected scrub(value: unknown, key?: string): unknown{
+        if (Array.isArray(value)) return value.map((item) => this.scrub(item));
+        if (!value || typeof value !== "object"){
+            return key && typeof value === "string" && (SECRET_FIELDS.includes(key) || this.redacted.includes(key)) ? REDACTED : value;
+        }
+        const copy: Record<string, unknown> = {};
+        for (const [field, item] of Object.entries(value)){
+            copy[field] = key === "recipient" && RECIPIENT_PII_FIELDS.includes(field) && item ? REDACTED : this.scrub(item, field);
+        }
+        return copy;
+    }
+}
@@ -1,57 +1,49 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type Transport from "./transport";
+import type { CallOptions } from "../types/client";
+import type { Category, CatalogProduct, CatalogProductInfo, CatalogVariantInfo, ProductSizeGuide } from "../types/catalog";
 
 //------------------------------------------------------------------------------------------------------//
 // II. CATALOG API
 //------------------------------------------------------------------------------------------------------//
 export default class CatalogAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /** 
      * Returns list of Products available in the Printful
      * 
      * @param {string} category_id - A comma-separated list of Category IDs of the Products that are to be returned
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      * */
-    async getAllProducts(category_id?: string){
+    async getAllProducts(category_id?: string, options?: CallOptions){
         const params = new URLSearchParams({});
         category_id && params.append("category_id", String(category_id));
-        const url = this.origin+"/products?" + params.toString();
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<Array<CatalogProduct>>("/products", {params, auth: false, ...options});
     }
 
     /** 
      * Returns information about a specific Variant and its Product
      * @param {int} id - Product ID.
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      * */
-    async getVariant(id: number){
-        const url = this.origin+"/products/variant/"+id;
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getVariant(id: number, options?: CallOptions){
+        return this.request<CatalogVariantInfo>("/products/variant/"+id, {auth: false, ...options});
     }
 
     /** 
      * Returns information about a specific product and a list of variants for this product.
      * 
      * @param {int} id - Product ID.
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
     */
-    async getProduct(id: number){
-        const url = this.origin+"/products/"+id;
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getProduct(id: number, options?: CallOptions){
+        return this.request<CatalogProductInfo>("/products/"+id, {auth: false, ...options});
 
     }
 
@@ -59,43 +51,35 @@ export default class CatalogAPI extends GenericAPI{
      * Returns information about the size guide for a specific product.
      * @param {int} id - Product ID.
      * @param {boolean} [metric=true] - set true to return sizes in cm as opposed to inches (optional)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      * */
-    async getSize(id: number, metric=false){
+    async getSize(id: number, metric=false, options?: CallOptions){
         const params = new URLSearchParams({unit: metric?"cm":"inches"});
-        const url = this.origin+"/products/"+id+"/sizes?"+ params.toString();
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<ProductSizeGuide>("/products/"+id+"/sizes", {params, auth: false, ...options});
     }
 
     /**
      * Returns list of Catalog Categories available in the Printful
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getAllCategories(){
-        const url = this.origin+"/categories/";
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getAllCategories(options?: CallOptions){
+        return this.request<{categories: Array<Category>}>("/categories/", {auth: false, ...options});
     }
 
     /** 
      * Returns information about a specific category.
      * @param {int} id - Category ID
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      * */
-    async getCategory(id: number){
-        const url = this.origin+"/categories/"+id;
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getCategory(id: number, options?: CallOptions){
+        return this.request<{category: Category}>("/categories/"+id, {auth: false, ...options});
 
     }
 }
\ No newline at end of file
@@ -1,24 +1,22 @@
-import fetch from 'cross-fetch';
+import GenericAPI from "./generic";
+import type Transport from "./transport";
+import type { CallOptions } from "../types/client";
+import type { Country } from "../types/country";
 
 //------------------------------------------------------------------------------------------------------//
 // IX. COUNTRY/STATE CODE API
 //------------------------------------------------------------------------------------------------------//
-export default class CountryCodesAPI{
-    protected origin: string;
-    constructor(origin: string){
-        this.origin = origin;
-    }
+export default class CountryCodesAPI extends GenericAPI{
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Retrieve state list that requires sales tax calculation
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getCountryList(){
-        const url = this.origin + "/countries";
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getCountryList(options?: CallOptions){
+        return this.request<Array<Country>>("/countries", {auth: false, ...options});
     }
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+export type CsvRecord = {
+    line: number,                           // Line the record starts on, 1 for the first line
+    cells: Array<string>
+}
+
+/**
+ * Parses CSV text (RFC 4180): quoted cells may contain delimiters, line breaks and quotes escaped as `""`.
+ * Empty lines are skipped.
+ *
+ * @param {string} text - CSV text
+ * @param {string} delimiter - Cell delimiter. Defaults to ','
+ *
+ * @returns {Array<CsvRecord>} records with the line they start on
+ */
+export function parseCsv(text: string, delimiter = ","): Array<CsvRecord>{
+    const records: Array<CsvRecord> = [];
+    let cells: Array<string> = [];
+    let cell = "";
+    let quoted = false;
+    let line = 1;
+    let start = 1;
+    const endRecord = () => {
+        cells.push(cell);
+        (cells.length > 1 || cells[0] !== "") && records.push({line: start, cells});
+        cells = [];
+        cell = "";
+    };
+    // a byte order mark is left by spreadsheet exports
+    for (let index = text.charCodeAt(0) === 0xFEFF ? 1 : 0; index < text.length; index++){
+        const char = text[index];
+        if (quoted){
+            if (char === '"' && text[index + 1] === '"'){
+                cell += '"';
+                index++;
+            }
+            else if (char === '"'){
+                quoted = false;
+            }
+            else{
+                char === "\n" && line++;
+                cell += char;
+            }
+        }
+        else if (char === '"' && cell === ""){
+            quoted = true;
+        }
+        else if (char === delimiter){
+            cells.push(cell);
+            cell = "";
+        }
+        else if (char === "\n" || char === "\r"){
+            char === "\r" && text[index + 1] === "\n" && index++;
+            endRecord();
+            start = ++line;
+        }
+        else{
+            cell += char;
+        }
+    }
+    (cell !== "" || cells.length) && endRecord();
+    return records;
+}
+
+/**
+ * Formats one CSV line, quoting cells that contain the delimiter, quotes or line breaks
+ *
+ * @param {Array} cells - Cell values, null and undefined are written as empty cells
+ * @param {string} delimiter - Cell delimiter. Defaults to ','
+ *
+ * @returns {string} line ending with CRLF, as in RFC 4180
+ */
+export function formatCsvRow(cells: Array<string | number | boolean | null | undefined>, delimiter = ","){
+    return cells.map((cell) => {
+        const text = cell === null || cell === undefined ? "" : String(cell);
+        return text.includes(delimiter) || /["\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+    }).join(delimiter) + "\r\n";
+}
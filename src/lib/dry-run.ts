@@ -0,0 +1,147 @@
+import { PrintfulValidationError } from "./errors";
+import type { HttpMethod } from "../types/client";
+import type { DryRunContext, DryRunOptions, DryRunRequest, DryRunRule } from "../types/dry-run";
+
+// Numeric path segments are IDs, others are External IDs prefixed with `@`
+const id = (segment: string) => /^\d+$/.test(segment) ? Number(segment) : decodeURIComponent(segment);
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+function itemProblems(items: unknown){
+    if (!Array.isArray(items) || !items.length) return ["items must contain at least one item"];
+    const problems: Array<string> = [];
+    items.forEach((item, index) => {
+        if (!isObject(item)) return problems.push("items[" + index + "] must be an object");
+        const quantity = item.quantity;
+        if (quantity !== undefined && (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 1 || quantity > 1000)){
+            problems.push("items[" + index + "].quantity must be between 1 and 1000");
+        }
+        if (["variant_id", "sync_variant_id", "external_variant_id", "warehouse_product_variant_id", "product_template_id"].every((key) => item[key] === undefined)){
+            problems.push("items[" + index + "] needs a variant_id, sync_variant_id, external_variant_id, warehouse_product_variant_id or product_template_id");
+        }
+    });
+    return problems;
+}
+
+function orderProblems({body}: DryRunContext){
+    const problems: Array<string> = [];
+    const recipient = isObject(body) ? body.recipient : undefined;
+    if (!isObject(recipient)) problems.push("recipient is required");
+    else ["address1", "city", "country_code"].forEach((field) => recipient[field] || problems.push("recipient." + field + " is required"));
+    return [...problems, ...itemProblems(isObject(body) ? body.items : undefined)];
+}
+
+function syncVariantProblems(variant: unknown, prefix: string){
+    if (!isObject(variant)) return [prefix + " must be an object"];
+    const problems: Array<string> = [];
+    variant.variant_id === undefined && problems.push(prefix + ".variant_id is required");
+    (!Array.isArray(variant.files) || variant.files.some((file: unknown) => !isObject(file) || (!file.url && !file.id))) && problems.push(prefix + ".files must be a list of files with a url or id");
+    return problems;
+}
+
+function syncProductProblems({body}: DryRunContext){
+    const product = isObject(body) ? body.sync_product : undefined;
+    const variants = isObject(body) ? body.sync_variants : undefined;
+    return [
+        ...(isObject(product) && product.name ? [] : ["sync_product.name is required"]),
+        ...(Array.isArray(variants) && variants.length ? variants.flatMap((variant: unknown, index: number) => syncVariantProblems(variant, "sync_variants[" + index + "]")) : ["sync_variants must contain at least one variant"])
+    ];
+}
+
+function syncProductResult({body}: DryRunContext){
+    const product = isObject(body) && isObject(body.sync_product) ? body.sync_product : {};
+    const variants = isObject(body) && Array.isArray(body.sync_variants) ? body.sync_variants.length : 0;
+    return {id: 0, external_id: product.external_id, name: product.name, variants, synced: variants};
+}
+
+const orderResult = (status: (context: DryRunContext) => string) => (context: DryRunContext) => ({
+    ...(isObject(context.body) ? context.body : {}),
+    id: context.match[1] ? id(context.match[1]) : 0,
+    status: status(context)
+});
+
+const confirmed = ({params}: DryRunContext) => params.get("confirm") === "true" ? "pending" : "draft";
+
+/**
+ * Mutating methods, not sent in dry run mode
+ */
+export const DEFAULT_DRY_RUN_RULES: Array<DryRunRule> = [
+    {name: "orders.createOrder", method: "POST", pattern: /^\/orders$/, validate: orderProblems, result: orderResult(confirmed)},
+    {name: "orders.confirmOrder", method: "POST", pattern: /^\/orders\/([^/]+)\/confirm$/, result: orderResult(() => "pending")},
+    {name: "orders.updateOrder", method: "PUT", pattern: /^\/orders\/([^/]+)$/, validate: ({body}) => isObject(body) && body.items !== undefined ? itemProblems(body.items) : [], result: orderResult(confirmed)},
+    {name: "orders.cancelOrder", method: "DELETE", pattern: /^\/orders\/([^/]+)$/, result: orderResult(() => "canceled")},
+
+    {name: "products.createSyncProduct", method: "POST", pattern: /^\/store\/products$/, validate: syncProductProblems, result: syncProductResult},
+    {name: "products.createSyncVariant", method: "POST", pattern: /^\/store\/products\/([^/]+)\/variants$/, validate: ({body}) => syncVariantProblems(body, "sync_variant"), result: ({match, body}) => ({...(isObject(body) ? body : {}), id: 0, sync_product_id: id(match[1])})},
+    {name: "products.modifySyncProduct", method: "PUT", pattern: /^\/store\/products\/([^/]+)$/},
+    {name: "products.deleteSyncProduct", method: "DELETE", pattern: /^\/store\/products\/([^/]+)$/},
+    {name: "products.modifySyncVariant", method: "PUT", pattern: /^\/store\/variants\/([^/]+)$/},
+    {name: "products.deleteSyncVariant", method: "DELETE", pattern: /^\/store\/variants\/([^/]+)$/},
+
+    {name: "ecommerceSync.deleteEcommProduct", method: "DELETE", pattern: /^\/sync\/products\/([^/]+)$/},
+    {name: "ecommerceSync.modifyEcommVariant", method: "PUT", pattern: /^\/sync\/variant\/([^/]+)$/},
+    {name: "ecommerceSync.deleteEcommVariant", method: "DELETE", pattern: /^\/sync\/variant\/([^/]+)$/},
+
+    {name: "productTemplates.deleteTemplate", method: "DELETE", pattern: /^\/product-templates\/([^/]+)$/},
+
+    {name: "fileLibrary.addFile", method: "POST", pattern: /^\/files$/, validate: ({body}) => isObject(body) && typeof body.url === "string" && body.url ? [] : ["url is required"]},
+
+    {name: "webhook.setWebhookConfig", method: "POST", pattern: /^\/webhooks$/, validate: ({body}) => [
+        ...(isObject(body) && typeof body.url === "string" && body.url ? [] : ["url is required"]),
+        ...(isObject(body) && Array.isArray(body.types) ? [] : ["types must be a list of event types"])
+    ]},
+    {name: "webhook.disableWebhookSupport", method: "DELETE", pattern: /^\/webhooks$/, result: () => ({url: null, types: [], params: []})},
+
+    {name: "storeInformation.changePackingSlip", method: "POST", pattern: /^\/store\/packing-slip$/, result: ({body}) => ({packing_slip: body})},
+
+    {name: "approvalSheets.approveDesign", method: "POST", pattern: /^\/approval-sheets$/, result: ({body}) => body},
+    {name: "approvalSheets.changeApprovalSheet", method: "POST", pattern: /^\/approval-sheets\/changes$/, result: ({body}) => body},
+];
+
+//------------------------------------------------------------------------------------------------------//
+// DRY RUN
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Stands in for the API on mutating requests: they are validated and logged instead of sent, and answered
+ * with a synthetic result. Requests without a rule, i.e. reads, are sent as usual.
+ */
+export default class DryRun{
+    public enabled: boolean                 // Whether calls without a `dryRun` option are dry runs
+    protected log: (request: DryRunRequest) => void
+    protected rules: Array<DryRunRule>
+
+    constructor(options: boolean | DryRunOptions = false){
+        const {log, rules = []} = options === true ? {} as DryRunOptions : options || {};
+        this.enabled = !!options;
+        this.log = log || ((request) => console.info("[dry run] " + request.name + ": " + request.method + " " + request.url + (request.body === undefined ? "" : " " + JSON.stringify(request.body))));
+        this.rules = [...rules, ...DEFAULT_DRY_RUN_RULES];
+    }
+
+    /**
+     * Returns the rule of a request, if it is not sent in dry run mode
+     */
+    rule(method: HttpMethod, path: string){
+        return this.rules.find((rule) => rule.method === method && rule.pattern.test(path));
+    }
+
+    /**
+     * Validates and logs a request instead of sending it
+     *
+     * @param {DryRunRule} rule - Rule of the request
+     * @param {DryRunRequest} request - Method, URL, headers and body that would be sent
+     * @param {string} path - Endpoint path
+     * @param {URLSearchParams} params - Query string parameters
+     *
+     * @returns {object} synthetic response body, or the error when the API would reject the request
+     */
+    simulate(rule: DryRunRule, request: Omit<DryRunRequest, "name">, path: string, params = new URLSearchParams()): {data?: {code: number, result: unknown}, error?: PrintfulValidationError}{
+        const context: DryRunContext = {match: path.match(rule.pattern) as RegExpMatchArray, params, body: request.body};
+        const problems = rule.validate ? rule.validate(context) : [];
+        if (problems.length){
+            return {error: new PrintfulValidationError("Dry run of " + rule.name + " failed validation: " + problems.join(", "), {status: 400, reason: "BadRequest", request: {method: request.method, url: request.url}})};
+        }
+        this.log({name: rule.name, ...request});
+        const result = rule.result ? rule.result(context) : {...(isObject(request.body) ? request.body : {}), ...(context.match[1] ? {id: id(context.match[1])} : {})};
+        return {data: {code: 200, result}};
+    }
+}
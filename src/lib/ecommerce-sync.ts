@@ -1,14 +1,15 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { Status } from "../types/product";
-import type { OptionalSyncVariant} from '../types/variant';
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
+import type { Status, SyncProductInfo, SyncProductResponse } from "../types/product";
+import type { OptionalSyncVariant, SyncVariantInfo } from "../types/variant";
+import type { CallOptions } from "../types/client";
 
 //------------------------------------------------------------------------------------------------------//
 // VIII. ECOMMERCE PLATFORM SYNC API
 //------------------------------------------------------------------------------------------------------//
 export default class EcommerceSyncAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns list of Sync Product objects from your store.
@@ -18,68 +19,66 @@ export default class EcommerceSyncAPI extends GenericAPI{
      * @param {int} limit - Number of items per page (max 100)
      * @param {string} status - Filter by item status (synced/unsynced/all). If only some of the variants are synced,the product is returned by both unsynced and synced filters
      * @param {string} search - Product search needle
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllEcommProducts(offset?: number, limit?: number, status?: Status, search?: string){
+    async getAllEcommProducts(offset?: number, limit?: number, status?: Status, search?: string, options?: CallOptions){
         const params = new URLSearchParams({});
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit));
         status && params.append("status", status);
         search && params.append("search", search);
-        const url = this.origin + "/sync/products?" + params.toString();
-        const response = await fetch(url, {headers:this.headers});
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<Array<SyncProductResponse>>("/sync/products", {params, ...options}, {offset, limit});
+    }
+
+    /**
+     * Iterates over every Sync Product from your store, fetching pages of up to 100 products as needed
+     * 
+     * @param {string} status - Filter by item status (synced/unsynced/all)
+     * @param {string} search - Product search needle
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of products
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllEcommProducts(status?: Status, search?: string, options?: PaginateOptions){
+        return this.paginate("/sync/products", (offset, limit) => this.getAllEcommProducts(offset, limit, status, search, options), options);
     }
 
     /**
      * Get information about a single Sync Product and its Sync Variants
      * 
      * @param {int|string} id - Sync Product ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getEcommProduct(id: number | string){
-        const url = this.origin+"/sync/products/"+id;
-        const response = await fetch(url, {headers:this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getEcommProduct(id: number | string, options?: CallOptions){
+        return this.request<SyncProductInfo>("/sync/products/"+id, options);
     }
 
     /**
      * Deletes a Sync Product with all of its Sync Variants
      * 
      * @param id - Sync Product ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async deleteEcommProduct(id: number | string){
-        const url = this.origin+"/sync/products/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers:this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async deleteEcommProduct(id: number | string, options?: CallOptions){
+        return this.request<SyncProductInfo>("/sync/products/"+id, {method: "DELETE", ...options});
     }
 
     /**
      * Get information about a single Sync Variant
      * 
      * @param {int|string} id - Sync Variant ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getEcommVariant(id: number | string){
-        const url = this.origin+"/sync/variant/"+id;
-        const response = await fetch(url, {headers: this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getEcommVariant(id: number | string, options?: CallOptions){
+        return this.request<SyncVariantInfo>("/sync/variant/"+id, options);
     }
 
     /**
@@ -89,36 +88,23 @@ export default class EcommerceSyncAPI extends GenericAPI{
      * 
      * @param {int|string} id - Sync Variant ID (integer) or External ID (if prefixed with `@`)
      * @param {OptionalSyncVariant} sync_variant_info - Information about the Sync Variant
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
     */
-    async modifyEcommVariant(id: number | string, sync_variant_info: OptionalSyncVariant){
-        const url = this.origin+"/sync/variant/"+id;
-        const response = await fetch(url, {
-            method: "PUT",
-            body: JSON.stringify(sync_variant_info),
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async modifyEcommVariant(id: number | string, sync_variant_info: OptionalSyncVariant, options?: CallOptions){
+        return this.request<SyncVariantInfo>("/sync/variant/"+id, {method: "PUT", body: sync_variant_info, ...options});
     }
 
     /**
      * Deletes configuraton information (variant_id, print files and options) and disables automatic order importing for this Sync Variant.
      * 
      * @param {int|string} id - Sync Variant ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      *
      * @returns {promise} {result, code, error}
      */
-    async deleteEcommVariant(id: number | string){
-        const url = this.origin+"/sync/variant/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async deleteEcommVariant(id: number | string, options?: CallOptions){
+        return this.request<object>("/sync/variant/"+id, {method: "DELETE", ...options});
     }
 }
\ No newline at end of file
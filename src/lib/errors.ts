@@ -0,0 +1,171 @@
+import type { HttpMethod } from "../types/client";
+import type { SchemaIssue } from "../types/validation";
+import type { OrderAction, OrderIssue, OrderStatus } from "../types/order";
+
+export type PrintfulErrorRequest = {
+    method: HttpMethod,
+    url: string
+}
+
+export type PrintfulErrorDetails = {
+    status: number,                         // HTTP status, 0 when no response was received
+    reason: string,                         // Printful error reason, e.g. 'BadRequest'
+    request?: PrintfulErrorRequest,         // Missing for errors raised before a request is sent
+    result?: unknown,                       // `result` field of the response body, usually a message
+    cause?: unknown                         // Underlying error, e.g. the one thrown by fetch
+}
+
+//------------------------------------------------------------------------------------------------------//
+// ERRORS
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Base class of every error thrown by the SDK
+ */
+export class PrintfulError extends Error{
+    public status: number
+    public reason: string
+    public request?: PrintfulErrorRequest
+    public result?: unknown
+    public cause?: unknown
+
+    constructor(message: string, {status, reason, request, result, cause}: PrintfulErrorDetails){
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.status = status;
+        this.reason = reason;
+        this.request = request;
+        this.result = result;
+        this.cause = cause;
+    }
+}
+
+/** The request was rejected as invalid (400) */
+export class PrintfulValidationError extends PrintfulError{}
+
+/** An order assembled with OrderBuilder breaks the rules of the API, raised before it is sent */
+export class OrderValidationError extends PrintfulValidationError{
+    public issues: Array<OrderIssue>        // Every rule broken
+
+    constructor(issues: Array<OrderIssue>){
+        super("Invalid order: " + issues.map((issue) => issue.path + " " + issue.message).join(", "), {status: 400, reason: "InvalidOrder"});
+        this.issues = issues;
+    }
+}
+
+/** The order is in a status that doesn't allow the action, raised before the request is sent */
+export class OrderStateError extends PrintfulValidationError{
+    public action: OrderAction              // Action refused, e.g. 'confirm'
+    public order: number | string           // Order ID, or External ID prefixed with `@`
+    public orderStatus: OrderStatus         // Current status of the order
+    public allowed: Array<OrderStatus>      // Statuses that allow the action
+
+    constructor(action: OrderAction, order: number | string, orderStatus: OrderStatus, allowed: Array<OrderStatus>){
+        super("Order " + order + " can't be " + ({cancel: "canceled", update: "updated", confirm: "confirmed"})[action] + " in status '" + orderStatus + "', only in " + allowed.slice(0, -1).join(", ") + (allowed.length > 1 ? " or " : "") + allowed[allowed.length - 1], {status: 400, reason: "InvalidOrderState"});
+        this.action = action;
+        this.order = order;
+        this.orderStatus = orderStatus;
+        this.allowed = allowed;
+    }
+}
+
+/** The token is missing, invalid or lacks the scope for the endpoint (401, 403) */
+export class PrintfulAuthError extends PrintfulError{}
+
+/** The token lacks the scope required by an SDK method, raised before the request is sent */
+export class MissingScopeError extends PrintfulAuthError{
+    public method: string                   // SDK method, e.g. 'orders.createOrder'
+    public scope: string                    // Required scope, e.g. 'orders'
+    public granted: Array<string>           // Scopes of the token
+
+    constructor(method: string, scope: string, granted: Array<string>){
+        super("Calling " + method + " requires the '" + scope + "' scope, the token has: " + (granted.join(", ") || "none"), {status: 403, reason: "MissingScope"});
+        this.method = method;
+        this.scope = scope;
+        this.granted = granted;
+    }
+}
+
+/** Confirming an order would exceed a limit of the spending guard, raised before the order is confirmed */
+export class SpendingLimitError extends PrintfulError{
+    public limit: "order" | "daily" | "currency"    // Limit that was hit
+    public amount: number                   // Estimated total of the order
+    public currency: string
+
+    constructor(message: string, limit: "order" | "daily" | "currency", amount: number, currency: string){
+        super(message, {status: 400, reason: "SpendingLimit"});
+        this.limit = limit;
+        this.amount = amount;
+        this.currency = currency;
+    }
+}
+
+/** The requested resource does not exist (404) */
+export class PrintfulNotFoundError extends PrintfulError{}
+
+/** Too many requests were sent (429) */
+export class PrintfulRateLimitError extends PrintfulError{
+    public retryAfter?: number              // Seconds to wait before retrying, when the API reports it
+
+    constructor(message: string, details: PrintfulErrorDetails, retryAfter?: number){
+        super(message, details);
+        this.retryAfter = retryAfter;
+    }
+}
+
+/** Printful failed to process the request (5xx) */
+export class PrintfulServerError extends PrintfulError{}
+
+/** No response was received */
+export class PrintfulNetworkError extends PrintfulError{}
+
+/** The call was aborted through its AbortSignal */
+export class PrintfulAbortError extends PrintfulError{}
+
+/** No response was received within the timeout */
+export class PrintfulTimeoutError extends PrintfulError{
+    public timeout: number                  // Timeout in ms
+
+    constructor(message: string, details: PrintfulErrorDetails, timeout: number){
+        super(message, details);
+        this.timeout = timeout;
+    }
+}
+
+/** The response body is not valid JSON */
+export class PrintfulParseError extends PrintfulError{}
+
+/** The response does not match the schema of the endpoint, raised when response validation is set to 'throw' */
+export class PrintfulSchemaError extends PrintfulError{
+    public issues: Array<SchemaIssue>       // Every mismatch found in the result
+
+    constructor(message: string, details: PrintfulErrorDetails, issues: Array<SchemaIssue>){
+        super(message, details);
+        this.issues = issues;
+    }
+}
+
+/** No recorded interaction of the cassette matches the request, or the cassette file is missing */
+export class PrintfulCassetteError extends PrintfulError{}
+
+/**
+ * Creates the error matching the status of a failed API response
+ * 
+ * @param {PrintfulErrorDetails} details - status, reason and request of the failed response
+ * @param {string} message - Printful error message
+ * @param {number} retryAfter - Seconds to wait before retrying, for rate limited responses
+ * 
+ * @returns {PrintfulError} error
+ */
+export function createPrintfulError(details: PrintfulErrorDetails, message: string, retryAfter?: number){
+    const {status, reason} = details;
+    if (status === 0 && reason === "Aborted") return new PrintfulAbortError(message, details);
+    if (status === 0 && reason === "Timeout") return new PrintfulTimeoutError(message, details, 0);
+    if (status === 0) return new PrintfulNetworkError(message, details);
+    if (status === 429) return new PrintfulRateLimitError(message, details, retryAfter);
+    if (status === 401 || status === 403) return new PrintfulAuthError(message, details);
+    if (status === 404) return new PrintfulNotFoundError(message, details);
+    if (status >= 500) return new PrintfulServerError(message, details);
+    if (status >= 400) return new PrintfulValidationError(message, details);
+    return new PrintfulError(message, details);
+}
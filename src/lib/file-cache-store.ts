@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+import * as path from "path";
+import type { CacheEntry, CacheStore } from "../types/cache";
+
+//------------------------------------------------------------------------------------------------------//
+// FILE CACHE STORE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Keeps entries as JSON files in a directory, so they survive restarts and can be shared between processes
+ */
+export default class FileCacheStore implements CacheStore{
+    protected directory: string
+
+    constructor(directory: string){
+        this.directory = directory;
+    }
+
+    async get(key: string){
+        try{
+            const {entry} = JSON.parse(await fs.readFile(this.file(key), "utf8"));
+            return entry as CacheEntry;
+        }
+        catch (error){
+            return undefined;
+        }
+    }
+
+    async set(key: string, entry: CacheEntry){
+        await fs.mkdir(this.directory, {recursive: true});
+        await fs.writeFile(this.file(key), JSON.stringify({key, entry}));
+    }
+
+    async delete(key: string){
+        await fs.rm(this.file(key), {force: true});
+    }
+
+    async keys(){
+        let files: Array<string>;
+        try{
+            files = await fs.readdir(this.directory);
+        }
+        catch (error){
+            return [];
+        }
+        const keys: Array<string> = [];
+        for (const file of files.filter((file) => file.endsWith(".json"))){
+            try{
+                keys.push(JSON.parse(await fs.readFile(path.join(this.directory, file), "utf8")).key);
+            }
+            catch (error){
+                // skip files removed or written concurrently
+            }
+        }
+        return keys;
+    }
+
+    protected file(key: string){
+        return path.join(this.directory, createHash("sha1").update(key).digest("hex") + ".json");
+    }
+}
@@ -1,13 +1,13 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { File } from "../types/file";
+import type Transport from "./transport";
+import type { File, FileInfo, ThreadColors } from "../types/file";
+import type { CallOptions } from "../types/client";
 
 //------------------------------------------------------------------------------------------------------//
 // VI. FILE LIBRARY API
 //------------------------------------------------------------------------------------------------------//
 export default class FileLibraryAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Adds a new File to the library by providing URL of the file.
@@ -15,36 +15,24 @@ export default class FileLibraryAPI extends GenericAPI{
         If a file with identical URL already exists, then the original file is returned. If a file does not exist, a new file is created.
      * 
      * @param {File} fileData - Information about file being added
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async addFile(fileData: File){
-        const url = this.origin+"/files";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(fileData)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async addFile(fileData: File, options?: CallOptions){
+        return this.request<FileInfo>("/files", {method: "POST", body: fileData, ...options});
     }
 
     /**
      * Returns information about the given file.
      * 
      * @param {int|string} id - File ID.
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getFile(id: number | string){
-        const url = this.origin+"/files/"+id;
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getFile(id: number | string, options?: CallOptions){
+        return this.request<FileInfo>("/files/"+id, options);
     }
 
     /**
@@ -53,19 +41,12 @@ export default class FileLibraryAPI extends GenericAPI{
      *  Returned thread colors are matched as closely as possible to provided image colors.
      * 
      * @param {string} file_url - URL to file
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getThreadColors(file_url: string){
-        const url = this.origin+"/files/thread-colors";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify({file_url})
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getThreadColors(file_url: string, options?: CallOptions){
+        return this.request<ThreadColors>("/files/thread-colors", {method: "POST", body: {file_url}, ...options});
     }
 }
 
@@ -1,14 +1,65 @@
-import type { Headers } from "../types/headers";
+import type Transport from "./transport";
+import Paginator from "./paginator";
+import type { PrintfulError } from "./errors";
+import type { PageResult, PaginateOptions } from "./paginator";
+import type { Paging, RequestOptions } from "../types/client";
+import type { APIFailure, APIResult } from "../types/response";
+
+// Code 0 is returned when no response was received or it could not be read
+export const failed = (code: number) => code >= 400 || code === 0;
 
 //------------------------------------------------------------------------------------------------------//
 // 0. GENERIC API SUPERCLASS
 //------------------------------------------------------------------------------------------------------//
 export default class GenericAPI{
-    protected origin: string
-    protected headers: Headers
+    protected transport: Transport
     
-    constructor(headers: Headers, origin: string) {
-        this.headers = headers;
-        this.origin = origin;
+    constructor(transport: Transport) {
+        this.transport = transport;
+    }
+
+    /**
+     * Sends a request through the shared transport
+     * 
+     * @returns {promise} {result, code, error} where result is typed as `T`
+     */
+    protected async request<T = unknown>(path: string, options?: RequestOptions): Promise<APIResult<T>>{
+        const {result, code, error} = await this.transport.request(path, options);
+        return failed(code) ? {result: null, code, error} : {result, code, error: null};
+    }
+
+    /**
+     * Sends a request to a list endpoint through the shared transport
+     * 
+     * @param {Paging} paging - offset and limit of the request, returned as `paging` when the request fails
+     * 
+     * @returns {promise} {result, paging, code, error} where result is typed as `T`
+     */
+    protected async requestPaged<T = unknown>(path: string, options: RequestOptions, paging: Paging): Promise<APIResult<T> & {paging: Paging}>{
+        const {result, paging: resultPaging, code, error} = await this.transport.request(path, options);
+        return failed(code) ? {result: null, paging, code, error} : {result, paging: resultPaging, code, error: null};
+    }
+
+    /**
+     * Fails a call without sending a request: throws the error when `throwOnError` is set, otherwise returns it as the result
+     * 
+     * @returns {object} {result: null, code, error}
+     */
+    protected fail(error: PrintfulError): APIFailure{
+        if (this.transport.throwOnError) throw error;
+        return {result: null, code: error.status, error: {reason: error.reason, message: error.message}};
+    }
+
+    /**
+     * Creates a paginator over a list endpoint
+     * 
+     * @param {string} path - Endpoint path, used in errors of failed pages
+     * @param {function} fetchPage - Fetches the page at the given offset and limit
+     * @param {PaginateOptions} options - Start offset, page size and max items
+     * 
+     * @returns {Paginator} paginator
+     */
+    protected paginate<T = any>(path: string, fetchPage: (offset: number, limit: number) => Promise<PageResult<T>>, options?: PaginateOptions){
+        return new Paginator<T>(fetchPage, {method: "GET", url: this.transport.url(path)}, options);
     }
 }
\ No newline at end of file
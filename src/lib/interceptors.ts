@@ -0,0 +1,119 @@
+import type { PrintfulError } from "./errors";
+import type { HttpMethod } from "../types/client";
+
+export const REDACTED = "[REDACTED]";
+
+// Credentials of the OAuth token exchange, in request and response bodies
+export const SECRET_FIELDS = ["access_token", "refresh_token", "client_secret"];
+export const SECRET_FORM_FIELDS = [...SECRET_FIELDS, "code"];
+
+/**
+ * Replaces the values of {@link SECRET_FIELDS} with `[REDACTED]`, in a copy of the value. Values without secrets are returned as is.
+ */
+export function redactSecrets(value: unknown): unknown{
+    if (Array.isArray(value)){
+        const items = value.map(redactSecrets);
+        return items.some((item, index) => item !== value[index]) ? items : value;
+    }
+    if (!value || typeof value !== "object") return value;
+    let copy: Record<string, unknown> | undefined;
+    for (const [key, item] of Object.entries(value)){
+        const redacted = SECRET_FIELDS.includes(key) && typeof item === "string" ? REDACTED : redactSecrets(item);
+        redacted !== item && ((copy = copy || {...value})[key] = redacted);
+    }
+    return copy || value;
+}
+
+export type InterceptorRequest = {
+    method: HttpMethod,
+    url: string,                            // May be changed by beforeRequest hooks
+    headers: Record<string, string>,        // May be changed by beforeRequest hooks, Authorization is always redacted
+    body?: unknown,                         // Unserialized payload, may be replaced by beforeRequest hooks. OAuth form secrets are redacted
+    attempt: number,                        // Starts at 1, increases when a rate limited request is retried
+    meta: Record<string, unknown>           // Free storage shared by the hooks of one attempt, e.g. a correlation ID or start time
+}
+
+export type InterceptorResponse = {
+    status: number,
+    headers?: Headers,
+    data: unknown,                          // Parsed response body, OAuth tokens are redacted
+    duration: number                        // Time in ms from sending the request to reading the body
+}
+
+export type Interceptor = {
+    beforeRequest?(request: InterceptorRequest): void | Promise<void>,
+    afterResponse?(request: InterceptorRequest, response: InterceptorResponse): void | Promise<void>,
+    onError?(request: InterceptorRequest, error: PrintfulError): void | Promise<void>
+}
+
+//------------------------------------------------------------------------------------------------------//
+// INTERCEPTOR PIPELINE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Runs the hooks of every interceptor, in the order they were added, around each request attempt.
+ * 
+ * Hooks never see the Authorization header or the secrets of OAuth token requests (`client_secret`, `code`,
+ * `refresh_token`): they are replaced with `[REDACTED]`, and restored when the request is sent unless a
+ * beforeRequest hook set a new value. The tokens in response bodies and error results are redacted the same way,
+ * in copies passed to the hooks.
+ */
+export default class InterceptorPipeline{
+    protected interceptors: Array<Interceptor>
+
+    constructor(interceptors: Array<Interceptor> = []){
+        this.interceptors = [...interceptors];
+    }
+
+    /**
+     * Adds an interceptor at the end of the pipeline
+     */
+    use(interceptor: Interceptor){
+        this.interceptors.push(interceptor);
+    }
+
+    /**
+     * Removes an interceptor from the pipeline
+     */
+    eject(interceptor: Interceptor){
+        this.interceptors = this.interceptors.filter((other) => other !== interceptor);
+    }
+
+    /**
+     * Runs the beforeRequest hooks and returns the headers and body to send
+     * 
+     * @param {InterceptorRequest} request - Request with the real headers and body, which are redacted in place
+     * 
+     * @returns {promise} {headers, body} to send
+     */
+    async beforeRequest(request: InterceptorRequest){
+        const authorization = request.headers.Authorization;
+        authorization !== undefined && (request.headers.Authorization = REDACTED);
+        const form = request.body instanceof URLSearchParams ? request.body : undefined;
+        form && (request.body = new URLSearchParams([...form].map(([key, value]) => [key, SECRET_FORM_FIELDS.includes(key) ? REDACTED : value])));
+        for (const interceptor of this.interceptors){
+            interceptor.beforeRequest && await interceptor.beforeRequest(request);
+        }
+        const headers = {...request.headers};
+        headers.Authorization === REDACTED && (headers.Authorization = authorization);
+        const body = form && request.body instanceof URLSearchParams
+            ? new URLSearchParams([...request.body].map(([key, value]) => [key, value === REDACTED && SECRET_FORM_FIELDS.includes(key) ? form.get(key) || value : value]))
+            : request.body;
+        return {headers, body};
+    }
+
+    async afterResponse(request: InterceptorRequest, response: InterceptorResponse){
+        const redacted = {...response, data: redactSecrets(response.data)};
+        for (const interceptor of this.interceptors){
+            interceptor.afterResponse && await interceptor.afterResponse(request, redacted);
+        }
+    }
+
+    async onError(request: InterceptorRequest, error: PrintfulError){
+        const result = redactSecrets(error.result);
+        // the error keeps its class and fields, only the result is shadowed
+        const redacted: PrintfulError = result === error.result ? error : Object.create(error, {result: {value: result, enumerable: true}});
+        for (const interceptor of this.interceptors){
+            interceptor.onError && await interceptor.onError(request, redacted);
+        }
+    }
+}
@@ -0,0 +1,184 @@
+import type { Category, CatalogProduct, CatalogVariant, ProductSizeGuide } from "../types/catalog";
+import type { Country, TaxCountry } from "../types/country";
+import type { LayoutTemplates, ProductPrintfiles } from "../types/mockup";
+
+/**
+ * Catalog and reference data served by {@link MockPrintfulServer}: the Bella + Canvas 3001 t-shirt (product 71)
+ * and an 11oz mug (product 19), with the countries and states used in examples.
+ */
+
+export const MOCK_CATEGORIES: Array<Category> = [
+    {id: 1, parent_id: 0, image_url: "https://files.cdn.printful.com/o/upload/catalog_category/mens.jpg", size: "large", title: "Men's clothing"},
+    {id: 24, parent_id: 1, image_url: "https://files.cdn.printful.com/o/upload/catalog_category/t-shirts.jpg", size: "small", title: "T-Shirts"},
+    {id: 112, parent_id: 0, image_url: "https://files.cdn.printful.com/o/upload/catalog_category/mugs.jpg", size: "small", title: "Mugs"},
+];
+
+const SHIRT: CatalogProduct = {
+    id: 71,
+    main_category_id: 24,
+    type: "T-SHIRT",
+    type_name: "T-Shirt",
+    title: "Unisex Staple T-Shirt | Bella + Canvas 3001",
+    brand: "Bella + Canvas",
+    model: "3001",
+    image: "https://files.cdn.printful.com/products/71/product_1613463122.jpg",
+    variant_count: 9,
+    currency: "USD",
+    files: [
+        {id: "default", type: "default", title: "Front print", additional_price: null},
+        {id: "back", type: "back", title: "Back print", additional_price: "5.95"},
+        {id: "preview", type: "mockup", title: "Mockup", additional_price: null},
+    ],
+    options: [],
+    is_discontinued: false,
+    avg_fulfillment_time: 2.8,
+    description: "This t-shirt is everything you've dreamed of and more. It feels soft and lightweight, with the right amount of stretch.",
+    techniques: [{key: "DTG", display_name: "DTG printing", is_default: true}],
+    origin_country: null
+};
+
+const MUG: CatalogProduct = {
+    ...SHIRT,
+    id: 19,
+    main_category_id: 112,
+    type: "MUG",
+    type_name: "Mug",
+    title: "White Glossy Mug",
+    brand: null,
+    model: "White Glossy Mug",
+    image: "https://files.cdn.printful.com/products/19/product_1550594502.jpg",
+    variant_count: 1,
+    files: [{id: "default", type: "default", title: "Print file", additional_price: null}],
+    avg_fulfillment_time: 3.1,
+    description: "Whether you're drinking your morning coffee or your evening tea, this mug is for you.",
+    techniques: [{key: "SUBLIMATION", display_name: "Sublimation", is_default: true}]
+};
+
+export const MOCK_PRODUCTS: Array<CatalogProduct> = [SHIRT, MUG];
+
+function shirtVariant(id: number, color: string, color_code: string, size: string, price: string): CatalogVariant{
+    return {
+        id,
+        product_id: 71,
+        name: "Unisex Staple T-Shirt | Bella + Canvas 3001 (" + color + " / " + size + ")",
+        size,
+        color,
+        color_code,
+        color_code2: null,
+        image: "https://files.cdn.printful.com/products/71/" + id + "_1581412541.jpg",
+        price,
+        in_stock: true,
+        availability_regions: {US: "USA", EU: "Europe"},
+        availability_status: [{region: "US", status: "in_stock"}, {region: "EU", status: "in_stock"}]
+    };
+}
+
+export const MOCK_VARIANTS: Array<CatalogVariant> = [
+    shirtVariant(4011, "White", "#ffffff", "S", "9.25"),
+    shirtVariant(4012, "White", "#ffffff", "M", "9.25"),
+    shirtVariant(4013, "White", "#ffffff", "L", "9.25"),
+    shirtVariant(4014, "White", "#ffffff", "XL", "9.25"),
+    shirtVariant(4015, "White", "#ffffff", "2XL", "11.25"),
+    shirtVariant(4016, "Black", "#0c080b", "S", "9.95"),
+    shirtVariant(4017, "Black", "#0c080b", "M", "9.95"),
+    shirtVariant(4018, "Black", "#0c080b", "L", "9.95"),
+    shirtVariant(4019, "Black", "#0c080b", "XL", "9.95"),
+    {
+        id: 1320,
+        product_id: 19,
+        name: "White Glossy Mug (11oz)",
+        size: "11oz",
+        color: "White",
+        color_code: "#ffffff",
+        color_code2: null,
+        image: "https://files.cdn.printful.com/products/19/1320_1550594502.jpg",
+        price: "5.95",
+        in_stock: true,
+        availability_regions: {US: "USA", EU: "Europe"},
+        availability_status: [{region: "US", status: "in_stock"}, {region: "EU", status: "in_stock"}]
+    },
+];
+
+export function mockSizeGuide(product_id: number): ProductSizeGuide{
+    const sizes = MOCK_VARIANTS.filter((variant) => variant.product_id === product_id).map((variant) => variant.size);
+    return {
+        product_id,
+        available_sizes: [...new Set(sizes)],
+        size_tables: [{
+            type: "product_measure",
+            unit: "inches",
+            description: "Measurements are provided by suppliers.",
+            measurements: [{type_label: "Length", values: [...new Set(sizes)].map((size, index) => ({size, value: String(28 + index)}))}]
+        }]
+    };
+}
+
+export function mockPrintfiles(product_id: number): ProductPrintfiles{
+    const variants = MOCK_VARIANTS.filter((variant) => variant.product_id === product_id);
+    const placements: Record<string, number> = product_id === 71 ? {front: 1, back: 1} : {default: 1};
+    return {
+        product_id,
+        available_placements: product_id === 71 ? {front: "Front print", back: "Back print"} : {default: "Print file"},
+        printfiles: [{printfile_id: 1, width: 1800, height: 2400, dpi: 150, fill_mode: "fit", can_rotate: false}],
+        variant_printfiles: variants.map((variant) => ({variant_id: variant.id, placements})),
+        option_groups: ["Flat", "Men's"],
+        options: ["Front", "Back"]
+    };
+}
+
+export function mockLayoutTemplates(product_id: number): LayoutTemplates{
+    const variants = MOCK_VARIANTS.filter((variant) => variant.product_id === product_id);
+    return {
+        version: 1,
+        min_dpi: 150,
+        variant_mapping: variants.map((variant) => ({variant_id: variant.id, templates: [{placement: "front", template_id: 1}]})),
+        templates: [{
+            template_id: 1,
+            image_url: "https://printful-upload.s3-accelerate.amazonaws.com/tmp/template-" + product_id + ".png",
+            background_url: null,
+            background_color: "#ffffff",
+            printfile_id: 1,
+            template_width: 1000,
+            template_height: 1000,
+            print_area_width: 450,
+            print_area_height: 600,
+            print_area_top: 200,
+            print_area_left: 275,
+            is_template_on_front: true,
+            orientation: "vertical"
+        }]
+    };
+}
+
+export const MOCK_COUNTRIES: Array<Country> = [
+    {code: "US", name: "United States", states: [
+        {code: "CA", name: "California"},
+        {code: "NY", name: "New York"},
+        {code: "TX", name: "Texas"},
+        {code: "WA", name: "Washington"},
+    ]},
+    {code: "CA", name: "Canada", states: [
+        {code: "BC", name: "British Columbia"},
+        {code: "ON", name: "Ontario"},
+        {code: "QC", name: "Quebec"},
+    ]},
+    {code: "AU", name: "Australia", states: [
+        {code: "NSW", name: "New South Wales"},
+        {code: "VIC", name: "Victoria"},
+    ]},
+    {code: "BR", name: "Brazil", states: null},
+    {code: "DE", name: "Germany", states: null},
+    {code: "GB", name: "United Kingdom", states: null},
+];
+
+export const MOCK_TAX_COUNTRIES: Array<TaxCountry> = [
+    {code: "US", name: "United States", states: [
+        {code: "CA", name: "California", shipping_taxed: false},
+        {code: "NY", name: "New York", shipping_taxed: true},
+        {code: "TX", name: "Texas", shipping_taxed: true},
+        {code: "WA", name: "Washington", shipping_taxed: true},
+    ]},
+];
+
+// Sales tax rates of the states above
+export const MOCK_TAX_RATES: Record<string, number> = {"US-CA": 0.0725, "US-NY": 0.04, "US-TX": 0.0625, "US-WA": 0.065};
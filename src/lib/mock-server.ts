@@ -0,0 +1,852 @@
+import { MOCK_CATEGORIES, MOCK_COUNTRIES, MOCK_PRODUCTS, MOCK_TAX_COUNTRIES, MOCK_TAX_RATES, MOCK_VARIANTS, mockLayoutTemplates, mockPrintfiles, mockSizeGuide } from "./mock-data";
+import { Response } from "cross-fetch";
+import type { HttpMethod, Paging } from "../types/client";
+import type { File, FileInfo } from "../types/file";
+import type { MockupTask, MockupTaskResult } from "../types/mockup";
+import type { OAuthTokens } from "../types/oauth";
+import type { Order, OrderCosts, OrderItem, OrderItemResponse, OrderPackingSlip, OrderRecipient, OrderResponse, OrderRetailCosts, OrderStatus, Shipment } from "../types/order";
+import type { OptionalSyncProduct, SyncProduct, SyncProductResponse } from "../types/product";
+import type { APIError } from "../types/response";
+import type { ShippingInfo } from "../types/shipping";
+import type { StoreInfo } from "../types/store";
+import type { ProductTemplate } from "../types/template";
+import type { OptionalSyncVariant, SyncVariant, SyncVariantResponse } from "../types/variant";
+import type { WarehouseProduct } from "../types/warehouse";
+import type { WebhookConfig, WebhookInfo } from "../types/webhook";
+
+export type MockServerOptions = {
+    token?: string,                         // Accepted access token. Defaults to accepting any bearer token
+    store?: StoreInfo,                      // Store the token belongs to
+    mockupPolls?: number                    // Polls of a mockup task before it completes. Defaults to 1
+}
+
+export type MockRequest = {
+    method: HttpMethod,
+    path: string,
+    params: URLSearchParams,
+    body: unknown,                          // Parsed JSON or form body, not validated
+    headers: Record<string, string>
+}
+
+type MockBody = {code: number, result: unknown, error?: APIError, extra?: Array<unknown>, paging?: Paging}
+
+export type MockReply = {
+    status: number,
+    body: MockBody | OAuthTokens            // OAuth tokens are not wrapped in a result
+}
+
+type Route = [HttpMethod, RegExp, (match: RegExpMatchArray, request: MockRequest) => MockReply]
+
+type MockSyncProduct = {
+    product: SyncProductResponse,
+    variants: Array<SyncVariantResponse>
+}
+
+type MockupTaskState = {
+    task: MockupTaskResult,
+    polls: number
+}
+
+// Request bodies come from the client as is, so every field may be missing
+type SyncProductBody = {sync_product?: OptionalSyncProduct, sync_variants?: Array<OptionalSyncVariant & {id?: number}>}
+// line item of a request or, when an order is updated, of the order itself
+type MockOrderItem = Omit<OrderItem, "files"> & {files?: Array<File | FileInfo>}
+
+const DEFAULT_STORE: StoreInfo = {id: 10, type: "native", name: "Mock Store", website: null, currency: "USD", created: 1577836800, packing_slip: null};
+
+const SHIPPING_METHODS = [
+    {id: "STANDARD", name: "Flat Rate (Estimated delivery: 4-8 business days)", first: 4.75, additional: 2.20, minDeliveryDays: 4, maxDeliveryDays: 8},
+    {id: "EXPRESS", name: "Express (Estimated delivery: 2-3 business days)", first: 12.95, additional: 4.50, minDeliveryDays: 2, maxDeliveryDays: 3},
+];
+
+const REPORT_TYPES = ["sales_and_costs", "sales_and_costs_summary", "printful_costs", "profit", "total_paid_orders", "costs_by_amount", "costs_by_product", "costs_by_variant", "average_fulfillment_time"];
+
+const SCOPES = ["orders", "sync_products", "file_library", "webhooks", "stores_list", "product_templates"];
+
+// Statuses in which an order can still be changed or canceled
+const UNSUBMITTED: Array<OrderStatus> = ["draft", "failed"];
+const CANCELABLE: Array<OrderStatus> = ["draft", "pending", "failed", "onhold"];
+
+const money = (amount: number) => amount.toFixed(2);
+const now = () => Math.floor(Date.now() / 1000);
+
+function ok(result: unknown, extra: object = {}): {status: number, body: MockBody}{
+    return {status: 200, body: {code: 200, result, extra: [], ...extra}};
+}
+
+function fail(status: number, message: string): {status: number, body: MockBody}{
+    const reason = ({400: "BadRequest", 401: "Unauthorized", 404: "NotFound"} as Record<number, string>)[status] || "Error";
+    return {status, body: {code: status, result: message, error: {reason, message}}};
+}
+
+function bodyOf<T>(request: MockRequest){
+    return request.body as Partial<T> | undefined;
+}
+
+// an empty packing slip is ignored
+function packingSlip(slip?: OrderPackingSlip | object | null){
+    return slip && Object.keys(slip).length ? slip as OrderPackingSlip : null;
+}
+
+function isUrl(value: unknown){
+    return typeof value === "string" && /^https?:\/\/[^\s/]+\.[^\s]+$/.test(value);
+}
+
+//------------------------------------------------------------------------------------------------------//
+// MOCK PRINTFUL SERVER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * In-process stand-in for the Printful v1 API, pass its `fetch` to a client to run without network:
+ *
+ *     const server = new MockPrintfulServer();
+ *     const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+ *
+ * State is kept in memory: orders move through their statuses (draft, pending, inprocess, fulfilled...),
+ * sync products, files, the webhook config and mockup tasks behave like the live API, with its error replies.
+ * Nothing is charged or shipped; use {@link setOrderStatus} and {@link shipOrder} to play Printful's part.
+ */
+export default class MockPrintfulServer{
+    public orders!: Array<OrderResponse>
+    public syncProducts!: Array<MockSyncProduct>
+    public files!: Array<FileInfo>
+    public webhooks!: WebhookInfo
+    public mockupTasks!: Map<string, MockupTaskState>
+    public templates!: Array<ProductTemplate>
+    public warehouseProducts!: Array<WarehouseProduct>
+    public requests!: Array<MockRequest>     // Every request received, in order
+    protected options: MockServerOptions
+    protected store: StoreInfo
+    protected lastId!: number
+    protected routes: Array<Route>
+
+    constructor(options: MockServerOptions = {}){
+        this.options = options;
+        this.store = options.store || DEFAULT_STORE;
+        this.routes = this.createRoutes();
+        this.reset();
+    }
+
+    /**
+     * fetch compatible function answering from the mock state, pass it as the `fetch` client option
+     */
+    fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+        if (init.signal && init.signal.aborted){
+            throw Object.assign(new Error("The operation was aborted."), {name: "AbortError"});
+        }
+        const {pathname, searchParams} = new URL(url);
+        const body = typeof init.body === "string" && init.body ? JSON.parse(init.body)
+            : init.body instanceof URLSearchParams ? Object.fromEntries(init.body) : undefined;
+        const {status, body: reply} = this.handle({
+            method: (init.method || "GET").toUpperCase() as HttpMethod,
+            path: pathname,
+            params: searchParams,
+            body,
+            headers: {...(init.headers as Record<string, string>)}
+        });
+        return new Response(JSON.stringify(reply), {status, headers: {"Content-Type": "application/json"}});
+    }
+
+    /**
+     * Answers a request, without serialization
+     *
+     * @param {MockRequest} request - method, path, query params, parsed body and headers
+     *
+     * @returns {MockReply} {status, body}
+     */
+    handle(request: MockRequest): MockReply{
+        this.requests.push(request);
+        const path = request.path.replace(/\/+$/, "") || "/";
+        const publicPath = /^\/(products|categories|countries|tax|oauth\/token$)(\/|$)/.test(path);
+        if (!publicPath && !this.authorized(request.headers.Authorization)){
+            return fail(401, "Malformed or invalid access token");
+        }
+        let pathFound = false;
+        for (const [method, pattern, handler] of this.routes){
+            const match = path.match(pattern);
+            if (!match) continue;
+            pathFound = true;
+            if (method === request.method) return handler(match, request);
+        }
+        return pathFound ? {status: 405, body: {code: 405, result: "Method not allowed", error: {reason: "MethodNotAllowed", message: "Method not allowed"}}} : fail(404, "Not found");
+    }
+
+    /**
+     * Removes every order, sync product, file, mockup task and the webhook config
+     */
+    reset(){
+        this.orders = [];
+        this.syncProducts = [];
+        this.files = [];
+        this.webhooks = {url: null, types: [], params: []};
+        this.mockupTasks = new Map();
+        this.templates = [];
+        this.warehouseProducts = [];
+        this.requests = [];
+        this.lastId = 100000;
+    }
+
+    /**
+     * Moves an order to a status, like Printful does while fulfilling it
+     *
+     * @param {int|string} id - Order ID or External ID (prefixed with `@`)
+     * @param {OrderStatus} status - New status
+     *
+     * @returns {OrderResponse} the order
+     */
+    setOrderStatus(id: number | string, status: OrderStatus){
+        const order = this.findOrder(id);
+        if (!order) throw new Error("Order " + id + " does not exist");
+        order.status = status;
+        order.updated = now();
+        return order;
+    }
+
+    /**
+     * Ships items of an order, setting it to 'partial' or 'fulfilled'
+     *
+     * @param {int|string} id - Order ID or External ID (prefixed with `@`)
+     * @param {Array<int>} itemIds - Line item IDs to ship. Defaults to every item not shipped yet
+     *
+     * @returns {Shipment} the new shipment
+     */
+    shipOrder(id: number | string, itemIds?: Array<number>){
+        const order = this.findOrder(id);
+        if (!order) throw new Error("Order " + id + " does not exist");
+        const shipped = new Set(order.shipments.flatMap((shipment) => shipment.items.map((item) => item.item_id)));
+        const items = order.items.filter((item) => itemIds ? itemIds.includes(item.id) : !shipped.has(item.id));
+        const shipmentId = this.nextId();
+        const shipment: Shipment = {
+            id: shipmentId,
+            carrier: "USPS",
+            service: "USPS First Class Package",
+            tracking_number: "9400" + shipmentId,
+            tracking_url: "https://www.printful.com/track?id=" + shipmentId,
+            created: now(),
+            ship_date: new Date().toISOString().slice(0, 10),
+            shipped_at: now(),
+            reshipment: false,
+            items: items.map((item) => ({item_id: item.id, quantity: item.quantity || 1}))
+        };
+        order.shipments.push(shipment);
+        items.forEach((item) => shipped.add(item.id));
+        order.status = order.items.every((item) => shipped.has(item.id)) ? "fulfilled" : "partial";
+        order.updated = now();
+        return shipment;
+    }
+
+    /**
+     * Adds a sync product, e.g. to seed the store before a test
+     *
+     * @param {object} sync_product - name, thumbnail and optional external_id
+     * @param {Array<object>} sync_variants - variants with variant_id, retail_price and files
+     * @param {int} id - Sync Product ID. Defaults to the next free ID
+     *
+     * @returns {MockReply} the reply of the create endpoint
+     */
+    addSyncProduct(sync_product: SyncProduct, sync_variants: Array<SyncVariant>, id?: number){
+        return this.createSyncProduct({sync_product, sync_variants}, id);
+    }
+
+    protected authorized(authorization?: string){
+        const token = authorization && authorization.replace(/^Bearer\s+/, "");
+        if (!token || token === authorization || token === "undefined") return false;
+        return !this.options.token || token === this.options.token;
+    }
+
+    protected nextId(){
+        return ++this.lastId;
+    }
+
+    protected createRoutes(): Array<Route>{
+        const id = "([^/]+)";
+        return [
+            // Catalog
+            ["GET", /^\/products$/, (m, req) => this.getCatalogProducts(req.params)],
+            ["GET", new RegExp("^/products/variant/" + id + "$"), ([, variantId]) => this.getCatalogVariant(Number(variantId))],
+            ["GET", new RegExp("^/products/" + id + "/sizes$"), ([, productId]) => this.findProduct(Number(productId)) ? ok(mockSizeGuide(Number(productId))) : fail(404, "Product not found")],
+            ["GET", new RegExp("^/products/" + id + "$"), ([, productId]) => this.getCatalogProduct(Number(productId))],
+            ["GET", /^\/categories$/, () => ok({categories: MOCK_CATEGORIES})],
+            ["GET", new RegExp("^/categories/" + id + "$"), ([, categoryId]) => {
+                const category = MOCK_CATEGORIES.find((category) => category.id === Number(categoryId));
+                return category ? ok({category}) : fail(404, "Category not found");
+            }],
+
+            // Products
+            ["GET", /^\/store\/products$/, (m, req) => this.paged(this.syncProducts.map(({product}) => product), req.params)],
+            ["POST", /^\/store\/products$/, (m, req) => this.createSyncProduct(bodyOf<SyncProductBody>(req))],
+            ["GET", new RegExp("^/store/products/" + id + "$"), ([, productId]) => this.getSyncProduct(productId)],
+            ["DELETE", new RegExp("^/store/products/" + id + "$"), ([, productId]) => this.deleteSyncProduct(productId)],
+            ["PUT", new RegExp("^/store/products/" + id + "$"), ([, productId], req) => this.modifySyncProduct(productId, bodyOf<SyncProductBody>(req))],
+            ["POST", new RegExp("^/store/products/" + id + "/variants$"), ([, productId], req) => this.createSyncVariant(productId, bodyOf<OptionalSyncVariant>(req))],
+            ["GET", new RegExp("^/store/variants/" + id + "$"), ([, variantId]) => this.withSyncVariant(variantId, ({variant}) => ok(variant))],
+            ["PUT", new RegExp("^/store/variants/" + id + "$"), ([, variantId], req) => this.modifySyncVariant(variantId, bodyOf<OptionalSyncVariant>(req), false)],
+            ["DELETE", new RegExp("^/store/variants/" + id + "$"), ([, variantId]) => this.deleteSyncVariant(variantId)],
+
+            // Ecommerce Sync
+            ["GET", /^\/sync\/products$/, (m, req) => {
+                const status = req.params.get("status");
+                const search = (req.params.get("search") || "").toLowerCase();
+                const products = this.syncProducts.map(({product}) => product)
+                    .filter((product) => !status || status === "all" || (status === "synced") === (product.synced === product.variants))
+                    .filter((product) => product.name.toLowerCase().includes(search));
+                return this.paged(products, req.params);
+            }],
+            ["GET", new RegExp("^/sync/products/" + id + "$"), ([, productId]) => this.getSyncProduct(productId)],
+            ["DELETE", new RegExp("^/sync/products/" + id + "$"), ([, productId]) => this.deleteSyncProduct(productId)],
+            ["GET", new RegExp("^/sync/variant/" + id + "$"), ([, variantId]) => this.withSyncVariant(variantId, ({variant, entry}) => ok({sync_variant: variant, sync_product: entry.product}))],
+            ["PUT", new RegExp("^/sync/variant/" + id + "$"), ([, variantId], req) => this.modifySyncVariant(variantId, bodyOf<OptionalSyncVariant>(req), true)],
+            ["DELETE", new RegExp("^/sync/variant/" + id + "$"), ([, variantId]) => this.deleteSyncVariant(variantId)],
+
+            // Orders
+            ["GET", /^\/orders$/, (m, req) => {
+                const status = req.params.get("status");
+                return this.paged(this.orders.filter((order) => !status || order.status === status).slice().reverse(), req.params);
+            }],
+            ["POST", /^\/orders$/, (m, req) => this.createOrder(bodyOf<Order>(req), req.params.get("confirm") === "true", req.params.get("update_existing") === "true")],
+            ["POST", /^\/orders\/estimate-costs$/, (m, req) => {
+                const body = bodyOf<Order>(req) || {};
+                const built = this.buildItems(body);
+                if ("status" in built) return built;
+                return ok({costs: this.orderCosts(built.items, body.shipping, body.recipient), retail_costs: this.retailCosts(body.retail_costs)});
+            }],
+            ["GET", new RegExp("^/orders/" + id + "$"), ([, orderId]) => this.withOrder(orderId, (order) => ok(order))],
+            ["DELETE", new RegExp("^/orders/" + id + "$"), ([, orderId]) => this.withOrder(orderId, (order) => {
+                if (!CANCELABLE.includes(order.status)) return fail(400, "Order with status '" + order.status + "' cannot be canceled");
+                order.status = "canceled";
+                order.updated = now();
+                return ok(order);
+            })],
+            ["PUT", new RegExp("^/orders/" + id + "$"), ([, orderId], req) => this.withOrder(orderId, (order) => this.updateOrder(order, bodyOf<Order>(req), req.params.get("confirm") === "true"))],
+            ["POST", new RegExp("^/orders/" + id + "/confirm$"), ([, orderId]) => this.withOrder(orderId, (order) => {
+                if (order.status !== "draft") return fail(400, "Only draft orders can be confirmed, order status is '" + order.status + "'");
+                order.status = "pending";
+                order.updated = now();
+                return ok(order);
+            })],
+
+            // File Library
+            ["POST", /^\/files\/thread-colors$/, (m, req) => isUrl(bodyOf<{file_url: string}>(req)?.file_url) ? ok({thread_colors: ["#FFFFFF", "#000000", "#96A1A8"]}) : fail(400, "Invalid file URL")],
+            ["POST", /^\/files$/, (m, req) => this.addFile(bodyOf<File>(req))],
+            ["GET", new RegExp("^/files/" + id + "$"), ([, fileId]) => {
+                const file = this.files.find((file) => file.id === Number(fileId));
+                return file ? ok(file) : fail(404, "File not found");
+            }],
+
+            // Shipping Rate
+            ["POST", /^\/shipping\/rates$/, (m, req) => this.shippingRates(bodyOf<ShippingInfo>(req))],
+
+            // Country Codes, Tax Rate
+            ["GET", /^\/countries$/, () => ok(MOCK_COUNTRIES)],
+            ["GET", /^\/tax\/countries$/, () => ok(MOCK_TAX_COUNTRIES)],
+            ["POST", /^\/tax\/rates$/, (m, req) => {
+                const recipient = bodyOf<{recipient: OrderRecipient}>(req)?.recipient;
+                if (!recipient || !recipient.country_code || !recipient.city || !recipient.zip) return fail(400, "Recipient country_code, city and zip are required");
+                const rate = MOCK_TAX_RATES[recipient.country_code + "-" + recipient.state_code];
+                const state = MOCK_TAX_COUNTRIES.flatMap((country) => country.states.map((state) => ({...state, country: country.code})))
+                    .find((state) => state.country === recipient.country_code && state.code === recipient.state_code);
+                return ok({required: rate !== undefined, rate: rate || 0, shipping_taxable: !!(state && state.shipping_taxed)});
+            }],
+
+            // Webhooks
+            ["GET", /^\/webhooks$/, () => ok(this.webhooks)],
+            ["POST", /^\/webhooks$/, (m, req) => {
+                const body = bodyOf<WebhookConfig>(req);
+                if (!body || !isUrl(body.url)) return fail(400, "Invalid webhook URL");
+                if (!Array.isArray(body.types)) return fail(400, "Webhook types must be an array");
+                this.webhooks = {url: body.url || null, types: body.types, params: body.params || []};
+                return ok(this.webhooks);
+            }],
+            ["DELETE", /^\/webhooks$/, () => {
+                this.webhooks = {url: null, types: [], params: []};
+                return ok(this.webhooks);
+            }],
+
+            // Mockup Generator
+            ["POST", new RegExp("^/mockup-generator/create-task/" + id + "$"), ([, productId], req) => this.createMockupTask(Number(productId), bodyOf<MockupTask>(req))],
+            ["GET", /^\/mockup-generator\/task$/, (m, req) => this.getMockupTask(req.params.get("task_key") || "")],
+            ["GET", new RegExp("^/mockup-generator/printfiles/" + id + "$"), ([, productId]) => this.findProduct(Number(productId)) ? ok(mockPrintfiles(Number(productId))) : fail(404, "Product not found")],
+            ["GET", new RegExp("^/mockup-generator/templates/" + id + "$"), ([, productId]) => this.findProduct(Number(productId)) ? ok(mockLayoutTemplates(Number(productId))) : fail(404, "Product not found")],
+
+            // Store Information
+            ["GET", /^\/stores$/, (m, req) => this.paged([this.store], req.params)],
+            ["GET", new RegExp("^/stores/" + id + "$"), ([, storeId]) => Number(storeId) === this.store.id ? ok(this.store) : fail(404, "Store not found")],
+            ["POST", /^\/store\/packing-slip$/, (m, req) => {
+                const packing_slip = bodyOf<OrderPackingSlip>(req);
+                if (!packing_slip || !packing_slip.email) return fail(400, "Packing slip email is required");
+                this.store = {...this.store, packing_slip: {...packing_slip, email: packing_slip.email}};
+                return ok({packing_slip});
+            }],
+
+            // Product Templates, Warehouse Products
+            ["GET", /^\/product-templates$/, (m, req) => {
+                const page = this.paged(this.templates, req.params);
+                return ok({items: page.body.result}, {paging: page.body.paging});
+            }],
+            ["GET", new RegExp("^/product-templates/" + id + "$"), ([, templateId]) => {
+                const template = this.templates.find((template) => String(template.id) === templateId || "@" + template.external_product_id === templateId);
+                return template ? ok(template) : fail(404, "Template not found");
+            }],
+            ["DELETE", new RegExp("^/product-templates/" + id + "$"), ([, templateId]) => {
+                const template = this.templates.find((template) => String(template.id) === templateId || "@" + template.external_product_id === templateId);
+                if (!template) return fail(404, "Template not found");
+                this.templates = this.templates.filter((other) => other !== template);
+                return ok({});
+            }],
+            ["GET", /^\/warehouse\/products$/, (m, req) => {
+                const query = (req.params.get("query") || "").toLowerCase();
+                return this.paged(this.warehouseProducts.filter((product) => product.name.toLowerCase().includes(query)), req.params);
+            }],
+            ["GET", new RegExp("^/warehouse/products/" + id + "$"), ([, productId]) => {
+                const product = this.warehouseProducts.find((product) => product.id === Number(productId));
+                return product ? ok(product) : fail(404, "Warehouse product not found");
+            }],
+
+            // Reports, Approval Sheets, OAuth
+            ["GET", /^\/reports\/statistics$/, (m, req) => {
+                const types = (req.params.get("report_types") || "").split(",").filter(Boolean);
+                const unknown = types.filter((type) => !REPORT_TYPES.includes(type));
+                if (!types.length || unknown.length) return fail(400, "Invalid report types: " + (unknown.join(", ") || "none given"));
+                return ok(Object.assign({store_id: this.store.id, currency: req.params.get("currency") || "USD"}, ...types.map((type) => ({[type]: []}))));
+            }],
+            ["GET", /^\/approval-sheets$/, () => ok([])],
+            ["POST", /^\/approval-sheets$/, () => fail(404, "Approval sheet not found")],
+            ["POST", /^\/approval-sheets\/changes$/, () => fail(404, "Approval sheet not found")],
+            ["GET", /^\/oauth\/scopes$/, () => ok({scopes: SCOPES.map((value) => ({title: value.replace(/_/g, " "), value}))})],
+            ["POST", /^\/oauth\/token$/, (m, req) => {
+                const body = bodyOf<Record<string, string>>(req);
+                const grant = body && (body.grant_type === "authorization_code" ? body.code : body.grant_type === "refresh_token" ? body.refresh_token : undefined);
+                if (!body || !body.client_id || !body.client_secret || !grant) return fail(400, "Invalid grant, client credentials and a code or refresh token are required");
+                const id = this.nextId();
+                return {status: 200, body: {access_token: "mock-access-" + id, refresh_token: "mock-refresh-" + id, expires_at: now() + 3600, token_type: "bearer"}};
+            }],
+        ];
+    }
+
+    protected paged<T>(items: Array<T>, params: URLSearchParams){
+        const offset = Number(params.get("offset")) || 0;
+        const limit = Math.min(Number(params.get("limit")) || 20, 100);
+        return ok(items.slice(offset, offset + limit), {paging: {total: items.length, offset, limit}});
+    }
+
+    //--------------------------------------------------------------------------------------------------//
+    // CATALOG
+    //--------------------------------------------------------------------------------------------------//
+    protected findProduct(id: number){
+        return MOCK_PRODUCTS.find((product) => product.id === id);
+    }
+
+    protected getCatalogProducts(params: URLSearchParams){
+        const categories = (params.get("category_id") || "").split(",").filter(Boolean).map(Number);
+        return ok(MOCK_PRODUCTS.filter((product) => !categories.length || categories.includes(product.main_category_id)));
+    }
+
+    protected getCatalogProduct(id: number){
+        const product = this.findProduct(id);
+        if (!product) return fail(404, "Product not found");
+        return ok({product, variants: MOCK_VARIANTS.filter((variant) => variant.product_id === id)});
+    }
+
+    protected getCatalogVariant(id: number){
+        const variant = MOCK_VARIANTS.find((variant) => variant.id === id);
+        if (!variant) return fail(404, "Variant not found");
+        return ok({variant, product: this.findProduct(variant.product_id)});
+    }
+
+    //--------------------------------------------------------------------------------------------------//
+    // SYNC PRODUCTS
+    //--------------------------------------------------------------------------------------------------//
+    protected findSyncProduct(id: string){
+        return this.syncProducts.find(({product}) => String(product.id) === id || "@" + product.external_id === id);
+    }
+
+    protected findSyncVariant(id: string){
+        for (const entry of this.syncProducts){
+            const variant = entry.variants.find((variant) => String(variant.id) === id || "@" + variant.external_id === id);
+            if (variant) return {entry, variant};
+        }
+    }
+
+    protected withSyncVariant(id: string, handler: (found: {entry: MockSyncProduct, variant: SyncVariantResponse}) => MockReply){
+        const found = this.findSyncVariant(id);
+        return found ? handler(found) : fail(404, "Sync variant not found");
+    }
+
+    protected validateSyncVariant(variant: OptionalSyncVariant | undefined, index: number){
+        if (!variant || typeof variant !== "object") return "Sync variant " + index + " is missing";
+        if (variant.variant_id !== undefined && !MOCK_VARIANTS.some((catalog) => catalog.id === variant.variant_id)) return "Sync variant " + index + ": variant " + variant.variant_id + " does not exist";
+        if (variant.files !== undefined && (!Array.isArray(variant.files) || variant.files.some((file) => !file || !isUrl(file.url)))) return "Sync variant " + index + ": every file needs a valid url";
+    }
+
+    protected buildSyncVariant(entry: MockSyncProduct, input: OptionalSyncVariant): SyncVariantResponse{
+        const catalog = MOCK_VARIANTS.find((variant) => variant.id === input.variant_id);
+        const id = this.nextId();
+        return {
+            id,
+            external_id: input.external_id || id.toString(16),
+            sync_product_id: entry.product.id,
+            name: entry.product.name + (catalog ? " - " + catalog.color + " / " + catalog.size : ""),
+            synced: !!catalog,
+            variant_id: input.variant_id || 0,
+            main_category_id: catalog && this.findProduct(catalog.product_id)?.main_category_id,
+            warehouse_product_variant_id: null,
+            retail_price: input.retail_price || null,
+            sku: input.sku || null,
+            currency: this.store.currency || "USD",
+            product: {variant_id: input.variant_id, product_id: catalog && catalog.product_id, image: catalog && catalog.image, name: catalog && catalog.name},
+            files: (input.files || []).map((file) => this.fileInfo(file)),
+            options: input.options || [],
+            is_ignored: !!input.is_ignored,
+            availability_status: "active"
+        };
+    }
+
+    protected updateCounts(entry: MockSyncProduct){
+        entry.product.variants = entry.variants.length;
+        entry.product.synced = entry.variants.filter((variant) => variant.synced).length;
+    }
+
+    protected createSyncProduct(body: SyncProductBody | undefined, id?: number): MockReply{
+        const {sync_product, sync_variants} = body || {};
+        if (!sync_product || !sync_product.name) return fail(400, "Sync product name is required");
+        if (!Array.isArray(sync_variants) || !sync_variants.length) return fail(400, "At least one sync variant is required");
+        for (const [index, variant] of sync_variants.entries()){
+            const error = this.validateSyncVariant(variant, index) || (!variant.variant_id && "Sync variant " + index + ": variant_id is required") || (!variant.files && "Sync variant " + index + ": files are required");
+            if (error) return fail(400, error);
+        }
+        const productId = id || this.nextId();
+        const entry: MockSyncProduct = {
+            product: {
+                id: productId,
+                external_id: sync_product.external_id || productId.toString(16),
+                name: sync_product.name,
+                variants: 0,
+                synced: 0,
+                thumbnail_url: sync_product.thumbnail || null,
+                is_ignored: !!sync_product.is_ignored
+            },
+            variants: []
+        };
+        entry.variants = sync_variants.map((variant) => this.buildSyncVariant(entry, variant));
+        this.updateCounts(entry);
+        this.syncProducts.push(entry);
+        return ok(entry.product);
+    }
+
+    protected getSyncProduct(id: string){
+        const entry = this.findSyncProduct(id);
+        return entry ? ok({sync_product: entry.product, sync_variants: entry.variants}) : fail(404, "Sync product not found");
+    }
+
+    protected deleteSyncProduct(id: string){
+        const entry = this.findSyncProduct(id);
+        if (!entry) return fail(404, "Sync product not found");
+        this.syncProducts = this.syncProducts.filter((other) => other !== entry);
+        return ok({sync_product: entry.product, sync_variants: entry.variants});
+    }
+
+    protected modifySyncProduct(id: string, body: SyncProductBody | undefined){
+        const entry = this.findSyncProduct(id);
+        if (!entry) return fail(404, "Sync product not found");
+        const {sync_product, sync_variants} = body || {};
+        if (Array.isArray(sync_variants)){
+            for (const [index, variant] of sync_variants.entries()){
+                const error = this.validateSyncVariant(variant, index);
+                if (error) return fail(400, error);
+            }
+            // like orders: variants with a known id are updated, missing ones deleted, the others created
+            entry.variants = sync_variants.map((input) => {
+                const existing = entry.variants.find((variant) => variant.id === input.id || (input.external_id && variant.external_id === input.external_id));
+                return existing ? Object.assign(existing, this.variantChanges(input)) : this.buildSyncVariant(entry, input);
+            });
+        }
+        if (sync_product){
+            sync_product.name !== undefined && (entry.product.name = sync_product.name);
+            sync_product.external_id !== undefined && (entry.product.external_id = sync_product.external_id);
+            sync_product.thumbnail !== undefined && (entry.product.thumbnail_url = sync_product.thumbnail);
+            sync_product.is_ignored !== undefined && (entry.product.is_ignored = sync_product.is_ignored);
+        }
+        this.updateCounts(entry);
+        return ok(entry.product);
+    }
+
+    protected variantChanges(input: OptionalSyncVariant){
+        const changes: Partial<SyncVariantResponse> = {};
+        input.external_id !== undefined && (changes.external_id = input.external_id);
+        input.retail_price !== undefined && (changes.retail_price = input.retail_price);
+        input.sku !== undefined && (changes.sku = input.sku);
+        input.is_ignored !== undefined && (changes.is_ignored = input.is_ignored);
+        input.options !== undefined && (changes.options = input.options);
+        if (input.variant_id !== undefined){
+            const catalog = MOCK_VARIANTS.find((variant) => variant.id === input.variant_id);
+            changes.variant_id = input.variant_id;
+            changes.synced = !!catalog;
+            changes.product = {variant_id: input.variant_id, product_id: catalog && catalog.product_id, image: catalog && catalog.image, name: catalog && catalog.name};
+        }
+        input.files !== undefined && (changes.files = input.files.map((file) => this.fileInfo(file)));
+        return changes;
+    }
+
+    protected createSyncVariant(productId: string, body: OptionalSyncVariant | undefined){
+        const entry = this.findSyncProduct(productId);
+        if (!entry) return fail(404, "Sync product not found");
+        const error = this.validateSyncVariant(body, 0) || (!body?.variant_id && "variant_id is required") || (!body?.files && "files are required");
+        if (!body || error) return fail(400, error || "Sync variant is missing");
+        const variant = this.buildSyncVariant(entry, body);
+        entry.variants.push(variant);
+        this.updateCounts(entry);
+        return ok(variant);
+    }
+
+    protected modifySyncVariant(id: string, body: OptionalSyncVariant | undefined, withProduct: boolean){
+        return this.withSyncVariant(id, ({entry, variant}) => {
+            const error = this.validateSyncVariant(body, 0);
+            if (!body || error) return fail(400, error || "Sync variant is missing");
+            Object.assign(variant, this.variantChanges(body));
+            this.updateCounts(entry);
+            return ok(withProduct ? {sync_variant: variant, sync_product: entry.product} : variant);
+        });
+    }
+
+    protected deleteSyncVariant(id: string){
+        return this.withSyncVariant(id, ({entry, variant}) => {
+            entry.variants = entry.variants.filter((other) => other !== variant);
+            this.updateCounts(entry);
+            return ok({});
+        });
+    }
+
+    //--------------------------------------------------------------------------------------------------//
+    // ORDERS
+    //--------------------------------------------------------------------------------------------------//
+    protected findOrder(id: number | string){
+        const key = String(id);
+        return this.orders.find((order) => String(order.id) === key || (order.external_id !== null && "@" + order.external_id === key));
+    }
+
+    protected withOrder(id: string, handler: (order: OrderResponse) => MockReply){
+        const order = this.findOrder(id);
+        return order ? handler(order) : fail(404, "Order not found");
+    }
+
+    /**
+     * Resolves the items of an order request to line items with their Printful price
+     */
+    protected buildItems(body: {recipient?: OrderRecipient, items?: Array<MockOrderItem>} | undefined): {items: Array<OrderItemResponse>} | MockReply{
+        if (!body || typeof body !== "object") return fail(400, "Order data is missing");
+        const recipient = body.recipient;
+        if (!recipient || !recipient.address1 || !recipient.city || !recipient.country_code || !recipient.zip) return fail(400, "Recipient address1, city, country_code and zip are required");
+        const country = MOCK_COUNTRIES.find((country) => country.code === recipient.country_code);
+        if (country && country.states && !country.states.some((state) => state.code === recipient.state_code)) return fail(400, "Recipient state_code is required for " + country.name);
+        if (!Array.isArray(body.items) || !body.items.length) return fail(400, "Order must contain at least one item");
+        const items: Array<OrderItemResponse> = [];
+        for (const [index, item] of body.items.entries()){
+            const quantity = item.quantity === undefined ? 1 : item.quantity;
+            if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000) return fail(400, "Item " + index + ": quantity must be between 1 and 1000");
+            const synced = item.sync_variant_id !== undefined ? this.findSyncVariant(String(item.sync_variant_id))
+                : item.external_variant_id !== undefined ? this.findSyncVariant("@" + item.external_variant_id) : undefined;
+            const variantId = synced ? synced.variant.variant_id : item.variant_id;
+            const catalog = MOCK_VARIANTS.find((variant) => variant.id === variantId);
+            const price = catalog ? catalog.price : item.price;
+            if (!price) return fail(400, "Item " + index + ": variant not found");
+            const files: Array<Partial<FileInfo>> = item.files || (synced && synced.variant.files) || [];
+            items.push({
+                ...item,
+                id: item.id || this.nextId(),
+                quantity,
+                price,
+                retail_price: item.retail_price || (synced && synced.variant.retail_price) || undefined,
+                name: item.name || (synced && synced.variant.name) || (catalog && catalog.name),
+                product: catalog ? {variant_id: catalog.id, product_id: catalog.product_id, image: catalog.image, name: catalog.name} : item.product,
+                files: files.map((file) => this.fileInfo(file))
+            });
+        }
+        return {items};
+    }
+
+    protected shippingCost(items: Array<{quantity?: number}>, shipping = "STANDARD"){
+        const method = SHIPPING_METHODS.find((method) => method.id === shipping) || SHIPPING_METHODS[0];
+        const count = items.reduce((total, item) => total + (item.quantity || 1), 0);
+        return method.first + method.additional * Math.max(count - 1, 0);
+    }
+
+    protected orderCosts(items: Array<OrderItemResponse>, shipping?: string, recipient?: OrderRecipient): OrderCosts{
+        const subtotal = items.reduce((total, item) => total + Number(item.price) * (item.quantity || 1), 0);
+        const shippingCost = this.shippingCost(items, shipping);
+        const rate = (recipient && MOCK_TAX_RATES[recipient.country_code + "-" + recipient.state_code]) || 0;
+        const tax = Math.round(subtotal * rate * 100) / 100;
+        return {
+            currency: "USD",
+            subtotal: money(subtotal),
+            discount: "0.00",
+            shipping: money(shippingCost),
+            digitization: "0.00",
+            additional_fee: "0.00",
+            fulfillment_fee: "0.00",
+            retail_delivery_fee: "0.00",
+            tax: money(tax),
+            vat: "0.00",
+            total: money(subtotal + shippingCost + tax)
+        };
+    }
+
+    protected retailCosts(retail: OrderRetailCosts = {}){
+        const total = (["subtotal", "shipping", "tax"] as const).reduce((sum, key) => sum + Number(retail[key] || 0), 0) - Number(retail.discount || 0);
+        return {currency: retail.currency || "USD", subtotal: retail.subtotal || null, discount: retail.discount || null, shipping: retail.shipping || null, tax: retail.tax || null, total: retail.subtotal ? money(total) : null};
+    }
+
+    protected createOrder(body: Partial<Order> = {}, confirm: boolean, updateExisting: boolean): MockReply{
+        const existing = body.external_id ? this.findOrder("@" + body.external_id) : undefined;
+        if (existing){
+            if (!updateExisting) return fail(400, "Order with external_id '" + body.external_id + "' already exists");
+            return this.updateOrder(existing, body, confirm);
+        }
+        const built = this.buildItems(body);
+        if ("status" in built) return built;
+        const order: OrderResponse = {
+            id: this.nextId(),
+            external_id: body.external_id || null,
+            store: this.store.id,
+            status: confirm ? "pending" : "draft",
+            shipping: body.shipping || "STANDARD",
+            shipping_service_name: (SHIPPING_METHODS.find((method) => method.id === (body.shipping || "STANDARD")) || SHIPPING_METHODS[0]).name,
+            created: now(),
+            updated: now(),
+            recipient: body.recipient || {},
+            items: built.items,
+            branding_items: [],
+            incomplete_items: [],
+            costs: this.orderCosts(built.items, body.shipping, body.recipient),
+            retail_costs: this.retailCosts(body.retail_costs),
+            pricing_breakdown: [],
+            shipments: [],
+            gift: body.gift || null,
+            packing_slip: packingSlip(body.packing_slip),
+            is_sample: false,
+            needs_approval: false,
+            not_synced: false,
+            has_discontinued_items: false,
+            can_change_hold: false,
+            dashboard_url: "https://www.printful.com/dashboard?order_id=" + this.lastId
+        };
+        this.orders.push(order);
+        return ok(order);
+    }
+
+    protected updateOrder(order: OrderResponse, body: Partial<Order> = {}, confirm: boolean): MockReply{
+        if (!UNSUBMITTED.includes(order.status)) return fail(400, "Order with status '" + order.status + "' cannot be updated");
+        const merged = {...order, ...body, recipient: {...order.recipient, ...body.recipient}};
+        // items with a known id or external_id keep their id, the others are created
+        const items: Array<MockOrderItem> = body.items ? body.items.map((item) => {
+            const existing = order.items.find((line) => line.id === item.id || (item.external_id && line.external_id === item.external_id));
+            return existing ? {...existing, ...item, id: existing.id} : item;
+        }) : order.items;
+        const built = this.buildItems({recipient: merged.recipient, items});
+        if ("status" in built) return built;
+        Object.assign(order, {
+            external_id: merged.external_id || null,
+            shipping: merged.shipping || "STANDARD",
+            recipient: merged.recipient,
+            items: built.items,
+            costs: this.orderCosts(built.items, merged.shipping, merged.recipient),
+            retail_costs: this.retailCosts(merged.retail_costs),
+            gift: merged.gift || null,
+            packing_slip: packingSlip(merged.packing_slip),
+            status: confirm ? "pending" : "draft",
+            updated: now()
+        });
+        return ok(order);
+    }
+
+    //--------------------------------------------------------------------------------------------------//
+    // FILES, SHIPPING, MOCKUPS
+    //--------------------------------------------------------------------------------------------------//
+    protected fileInfo(file: Partial<FileInfo>): FileInfo{
+        return {
+            id: file.id || this.nextId(),
+            type: file.type || "default",
+            hash: file.hash || null,
+            url: file.url || null,
+            filename: file.filename || (file.url ? String(file.url).split("/").pop() || null : null),
+            mime_type: file.mime_type || "image/png",
+            size: file.size || 204800,
+            width: file.width || 1800,
+            height: file.height || 2400,
+            dpi: file.dpi || 150,
+            status: "ok",
+            created: file.created || now(),
+            thumbnail_url: file.thumbnail_url || null,
+            preview_url: file.preview_url || null,
+            visible: file.visible !== undefined ? file.visible : true,
+            is_temporary: false,
+            options: file.options,
+            position: file.position
+        };
+    }
+
+    protected addFile(body: Partial<File> | undefined){
+        if (!body || !isUrl(body.url)) return fail(400, "Invalid file URL");
+        const file = this.fileInfo(body);
+        this.files.push(file);
+        return ok(file);
+    }
+
+    protected shippingRates(body: Partial<ShippingInfo> = {}){
+        const {recipient, items} = body;
+        if (!recipient || !recipient.country_code) return fail(400, "Recipient country_code is required");
+        if (!Array.isArray(items) || !items.length) return fail(400, "Items are required");
+        for (const [index, item] of items.entries()){
+            const known = item.variant_id !== undefined ? MOCK_VARIANTS.some((variant) => variant.id === Number(item.variant_id))
+                : item.external_variant_id !== undefined ? !!this.findSyncVariant("@" + item.external_variant_id)
+                : item.warehouse_product_variant_id !== undefined;
+            if (!known) return fail(400, "Item " + index + ": variant not found");
+        }
+        const day = 24 * 60 * 60 * 1000;
+        const date = (days: number) => new Date(Date.now() + days * day).toISOString().slice(0, 10);
+        return ok(SHIPPING_METHODS.map((method) => ({
+            id: method.id,
+            name: method.name,
+            rate: money(this.shippingCost(items, method.id)),
+            currency: body.currency || "USD",
+            minDeliveryDays: method.minDeliveryDays,
+            maxDeliveryDays: method.maxDeliveryDays,
+            minDeliveryDate: date(method.minDeliveryDays),
+            maxDeliveryDate: date(method.maxDeliveryDays)
+        })));
+    }
+
+    protected createMockupTask(productId: number, body: MockupTask = {}){
+        if (!this.findProduct(productId)) return fail(404, "Product not found");
+        const variantIds = body.variant_ids || [];
+        const productVariants = MOCK_VARIANTS.filter((variant) => variant.product_id === productId).map((variant) => variant.id);
+        if (!variantIds.length || variantIds.some((id) => !productVariants.includes(id))) return fail(400, "variant_ids must be variants of product " + productId);
+        if (!Array.isArray(body.files) || !body.files.length) return fail(400, "At least one file is required");
+        const task_key = "gt-" + this.nextId();
+        const placements = [...new Set(body.files.map((file) => file.placement || "default"))];
+        const result: MockupTaskResult = {
+            task_key,
+            status: "completed",
+            mockups: placements.map((placement) => ({
+                placement,
+                variant_ids: variantIds,
+                mockup_url: "https://printful-upload.s3-accelerate.amazonaws.com/tmp/" + task_key + "/" + placement + ".png",
+                extra: []
+            })),
+            printfiles: placements.map((placement) => ({
+                variant_ids: variantIds,
+                placement,
+                url: "https://printful-upload.s3-accelerate.amazonaws.com/tmp/" + task_key + "/printfile_" + placement + ".png"
+            }))
+        };
+        // completed after the configured number of polls
+        this.mockupTasks.set(task_key, {task: result, polls: 0});
+        return ok({task_key, status: "pending"});
+    }
+
+    protected getMockupTask(taskKey: string){
+        const state = this.mockupTasks.get(taskKey);
+        if (!state) return fail(400, "Task not found");
+        state.polls++;
+        const polls = this.options.mockupPolls === undefined ? 1 : this.options.mockupPolls;
+        return state.polls >= polls ? ok(state.task) : ok({task_key: taskKey, status: "pending"});
+    }
+}
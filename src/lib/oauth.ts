@@ -1,23 +1,159 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import MemoryTokenStore from "./token-store";
+import type Transport from "./transport";
+import type { OAuthOptions, OAuthTokens, TokenScopes, TokenStore } from "../types/oauth";
+import type { CallOptions } from "../types/client";
+import type { APIResult } from "../types/response";
+
+export const DEFAULT_AUTH_ORIGIN = "https://www.printful.com";
+
+// Refresh in flight per token store, shared by every client using the store
+const REFRESHING = new WeakMap<TokenStore, Promise<unknown>>();
 
 //------------------------------------------------------------------------------------------------------//
 // I. OAUTH API
 //------------------------------------------------------------------------------------------------------//
 export default class OAuthAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    protected options?: OAuthOptions
+    public tokenStore: TokenStore
+    protected tokens: OAuthTokens | null = null
+
+    constructor(transport: Transport, options?: OAuthOptions){
+        super(transport);
+        this.options = options;
+        this.tokenStore = (options && options.tokenStore) || new MemoryTokenStore();
+        options && (this.transport.authenticate = () => this.ensureFreshToken());
+    }
 
     /**
      * Returns a list of scopes associated with the token
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
+     * @returns {promise} {result, code, error}
+     */
+    async getScopes(options?: CallOptions){
+        return this.request<TokenScopes>("/oauth/scopes", options);
+    }
+
+    /**
+     * Returns the URL to redirect the store owner to, to authorize your app
+     * 
+     * @param {string} state - Value returned unchanged to the redirect URL, used to prevent CSRF (optional)
+     * 
+     * @returns {string} url
+     */
+    getAuthorizeUrl(state?: string){
+        const {clientId, redirectUrl} = this.requireOptions();
+        const params = new URLSearchParams({client_id: clientId});
+        redirectUrl && params.append("redirect_url", redirectUrl);
+        state && params.append("state", state);
+        return this.authOrigin() + "/oauth/authorize?" + params.toString();
+    }
+
+    /**
+     * Exchanges the authorization code received on the redirect URL for access and refresh tokens.
+     * 
+     * The tokens are saved to the token store and used by every following request of the client.
+     * 
+     * @param {string} code - Value of the `code` query param of the redirect URL
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
+     * @returns {promise} {result, code, error}
+     */
+    async exchangeCode(code: string, options?: CallOptions){
+        const {clientId, clientSecret} = this.requireOptions();
+        return this.requestTokens(new URLSearchParams({grant_type: "authorization_code", client_id: clientId, client_secret: clientSecret, code}), options);
+    }
+
+    /**
+     * Gets a new access token using the refresh token, and saves both to the token store
+     * 
+     * @param {string} refresh_token - Defaults to the refresh token in the token store
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getScopes(){
-        const url = this.origin+"/oauth/scopes";
-        const response = await fetch(url,{headers: this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async refreshTokens(refresh_token?: string, options?: CallOptions){
+        const {clientId, clientSecret} = this.requireOptions();
+        const current = refresh_token || (await this.loadTokens(true) || {refresh_token: ""}).refresh_token;
+        return this.requestTokens(new URLSearchParams({grant_type: "refresh_token", client_id: clientId, client_secret: clientSecret, refresh_token: current}), options);
+    }
+
+    /**
+     * Uses the given tokens for the following requests and saves them to the token store
+     * 
+     * @param {OAuthTokens} tokens - access and refresh tokens
+     */
+    async setTokens(tokens: OAuthTokens){
+        this.tokens = tokens;
+        this.transport.headers.Authorization = "Bearer " + tokens.access_token;
+        await this.tokenStore.set(tokens);
+    }
+
+    /**
+     * Refreshes the access token when it expires within `refreshMargin` seconds.
+     * 
+     * Called before every authorized request when the client has OAuth options.
+     * Clients sharing a token store share one refresh, and a client adopts tokens another client already refreshed.
+     */
+    async ensureFreshToken(){
+        const tokens = await this.loadTokens();
+        if (!tokens || !this.expiring(tokens)) return;
+        let refreshing = REFRESHING.get(this.tokenStore);
+        if (!refreshing){
+            refreshing = this.refreshStored().finally(() => REFRESHING.delete(this.tokenStore));
+            REFRESHING.set(this.tokenStore, refreshing);
+        }
+        await refreshing;
+        await this.loadTokens(true);
+    }
+
+    /**
+     * Refreshes the tokens of the token store, unless another client sharing it already did
+     */
+    protected async refreshStored(){
+        const stored = await this.loadTokens(true);
+        if (stored && !this.expiring(stored)) return;
+        return this.refreshTokens(stored ? stored.refresh_token : undefined);
+    }
+
+    protected expiring(tokens: OAuthTokens){
+        const margin = this.options && this.options.refreshMargin !== undefined ? this.options.refreshMargin : 300;
+        return tokens.expires_at - margin <= Date.now() / 1000;
+    }
+
+    /**
+     * Returns the current tokens, read from the token store on first use or when `reload` is set
+     */
+    protected async loadTokens(reload = false){
+        if (!this.tokens || reload){
+            const stored = await this.tokenStore.get();
+            if (stored){
+                this.tokens = stored;
+                this.transport.headers.Authorization = "Bearer " + stored.access_token;
+            }
+        }
+        return this.tokens;
+    }
+
+    protected async requestTokens(body: URLSearchParams, options?: CallOptions): Promise<APIResult<OAuthTokens>>{
+        const data = await this.transport.request("/oauth/token", {method: "POST", origin: this.authOrigin(), body, auth: false, ...options});
+        if (!data.access_token){
+            const error = data.error && data.error.reason ? data.error : {reason: data.error || "OAuthError", message: data.error_description || data.result};
+            return {result: null, code: data.code || 400, error};
+        }
+        const tokens: OAuthTokens = data;
+        await this.setTokens(tokens);
+        return {result: tokens, code: 200, error: null};
+    }
+
+    protected requireOptions(){
+        if (!this.options) throw new Error("OAuth is not configured, pass the `oauth` option to the client");
+        return this.options;
+    }
+
+    protected authOrigin(){
+        return ((this.options && this.options.authOrigin) || DEFAULT_AUTH_ORIGIN).replace(/\/+$/, "");
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,205 @@
+import { OrderValidationError } from "./errors";
+import type { File } from "../types/file";
+import type { ItemOption, Order, OrderIssue, OrderItem, OrderPackingSlip, OrderRecipient, OrderRetailCosts } from "../types/order";
+
+export const MAX_ITEM_QUANTITY = 1000;
+
+// Fields that can't be combined with an item generated from a product template
+const TEMPLATE_EXCLUSIVE: Array<keyof OrderItem> = ["sync_variant_id", "external_variant_id", "warehouse_product_variant_id", "files", "options"];
+
+// Fields that identify what an item is made from
+const SOURCES: Array<keyof OrderItem> = ["variant_id", "sync_variant_id", "external_variant_id", "warehouse_product_variant_id", "product_template_id", "external_product_id"];
+
+const PRICE = /^\d+(\.\d{1,2})?$/;
+
+/**
+ * Checks an order item against the rules of the API
+ *
+ * @param {OrderItem} item - Order item
+ * @param {string} path - Path of the item in the order, used in the issues
+ *
+ * @returns {Array<OrderIssue>} issues, empty when the item is valid
+ */
+export function validateOrderItem(item: OrderItem, path = "item"): Array<OrderIssue>{
+    const issues: Array<OrderIssue> = [];
+    const issue = (field: string, message: string) => issues.push({path: path + "." + field, message});
+    if (!SOURCES.some((field) => item[field] !== undefined)){
+        issues.push({path, message: "needs a variant_id, sync_variant_id, external_variant_id, warehouse_product_variant_id or product_template_id"});
+    }
+    for (const template of ["product_template_id", "external_product_id"] as const){
+        if (item[template] === undefined) continue;
+        const other: keyof OrderItem = template === "product_template_id" ? "external_product_id" : "product_template_id";
+        for (const field of [...TEMPLATE_EXCLUSIVE, other]){
+            item[field] !== undefined && issue(field, "can't be combined with " + template);
+        }
+        item.variant_id === undefined && issue("variant_id", "is required with " + template);
+    }
+    // catalog variants are printed from the files of the item, other sources bring their own
+    const catalogOnly = item.variant_id !== undefined && SOURCES.every((field) => field === "variant_id" || item[field] === undefined);
+    if (catalogOnly && !(item.files && item.files.length)) issue("files", "are required for a catalog variant_id");
+    (item.files || []).forEach((file, index) => file && (file.url || file.id) || issue("files[" + index + "]", "needs a url or id"));
+    if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_ITEM_QUANTITY)){
+        issue("quantity", "must be an integer between 1 and " + MAX_ITEM_QUANTITY);
+    }
+    for (const field of ["price", "retail_price"] as const){
+        item[field] !== undefined && !PRICE.test(String(item[field])) && issue(field, "must be an amount like '12.50'");
+    }
+    return issues;
+}
+
+/**
+ * Checks an order against the rules of the API: a recipient address, at least one valid item and a packing slip email
+ *
+ * @param {Order} order - Order
+ *
+ * @returns {Array<OrderIssue>} issues, empty when the order is valid
+ */
+export function validateOrder(order: Order): Array<OrderIssue>{
+    const issues: Array<OrderIssue> = [];
+    if (!order.recipient){
+        issues.push({path: "recipient", message: "is required"});
+    }
+    else{
+        for (const field of ["address1", "city", "country_code"] as const){
+            order.recipient[field] || issues.push({path: "recipient." + field, message: "is required"});
+        }
+    }
+    if (!order.items || !order.items.length){
+        issues.push({path: "items", message: "must contain at least one item"});
+    }
+    (order.items || []).forEach((item, index) => issues.push(...validateOrderItem(item, "items[" + index + "]")));
+    const slip = order.packing_slip as OrderPackingSlip | undefined;
+    if (slip && Object.keys(slip).length && !slip.email){
+        issues.push({path: "packing_slip.email", message: "is required"});
+    }
+    return issues;
+}
+
+//------------------------------------------------------------------------------------------------------//
+// ORDER BUILDER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Assembles an {@link Order} step by step and checks the rules of the API when it is built:
+ *
+ *     const order = new OrderBuilder("shop-1042")
+ *         .recipient({name: "John Smith", address1: "19749 Dearborn St", city: "Chatsworth", state_code: "CA", country_code: "US", zip: "91311"})
+ *         .catalogItem(4011, [{url: "https://example.com/front.png"}], 2)
+ *         .templateItem(123456, 4012)
+ *         .build();
+ *
+ *     await client.orders.createOrder(order);
+ */
+export default class OrderBuilder{
+    protected order: Partial<Order> & {items: Array<OrderItem>}
+
+    /**
+     * @param {string|Order} order - External ID of the new order, or an order to start from (optional)
+     */
+    constructor(order?: string | Partial<Order>){
+        const start = typeof order === "string" ? {external_id: order} : order || {};
+        this.order = {...start, items: [...(start.items || [])]};
+    }
+
+    externalId(external_id: string){
+        this.order.external_id = external_id;
+        return this;
+    }
+
+    /**
+     * @param {string} method - Shipping method, e.g. 'STANDARD' or an ID returned by the Shipping Rate API
+     */
+    shipping(method: string){
+        this.order.shipping = method;
+        return this;
+    }
+
+    recipient(recipient: OrderRecipient){
+        this.order.recipient = {...recipient};
+        return this;
+    }
+
+    /**
+     * Adds an item with any combination of fields, they are checked by {@link build}
+     */
+    item(item: OrderItem){
+        this.order.items.push({...item});
+        return this;
+    }
+
+    /**
+     * Adds a catalog variant printed from the given files
+     *
+     * @param {int} variant_id - Catalog Variant ID
+     * @param {Array<File>} files - Print files, e.g. [{url}] or [{type: 'back', url}]
+     * @param {int} quantity - Number of items (max 1000). Defaults to 1
+     * @param {Array<ItemOption>} options - Additional product options (optional)
+     */
+    catalogItem(variant_id: number, files: Array<File>, quantity = 1, options?: Array<ItemOption>){
+        return this.item({variant_id, files, quantity, ...(options ? {options} : {})});
+    }
+
+    /**
+     * Adds a variant of a sync product, printed from its files
+     *
+     * @param {int|string} id - Sync Variant ID, or External Variant ID (if prefixed with `@`)
+     * @param {int} quantity - Number of items (max 1000). Defaults to 1
+     */
+    syncItem(id: number | string, quantity = 1){
+        const source = typeof id === "string" && id.startsWith("@") ? {external_variant_id: id.slice(1)} : {sync_variant_id: Number(id)};
+        return this.item({...source, quantity});
+    }
+
+    /**
+     * Adds a catalog variant printed from a product template
+     *
+     * @param {int|string} template - Product Template ID, or External Product ID (if prefixed with `@`)
+     * @param {int} variant_id - Catalog Variant ID
+     * @param {int} quantity - Number of items (max 1000). Defaults to 1
+     */
+    templateItem(template: number | string, variant_id: number, quantity = 1){
+        const source = typeof template === "string" && template.startsWith("@") ? {external_product_id: template.slice(1)} : {product_template_id: Number(template)};
+        return this.item({...source, variant_id, quantity});
+    }
+
+    /**
+     * @param {string} subject - Gift message title
+     * @param {string} message - Gift message text (optional)
+     */
+    gift(subject: string, message?: string){
+        this.order.gift = {subject, ...(message !== undefined ? {message} : {})};
+        return this;
+    }
+
+    packingSlip(packing_slip: OrderPackingSlip){
+        this.order.packing_slip = {...packing_slip};
+        return this;
+    }
+
+    /**
+     * Retail costs printed on the packing slip of international shipments, only used when every item has a retail_price
+     */
+    retailCosts(retail_costs: OrderRetailCosts){
+        this.order.retail_costs = {...retail_costs};
+        return this;
+    }
+
+    /**
+     * Returns the rules the order breaks so far
+     *
+     * @returns {Array<OrderIssue>} issues, empty when the order is valid
+     */
+    validate(){
+        return validateOrder(this.order as Order);
+    }
+
+    /**
+     * Returns the order, ready for `createOrder` or `estimateOrderCost`
+     *
+     * @returns {Order} a copy of the order, later changes of the builder don't affect it
+     */
+    build(): Order{
+        const issues = this.validate();
+        if (issues.length) throw new OrderValidationError(issues);
+        return JSON.parse(JSON.stringify(this.order));
+    }
+}
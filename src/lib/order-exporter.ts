@@ -0,0 +1,175 @@
+import { formatCsvRow } from "./csv";
+import type OrdersAPI from "./orders";
+import type { ExportColumn, ExportFormat, ExportRow, ExportStream, OrderExportOptions } from "../types/export";
+import type { OrderItemResponse, OrderResponse } from "../types/order";
+
+type Getter = (order: OrderResponse, item?: OrderItemResponse) => string | number | null | undefined;
+
+const date = (seconds: number) => seconds ? new Date(seconds * 1000).toISOString() : null;
+
+// Spreadsheets run cells starting with these characters as formulas (CSV injection)
+const FORMULA = /^[=+\-@\t\r]/;
+
+const ORDER_GETTERS: Array<[ExportColumn, Getter]> = [
+    ["order_id", (order) => order.id],
+    ["external_id", (order) => order.external_id],
+    ["status", (order) => order.status],
+    ["created", (order) => date(order.created)],
+    ["updated", (order) => date(order.updated)],
+    ["shipping", (order) => order.shipping],
+    ["shipping_service_name", (order) => order.shipping_service_name],
+    ["recipient_name", (order) => order.recipient && order.recipient.name],
+    ["recipient_country_code", (order) => order.recipient && order.recipient.country_code],
+    ["recipient_state_code", (order) => order.recipient && order.recipient.state_code],
+    ["currency", (order) => order.costs && order.costs.currency],
+    ["subtotal", (order) => order.costs && order.costs.subtotal],
+    ["discount", (order) => order.costs && order.costs.discount],
+    ["shipping_cost", (order) => order.costs && order.costs.shipping],
+    ["digitization", (order) => order.costs && order.costs.digitization],
+    ["additional_fee", (order) => order.costs && order.costs.additional_fee],
+    ["fulfillment_fee", (order) => order.costs && order.costs.fulfillment_fee],
+    ["retail_delivery_fee", (order) => order.costs && order.costs.retail_delivery_fee],
+    ["tax", (order) => order.costs && order.costs.tax],
+    ["vat", (order) => order.costs && order.costs.vat],
+    ["total", (order) => order.costs && order.costs.total],
+    ["retail_currency", (order) => order.retail_costs && order.retail_costs.currency],
+    ["retail_subtotal", (order) => order.retail_costs && order.retail_costs.subtotal],
+    ["retail_discount", (order) => order.retail_costs && order.retail_costs.discount],
+    ["retail_shipping", (order) => order.retail_costs && order.retail_costs.shipping],
+    ["retail_tax", (order) => order.retail_costs && order.retail_costs.tax],
+    ["retail_total", (order) => order.retail_costs && order.retail_costs.total],
+];
+
+const ITEM_GETTERS: Array<[ExportColumn, Getter]> = [
+    ["item_id", (order, item) => item && item.id],
+    ["item_external_id", (order, item) => item && item.external_id],
+    ["variant_id", (order, item) => item && (item.variant_id || (item.product && item.product.variant_id))],
+    ["sync_variant_id", (order, item) => item && item.sync_variant_id],
+    ["external_variant_id", (order, item) => item && item.external_variant_id],
+    ["item_name", (order, item) => item && item.name],
+    ["sku", (order, item) => item && item.sku],
+    ["quantity", (order, item) => item && item.quantity],
+    ["item_price", (order, item) => item && item.price],
+    ["item_retail_price", (order, item) => item && item.retail_price],
+];
+
+/**
+ * Columns of each export level, in their default order
+ */
+export const EXPORT_COLUMNS: Record<"item" | "order", Array<ExportColumn>> = {
+    order: ORDER_GETTERS.map(([column]) => column),
+    item: [...ORDER_GETTERS, ...ITEM_GETTERS].map(([column]) => column),
+};
+
+const GETTERS = new Map([...ORDER_GETTERS, ...ITEM_GETTERS]);
+
+// Timestamp in ms of a date option
+const time = (value?: Date | number | string) => value === undefined ? undefined : new Date(value).getTime();
+
+//------------------------------------------------------------------------------------------------------//
+// ORDER EXPORTER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Exports orders with their costs and retail costs for accounting, page by page through `getAllOrders`.
+ *
+ * Orders are listed newest first, so an export with `from` stops at the first order created before it.
+ * A page that fails to load is thrown as a {@link PrintfulError}.
+ */
+export default class OrderExporter{
+    protected orders: OrdersAPI
+
+    constructor(orders: OrdersAPI){
+        this.orders = orders;
+    }
+
+    /**
+     * Yields the orders matching the status and created date range
+     *
+     * @param {OrderExportOptions} options - Statuses, date range, page size, abort signal and timeout of each page (optional)
+     */
+    async *select(options: OrderExportOptions = {}): AsyncGenerator<OrderResponse>{
+        const {status, from, to, level, columns, delimiter, ...callOptions} = options;
+        const statuses = status === undefined ? undefined : ([] as Array<string>).concat(status);
+        const start = time(from);
+        const end = time(to);
+        // a single status is filtered by the API
+        const listed = statuses && statuses.length === 1 ? statuses[0] as OrderResponse["status"] : undefined;
+        for await (const order of this.orders.iterateAllOrders(listed, callOptions)){
+            const created = order.created * 1000;
+            if (start !== undefined && created < start) return;
+            if (end !== undefined && created >= end) continue;
+            if (statuses && !statuses.includes(order.status)) continue;
+            yield order;
+        }
+    }
+
+    /**
+     * Yields flattened rows: one per line item with the order columns repeated, or one per order
+     *
+     * @param {OrderExportOptions} options - Statuses, date range, level, columns, page size, abort signal and timeout of each page (optional)
+     */
+    async *rows(options: OrderExportOptions = {}): AsyncGenerator<ExportRow>{
+        const {level = "item"} = options;
+        const columns = options.columns || EXPORT_COLUMNS[level];
+        const row = (order: OrderResponse, item?: OrderItemResponse) => columns.reduce((row, column) => {
+            const value = (GETTERS.get(column) as Getter)(order, item);
+            return {...row, [column]: value === undefined ? null : value};
+        }, {} as ExportRow);
+        for await (const order of this.select(options)){
+            if (level === "order" || !order.items || !order.items.length){
+                yield row(order);
+                continue;
+            }
+            for (const item of order.items) yield row(order, item);
+        }
+    }
+
+    /**
+     * Yields CSV lines, starting with the header line. Text cells that a spreadsheet would run as a formula,
+     * e.g. a recipient name like `=HYPERLINK(...)`, are prefixed with `'` unless `escapeFormulas` is false.
+     *
+     * @param {OrderExportOptions} options - Statuses, date range, level, columns, delimiter, formula escaping, page size, abort signal and timeout of each page (optional)
+     */
+    async *csv(options: OrderExportOptions = {}): AsyncGenerator<string>{
+        const columns = options.columns || EXPORT_COLUMNS[options.level || "item"];
+        const escape = options.escapeFormulas !== false;
+        const cell = (value: ExportRow[ExportColumn]) => escape && typeof value === "string" && FORMULA.test(value) ? "'" + value : value;
+        yield formatCsvRow(columns, options.delimiter);
+        for await (const row of this.rows({...options, columns})){
+            yield formatCsvRow(columns.map((column) => cell(row[column])), options.delimiter);
+        }
+    }
+
+    /**
+     * Yields JSON Lines, one JSON object per row
+     *
+     * @param {OrderExportOptions} options - Statuses, date range, level, columns, page size, abort signal and timeout of each page (optional)
+     */
+    async *jsonLines(options: OrderExportOptions = {}): AsyncGenerator<string>{
+        for await (const row of this.rows(options)){
+            yield JSON.stringify(row) + "\n";
+        }
+    }
+
+    /**
+     * Writes the export to a stream, e.g. `fs.createWriteStream("orders-2024-05.csv")`, waiting for it to drain when its buffer is full
+     *
+     * @param {ExportStream} stream - Writable stream, the caller ends it
+     * @param {ExportFormat} format - 'csv' or 'jsonl'
+     * @param {OrderExportOptions} options - Statuses, date range, level, columns, delimiter, page size, abort signal and timeout of each page (optional)
+     *
+     * @returns {promise} number of rows written, without the CSV header
+     */
+    async write(stream: ExportStream, format: ExportFormat, options: OrderExportOptions = {}){
+        const lines = format === "csv" ? this.csv(options) : this.jsonLines(options);
+        let count = format === "csv" ? -1 : 0;
+        const once = stream.once;
+        for await (const line of lines){
+            count++;
+            if (stream.write(line) === false && once){
+                await new Promise<void>((resolve) => once.call(stream, "drain", resolve));
+            }
+        }
+        return Math.max(count, 0);
+    }
+}
@@ -0,0 +1,221 @@
+import { parseCsv } from "./csv";
+import { PrintfulError } from "./errors";
+import { validateOrder } from "./order-builder";
+import type OrdersAPI from "./orders";
+import type { CallOptions } from "../types/client";
+import type { ImportedOrder, ImportField, ImportOrderReport, ImportReport, ImportRowReport, OrderImportOptions } from "../types/import";
+import type { OrderIssue, OrderItem } from "../types/order";
+import type { APIResult } from "../types/response";
+
+/**
+ * CSV header of each field, e.g. a `city` column fills `recipient.city`
+ */
+export const DEFAULT_IMPORT_COLUMNS: Record<ImportField, string> = {
+    "external_id": "external_id",
+    "shipping": "shipping",
+    "recipient.name": "name",
+    "recipient.company": "company",
+    "recipient.address1": "address1",
+    "recipient.address2": "address2",
+    "recipient.city": "city",
+    "recipient.state_code": "state_code",
+    "recipient.country_code": "country_code",
+    "recipient.zip": "zip",
+    "recipient.phone": "phone",
+    "recipient.email": "email",
+    "recipient.tax_number": "tax_number",
+    "item.external_id": "line_item_id",
+    "item.variant_id": "variant_id",
+    "item.sync_variant_id": "sync_variant_id",
+    "item.external_variant_id": "external_variant_id",
+    "item.warehouse_product_variant_id": "warehouse_product_variant_id",
+    "item.product_template_id": "product_template_id",
+    "item.external_product_id": "external_product_id",
+    "item.quantity": "quantity",
+    "item.retail_price": "retail_price",
+    "item.name": "item_name",
+    "item.file_url": "file_url",
+    "item.file_type": "file_type",
+};
+
+const describe = (issue: OrderIssue) => issue.path + " " + issue.message;
+
+/**
+ * Awaits a call, turning a thrown PrintfulError (`throwOnError`) into a failed result so the other orders are still imported
+ */
+async function settle<T>(call: Promise<APIResult<T>>): Promise<APIResult<T>>{
+    try{
+        return await call;
+    }
+    catch (error){
+        if (!(error instanceof PrintfulError)) throw error;
+        return {result: null, code: error.status, error: {reason: error.reason, message: error.message}};
+    }
+}
+
+const NUMERIC_FIELDS: Array<ImportField> = ["item.variant_id", "item.sync_variant_id", "item.warehouse_product_variant_id", "item.product_template_id", "item.quantity"];
+
+//------------------------------------------------------------------------------------------------------//
+// ORDER IMPORTER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Imports orders from CSV, one item per row. Rows sharing an external ID form one order; its shipping and
+ * recipient are read from the first row, later rows may leave them empty but can't contradict them.
+ *
+ * Every order is checked locally and estimated with `estimateOrderCost` first; only orders that pass are created,
+ * with `submitOrder` so an import can be run again after a failure without duplicating orders.
+ */
+export default class OrderImporter{
+    protected orders: OrdersAPI
+    protected options: OrderImportOptions
+    protected columns: Record<ImportField, string>
+
+    constructor(orders: OrdersAPI, options: OrderImportOptions = {}){
+        this.orders = orders;
+        this.options = options;
+        this.columns = {...DEFAULT_IMPORT_COLUMNS, ...options.columns};
+    }
+
+    /**
+     * Maps the rows of a CSV to orders, without calling the API
+     *
+     * @param {string} csv - CSV text with a header line
+     *
+     * @returns {Array<ImportedOrder>} orders in the order of their first row, with the issues found in their rows
+     */
+    parse(csv: string): Array<ImportedOrder>{
+        const [header, ...records] = parseCsv(csv, this.options.delimiter);
+        if (!header) return [];
+        const headers = header.cells.map((cell) => cell.trim());
+        const orders = new Map<string, ImportedOrder>();
+        for (const {line, cells} of records){
+            const row = (field: ImportField) => {
+                const index = headers.indexOf(this.columns[field]);
+                return index >= 0 && cells[index] !== undefined ? cells[index].trim() : "";
+            };
+            const external_id = row("external_id");
+            const key = external_id || "#" + line;
+            const imported = orders.get(key) || {external_id, rows: [], order: {external_id: external_id || undefined, recipient: {}, items: []}, issues: []};
+            orders.set(key, imported);
+            imported.rows.push(line);
+            external_id || imported.issues.push({row: line, path: "external_id", message: "is required to group rows into orders"});
+            this.mergeOrder(imported, row, line);
+            imported.order.items.push(this.item(imported, row, line));
+        }
+        return [...orders.values()];
+    }
+
+    /**
+     * Checks and estimates the orders of a CSV without creating them
+     *
+     * @param {string} csv - CSV text with a header line
+     * @param {CallOptions} options - Abort signal and timeout for each estimate (optional)
+     *
+     * @returns {promise} report with the estimated costs of each order and the outcome of each row
+     */
+    estimate(csv: string, options?: CallOptions){
+        return this.run(csv, true, options);
+    }
+
+    /**
+     * Checks and estimates the orders of a CSV, then creates the orders that passed as drafts, or confirmed with the `confirm` option
+     *
+     * @param {string} csv - CSV text with a header line
+     * @param {CallOptions} options - Abort signal and timeout for each request (optional)
+     *
+     * @returns {promise} report with the created order and costs of each order and the outcome of each row
+     */
+    import(csv: string, options?: CallOptions){
+        return this.run(csv, false, options);
+    }
+
+    protected async run(csv: string, dryRun: boolean, options?: CallOptions): Promise<ImportReport>{
+        const reports: Array<ImportOrderReport> = [];
+        const rows: Array<ImportRowReport> = [];
+        for (const imported of this.parse(csv)){
+            const report: ImportOrderReport = {external_id: imported.external_id, rows: imported.rows, order: imported.order, costs: null, result: null, error: null};
+            reports.push(report);
+            const issues = [...imported.issues, ...validateOrder(imported.order)];
+            if (issues.length){
+                report.error = {reason: "InvalidOrder", message: issues.map(describe).join(", ")};
+                rows.push(...imported.rows.map((row) => {
+                    const own = issues.filter((issue) => [row, undefined].includes(this.issueRow(imported, issue)));
+                    return this.rowReport(imported, row, own.length ? own.map(describe).join(", ") : "Not imported, other rows of the order are invalid");
+                }));
+                continue;
+            }
+            const estimate = await settle(this.orders.estimateOrderCost(imported.order, options));
+            report.costs = estimate.error ? null : estimate.result.costs;
+            report.error = estimate.error;
+            if (!report.error && !dryRun){
+                const created = await settle(this.orders.submitOrder(imported.order, this.options.confirm, options));
+                report.result = created.result;
+                report.error = created.error;
+            }
+            const {error, result} = report;
+            rows.push(...imported.rows.map((row) => this.rowReport(imported, row, error && error.message, result && result.id)));
+        }
+        rows.sort((a, b) => a.row - b.row);
+        const failed = reports.filter((report) => report.error).length;
+        return {dryRun, orders: reports, rows, succeeded: reports.length - failed, failed};
+    }
+
+    /**
+     * Fills the order level fields from a row, reporting values that contradict earlier rows of the order
+     */
+    protected mergeOrder({order, issues}: ImportedOrder, row: (field: ImportField) => string, line: number){
+        const recipient = order.recipient as Record<string, string>;
+        const fields = Object.keys(this.columns).filter((field) => field === "shipping" || field.startsWith("recipient.")) as Array<ImportField>;
+        for (const field of fields){
+            const value = row(field);
+            if (!value) continue;
+            const key = field.replace("recipient.", "");
+            const current = field === "shipping" ? order.shipping : recipient[key];
+            if (current === undefined){
+                field === "shipping" ? order.shipping = value : recipient[key] = value;
+            }
+            else if (current !== value){
+                issues.push({row: line, path: field, message: "'" + value + "' differs from '" + current + "' in an earlier row of the order"});
+            }
+        }
+    }
+
+    /**
+     * Reads the item of a row, reporting cells that should be numbers
+     */
+    protected item({order, issues}: ImportedOrder, row: (field: ImportField) => string, line: number){
+        const item: Record<string, unknown> = {};
+        const fields = Object.keys(this.columns).filter((field) => field.startsWith("item.") && !field.startsWith("item.file_")) as Array<ImportField>;
+        for (const field of fields){
+            const value = row(field);
+            if (!value) continue;
+            const key = field.replace("item.", "");
+            if (!NUMERIC_FIELDS.includes(field)){
+                item[key] = value;
+            }
+            else if (/^\d+$/.test(value)){
+                item[key] = Number(value);
+            }
+            else{
+                issues.push({row: line, path: "items[" + order.items.length + "]." + key, message: "'" + value + "' is not a number"});
+            }
+        }
+        const url = row("item.file_url");
+        const type = row("item.file_type");
+        url && (item.files = [{...(type ? {type} : {}), url}]);
+        return item as OrderItem;
+    }
+
+    /**
+     * Returns the line an issue was found on: its own, or the line of the item it is about
+     */
+    protected issueRow({rows}: ImportedOrder, issue: ImportedOrder["issues"][number]){
+        if (issue.row !== undefined) return issue.row;
+        const item = issue.path.match(/^items\[(\d+)\]/);
+        return item ? rows[Number(item[1])] : undefined;
+    }
+
+    protected rowReport({external_id}: ImportedOrder, row: number, error: string | null, order: number | null = null): ImportRowReport{
+        return {row, external_id: external_id || null, success: !error, order, error};
+    }
+}
@@ -0,0 +1,82 @@
+import { OrderStateError } from "./errors";
+import type { OrderAction, OrderStatus } from "../types/order";
+
+type WithStatus = {status: OrderStatus} | OrderStatus;
+
+/**
+ * Statuses an order can move to from each status, by the store (confirm, update, cancel) or by Printful while
+ * fulfilling it. Archived orders are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, Array<OrderStatus>> = {
+    draft: ["draft", "pending", "canceled", "archived"],
+    failed: ["failed", "pending", "canceled", "archived"],
+    pending: ["inprocess", "onhold", "failed", "canceled"],
+    onhold: ["pending", "inprocess", "failed", "canceled"],
+    inprocess: ["onhold", "partial", "fulfilled"],
+    partial: ["fulfilled"],
+    fulfilled: ["archived"],
+    canceled: ["archived"],
+    archived: [],
+};
+
+/**
+ * Statuses in which the store can cancel, update or confirm an order
+ */
+export const ORDER_ACTIONS: Record<OrderAction, Array<OrderStatus>> = {
+    cancel: ["draft", "pending", "failed", "onhold"],
+    update: ["draft", "failed"],
+    confirm: ["draft"],
+};
+
+const statusOf = (order: WithStatus) => typeof order === "string" ? order : order.status;
+
+/**
+ * Whether an order can move from one status to another, see {@link ORDER_TRANSITIONS}
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus){
+    return (ORDER_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Whether an order in a status can still reach one of the target statuses, directly or through other statuses
+ */
+export function canReach(from: OrderStatus, targets: Array<OrderStatus>){
+    const seen = new Set<OrderStatus>([from]);
+    const queue = [from];
+    for (let status = queue.shift(); status; status = queue.shift()){
+        if (targets.includes(status)) return true;
+        for (const next of ORDER_TRANSITIONS[status] || []){
+            !seen.has(next) && seen.add(next) && queue.push(next);
+        }
+    }
+    return false;
+}
+
+/**
+ * Whether the store can take an action on an order in its current status
+ *
+ * @param {OrderResponse|OrderStatus} order - Fetched order, or its status
+ * @param {OrderAction} action - 'cancel', 'update' or 'confirm'
+ */
+export function canTakeAction(order: WithStatus, action: OrderAction){
+    return ORDER_ACTIONS[action].includes(statusOf(order));
+}
+
+/** Whether a fetched order can be canceled, i.e. it is a draft, pending, failed or on hold */
+export const canCancel = (order: WithStatus) => canTakeAction(order, "cancel");
+
+/** Whether a fetched order can be updated, i.e. it is a draft or failed */
+export const canUpdate = (order: WithStatus) => canTakeAction(order, "update");
+
+/** Whether a fetched order can be confirmed, i.e. it is a draft */
+export const canConfirm = (order: WithStatus) => canTakeAction(order, "confirm");
+
+/**
+ * Throws an {@link OrderStateError} when the store can't take an action on an order in its current status
+ *
+ * @param {OrderResponse} order - Fetched order, its ID is shown in the error
+ * @param {OrderAction} action - 'cancel', 'update' or 'confirm'
+ */
+export function assertOrderAction(order: {id: number | string, status: OrderStatus}, action: OrderAction){
+    if (!canTakeAction(order, action)) throw new OrderStateError(action, order.id, order.status, ORDER_ACTIONS[action]);
+}
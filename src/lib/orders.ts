@@ -1,13 +1,65 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { Order, OrderStatus } from '../types/order';
+import { sleep } from "./rate-limiter";
+import { PrintfulAbortError, PrintfulError, PrintfulTimeoutError, PrintfulValidationError } from "./errors";
+import { canReach } from "./order-lifecycle";
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
+import type { Order, OrderCostEstimate, OrderResponse, OrderStatus, OrderWatchOptions, SubmitOrderOptions } from '../types/order';
+import type { CallOptions } from "../types/client";
+import type { APIFailure, APIResult, APISuccess } from "../types/response";
+
+type Settled<T> = APISuccess<T> | APIFailure & {thrown?: PrintfulError}
+
+// Statuses of an order that was submitted for fulfillment, e.g. by a confirmation whose response was lost
+const SUBMITTED: Array<OrderStatus> = ["pending", "inprocess", "onhold", "partial", "fulfilled"];
+
+/**
+ * Awaits a call, turning a thrown PrintfulError (`throwOnError`) into a failed result
+ */
+async function settle<T>(call: Promise<APIResult<T>>): Promise<Settled<T>>{
+    try{
+        return await call;
+    }
+    catch (error){
+        if (!(error instanceof PrintfulError)) throw error;
+        return {result: null, code: error.status, error: {reason: error.reason, message: error.message}, thrown: error};
+    }
+}
+
+/**
+ * Whether Printful may have processed a failed request: no response was received (other than a user abort) or a server error
+ */
+export function ambiguous({code, error}: {code: number, error: {reason: string} | null}){
+    return (code === 0 && !(error && error.reason === "Aborted")) || code >= 500;
+}
+
+/**
+ * Waits before the next poll, returning early when the signal aborts
+ */
+function pause(ms: number, signal?: AbortSignal){
+    return new Promise<void>((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            signal && signal.removeEventListener("abort", done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal && signal.addEventListener("abort", done);
+    });
+}
+
+/**
+ * Waits before a retry, resolving false instead when the signal aborts
+ */
+function backoff(attempt: number, retryDelay: number, signal?: AbortSignal){
+    return sleep(retryDelay * 2 ** (attempt - 2), signal).then(() => true, () => false);
+}
 
 //------------------------------------------------------------------------------------------------------//
 // V. ORDERS API
 //------------------------------------------------------------------------------------------------------//
 export default class OrdersAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns list of order objects from your store
@@ -16,21 +68,28 @@ export default class OrdersAPI extends GenericAPI{
      * @param {string} status - Filter by order status
      * @param {int} offset -  Result set offset
      * @param {int} limit -  Number of items per page (max 100)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllOrders(offset?: number, limit?: number, status?: OrderStatus){
+    async getAllOrders(offset?: number, limit?: number, status?: OrderStatus, options?: CallOptions){
         const params = new URLSearchParams({})
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit));
         status && params.append("status", status);
-        const url = this.origin+"/orders?" + params.toString();
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<Array<OrderResponse>>("/orders", {params, ...options}, {offset, limit});
+    }
+
+    /**
+     * Iterates over every order from your store, fetching pages of up to 100 orders as needed
+     * 
+     * @param {string} status - Filter by order status
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of orders
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllOrders(status?: OrderStatus, options?: PaginateOptions){
+        return this.paginate("/orders", (offset, limit) => this.getAllOrders(offset, limit, status, options), options);
     }
 
     /**
@@ -40,57 +99,75 @@ export default class OrdersAPI extends GenericAPI{
      * @param {NewOrder} newOrder - information about new order
      * @param {boolean} confirm - Automatically submit the newly created order for fulfillment (skip the Draft phase)
      * @param {boolean} update_existing - Try to update existing order if an order with the specified external_id already exists
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async createOrder(newOrder: Order, confirm?: boolean, update_existing?: boolean){
+    async createOrder(newOrder: Order, confirm?: boolean, update_existing?: boolean, options?: CallOptions){
         const params = new URLSearchParams({});
         confirm !== undefined && params.append("confirm", String(confirm));
         update_existing !== undefined && params.append("update_existing", String(update_existing));
-        const url = this.origin+"/orders?"+params.toString();
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(newOrder)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<OrderResponse>("/orders", {method: "POST", params, body: newOrder, ...options});
+    }
+
+    /**
+     * Creates an order at most once, and optionally submits it for fulfillment at most once.
+     * 
+     * The order is identified by its external_id. When the outcome of a request is unknown (network error, timeout,
+     * server error) the order is looked up with `getOrder('@' + external_id)`: an existing order is not created again,
+     * a missing one is created again with `update_existing`, so a late first request cannot add a duplicate.
+     * Confirmation only succeeds for drafts, so an order that was already submitted is returned as is.
+     * 
+     * @param {Order} newOrder - information about new order, `external_id` is required
+     * @param {boolean} confirm - Submit the order for fulfillment (skip the Draft phase)
+     * @param {SubmitOrderOptions} options - Attempts per step, retry delay, abort signal and timeout (optional)
+     * 
+     * @returns {promise} {result, code, error}
+     */
+    async submitOrder(newOrder: Order, confirm?: boolean, options: SubmitOrderOptions = {}): Promise<APIResult<OrderResponse>>{
+        const {maxAttempts = 3, retryDelay = 1000, ...callOptions} = options;
+        if (!newOrder.external_id){
+            return this.fail(new PrintfulValidationError("submitOrder requires an external_id to identify the order", {status: 400, reason: "ExternalIdRequired", request: {method: "POST", url: this.transport.url("/orders")}}));
+        }
+        const id = "@" + newOrder.external_id;
+        let outcome: Settled<OrderResponse>;
+        for (let attempt = 1; ; attempt++){
+            if (attempt > 1 && !await backoff(attempt, retryDelay, callOptions.signal)){
+                return this.fail(new PrintfulAbortError("Submitting order " + id + " was aborted", {status: 0, reason: "Aborted"}));
+            }
+            outcome = await settle(this.createOrder(newOrder, confirm, attempt > 1 || undefined, callOptions));
+            if (!outcome.error) return outcome;
+            // 400 with an existing order: it was created by an earlier submission
+            if (!ambiguous(outcome) && outcome.code !== 400) break;
+            const existing = await settle(this.getOrder(id, callOptions));
+            if (!existing.error) return confirm && existing.result.status === "draft" ? this.confirmOnce(existing.result, maxAttempts, retryDelay, callOptions) : existing;
+            if (!ambiguous(outcome) || attempt >= maxAttempts) break;
+        }
+        return this.settled(outcome);
     }
 
     /**
      * Returns order data by ID or External ID.
      * 
      * @param {int|string} id - Order ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getOrder(id: number|string){
-        const url = this.origin+"/orders/"+id;
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getOrder(id: number|string, options?: CallOptions){
+        return this.request<OrderResponse>("/orders/"+id, options);
     }
 
     /**
      * Cancels pending order or draft. Charged amount is returned to the store owner's credit card.
      * 
      * @param {int|string} id - Order ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async cancelOrder(id: number|string){
-        const url = this.origin+"/orders/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async cancelOrder(id: number|string, options?: CallOptions){
+        return this.request<OrderResponse>("/orders/"+id, {method: "DELETE", ...options});
     }
 
     /**
@@ -109,57 +186,147 @@ export default class OrdersAPI extends GenericAPI{
      * @param {int|string} id - Order ID (integer) or External ID (if prefixed with `@`)
      * @param {Order} orderData - Update information about the order
      * @param {boolean} confirm - Automatically submit the newly created order for fulfillment (skip the Draft phase)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async updateOrder(id: number|string, orderData: Order, confirm?: boolean){
+    async updateOrder(id: number|string, orderData: Order, confirm?: boolean, options?: CallOptions){
         const params = new URLSearchParams({});
         confirm !== undefined && params.append("confirm", String(confirm));
-        const url = this.origin+"/orders/"+id+"?" + params.toString();
-        const response = await fetch(url, {
-            method: "PUT",
-            headers: this.headers,
-            body: JSON.stringify(orderData)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<OrderResponse>("/orders/"+id, {method: "PUT", params, body: orderData, ...options});
     }
 
     /**
      * Approves for fulfillment an order that was saved as a draft. Store owner's credit card is charged when the order is submitted for fulfillment.
      * 
      * @param {int|string} id - Order ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async confirmOrder(id: number|string){
-        const url = this.origin+"/orders/"+id+"/confirm";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async confirmOrder(id: number|string, options?: CallOptions){
+        return this.request<OrderResponse>("/orders/"+id+"/confirm", {method: "POST", ...options});
+    }
+
+    /**
+     * Polls an order until it reaches a status, e.g. to react to fulfillment without webhooks.
+     * 
+     * The delay between polls starts at `interval`, grows by `backoff` while nothing changes (up to `maxInterval`)
+     * and is reset by every status change or shipment. Network errors, server errors and rate limits are retried on the next poll.
+     * 
+     * @param {int|string} id - Order ID (integer) or External ID (if prefixed with `@`)
+     * @param {OrderWatchOptions} options - Target status, poll intervals, max wait, event callbacks, abort signal and timeout of each poll (optional)
+     * 
+     * @returns {promise} {result, code, error} with the order once it has the status. Fails with reason 'StatusUnreachable'
+     * when the order can no longer reach it (e.g. canceled while waiting for 'fulfilled'), or 'Timeout' after `maxWait`
+     */
+    async watchOrder(id: number|string, options: OrderWatchOptions = {}): Promise<APIResult<OrderResponse>>{
+        const {until = "fulfilled", interval = 5000, maxInterval = 300000, backoff = 1.5, maxWait = 0, onStatusChange, onShipment, ...callOptions} = options;
+        const targets = ([] as Array<OrderStatus>).concat(until);
+        const deadline = maxWait > 0 ? Date.now() + maxWait : Infinity;
+        const shipments = new Set<number>();
+        let previous: OrderStatus | null = null;
+        let delay = interval;
+        for (;;){
+            const current = await settle(this.getOrder(id, callOptions));
+            let changed = false;
+            if (current.error || !current.result){
+                if (!ambiguous(current) && current.code !== 429) return this.settled(current);
+            }
+            else{
+                const order = current.result;
+                if (order.status !== previous){
+                    changed = true;
+                    onStatusChange && onStatusChange({id, order, previous, status: order.status});
+                    previous = order.status;
+                }
+                for (const shipment of order.shipments || []){
+                    if (shipments.has(shipment.id)) continue;
+                    changed = true;
+                    shipments.add(shipment.id);
+                    onShipment && onShipment({id, order, shipment});
+                }
+                if (targets.includes(order.status)) return current;
+                if (!canReach(order.status, targets)){
+                    return this.fail(new PrintfulValidationError("Order " + id + " is " + order.status + " and can no longer become " + targets.join(" or "), {status: 400, reason: "StatusUnreachable"}));
+                }
+            }
+            delay = changed ? interval : Math.min(delay * backoff, maxInterval);
+            const wait = Math.min(delay, deadline - Date.now());
+            if (wait <= 0){
+                return this.fail(new PrintfulTimeoutError("Order " + id + " did not become " + targets.join(" or ") + " within " + maxWait + "ms" + (previous ? ", it is " + previous : ""), {status: 0, reason: "Timeout"}, maxWait));
+            }
+            await pause(wait, callOptions.signal);
+            if (callOptions.signal && callOptions.signal.aborted){
+                return this.fail(new PrintfulAbortError("Watching order " + id + " was aborted", {status: 0, reason: "Aborted"}));
+            }
+        }
+    }
+
+    /**
+     * Polls several orders until each of them reaches a status, see {@link watchOrder}
+     * 
+     * @param {Array<int|string>} ids - Order IDs (integer) or External IDs (if prefixed with `@`)
+     * @param {OrderWatchOptions} options - Target status, poll intervals, max wait, event callbacks, abort signal and timeout of each poll (optional)
+     * 
+     * @returns {promise} {result, code, error} of each order, in the order of `ids`. With `throwOnError` the first failure
+     * is thrown and the other orders are no longer polled
+     */
+    async watchOrders(ids: Array<number|string>, options: OrderWatchOptions = {}){
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        options.signal && options.signal.addEventListener("abort", abort);
+        options.signal && options.signal.aborted && abort();
+        try{
+            return await Promise.all(ids.map((id) => this.watchOrder(id, {...options, signal: controller.signal}).catch((error) => {
+                abort();
+                throw error;
+            })));
+        }
+        finally{
+            options.signal && options.signal.removeEventListener("abort", abort);
+        }
+    }
+
+    /**
+     * Confirms a draft found by {@link submitOrder}, checking its status when the outcome of a confirmation is unknown.
+     * The confirmation only counts as done when the order was submitted, a failed or canceled order returns the failure.
+     */
+    protected async confirmOnce(order: OrderResponse, maxAttempts: number, retryDelay: number, options: CallOptions){
+        let outcome: Settled<OrderResponse>;
+        for (let attempt = 1; ; attempt++){
+            if (attempt > 1 && !await backoff(attempt, retryDelay, options.signal)){
+                return this.fail(new PrintfulAbortError("Confirming order " + order.id + " was aborted", {status: 0, reason: "Aborted"}));
+            }
+            outcome = await settle(this.confirmOrder(order.id, options));
+            if (!outcome.error) return outcome;
+            if (!ambiguous(outcome) && outcome.code !== 400) break;
+            const current = await settle(this.getOrder(order.id, options));
+            if (!current.error && SUBMITTED.includes(current.result.status)) return current;
+            if (!ambiguous(outcome) || attempt >= maxAttempts) break;
+        }
+        return this.settled(outcome);
+    }
+
+    /**
+     * Returns a settled failure, rethrowing its error when `throwOnError` is set
+     */
+    protected settled(outcome: Settled<OrderResponse>): APIResult<OrderResponse>{
+        if (!outcome.error) return outcome;
+        const {thrown, ...failure} = outcome;
+        if (thrown) throw thrown;
+        return failure;
     }
 
     /**
      * Calculates the estimated order costs including item costs, print costs (back prints, inside labels etc.), shipping and taxes
      * 
      * @param {Order} orderData - Information on order for which estimate will be returned
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async estimateOrderCost(orderData: Order){
-        const url = this.origin+"/orders/estimate-costs";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(orderData)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async estimateOrderCost(orderData: Order, options?: CallOptions){
+        return this.request<OrderCostEstimate>("/orders/estimate-costs", {method: "POST", body: orderData, ...options});
     }
 }
\ No newline at end of file
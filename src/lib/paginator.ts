@@ -0,0 +1,81 @@
+import { createPrintfulError } from "./errors";
+import type { PrintfulErrorRequest } from "./errors";
+import type { CallOptions, Paging } from "../types/client";
+import type { APIError } from "../types/response";
+
+export const MAX_PAGE_SIZE = 100;
+
+export type PageResult<T> = {
+    result: Array<T> | null,
+    paging: Paging,
+    code: number,
+    error: APIError | null
+}
+
+export type PaginateOptions = CallOptions & {
+    offset?: number,                        // Offset of the first item. Defaults to 0
+    limit?: number,                         // Page size, capped at 100. Defaults to 100
+    max?: number                            // Stop after this many items
+}
+
+//------------------------------------------------------------------------------------------------------//
+// PAGINATOR
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Walks a list endpoint page by page until `paging.total` is reached.
+ * 
+ * Iterate it with `for await` (breaking out stops fetching), or load every item with `collectAll()`.
+ * A failed page is thrown as a {@link PrintfulError}.
+ */
+export default class Paginator<T = any> implements AsyncIterable<T>{
+    protected fetchPage: (offset: number, limit: number) => Promise<PageResult<T>>
+    protected request: PrintfulErrorRequest
+    protected options: PaginateOptions
+
+    constructor(fetchPage: (offset: number, limit: number) => Promise<PageResult<T>>, request: PrintfulErrorRequest, options: PaginateOptions = {}){
+        this.fetchPage = fetchPage;
+        this.request = request;
+        this.options = options;
+    }
+
+    /**
+     * Yields every page of items
+     */
+    async *pages(): AsyncGenerator<Array<T>>{
+        const limit = Math.min(this.options.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+        const max = this.options.max === undefined ? Infinity : this.options.max;
+        let offset = this.options.offset || 0;
+        let count = 0;
+        while (count < max){
+            const {result, paging, code, error} = await this.fetchPage(offset, Math.min(limit, max - count));
+            if (result === null){
+                throw createPrintfulError(
+                    {status: code, reason: (error && error.reason) || String(code), request: this.request},
+                    (error && error.message) || "Request failed with status " + code
+                );
+            }
+            if (result.length === 0) return;
+            count += result.length;
+            offset += result.length;
+            yield result;
+            if (paging && paging.total !== undefined && offset >= paging.total) return;
+        }
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<T>{
+        for await (const page of this.pages()){
+            yield* page;
+        }
+    }
+
+    /**
+     * Loads every item into an array
+     * 
+     * @returns {promise} Array of items
+     */
+    async collectAll(){
+        const items: Array<T> = [];
+        for await (const item of this) items.push(item);
+        return items;
+    }
+}
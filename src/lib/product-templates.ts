@@ -1,12 +1,14 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
+import type { CallOptions } from "../types/client";
+import type { ProductTemplate, ProductTemplateList } from "../types/template";
 
 //------------------------------------------------------------------------------------------------------//
 // IV. PRODUCT TEMPLATES API
 //------------------------------------------------------------------------------------------------------//
 export default class ProductTemplatesAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns a list of templates.
@@ -14,51 +16,54 @@ export default class ProductTemplatesAPI extends GenericAPI{
      * Query Params:
      * @param {int} offset - Result set offset
      * @param {int} limit - Number of items per page (max 100)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllTemplates(offset?: number, limit?: number){
+    async getAllTemplates(offset?: number, limit?: number, options?: CallOptions){
         const params = new URLSearchParams({});
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit));
-        const url = this.origin+"/product-templates?"+params.toString();
-        const response = await fetch(url, {headers: this.headers});
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<ProductTemplateList>("/product-templates", {params, ...options}, {offset, limit});
         
     }
 
+    /**
+     * Iterates over every template, fetching pages of up to 100 templates as needed
+     * 
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of templates
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllTemplates(options?: PaginateOptions){
+        // templates are listed under `result.items`
+        return this.paginate("/product-templates", async (offset, limit) => {
+            const page = await this.getAllTemplates(offset, limit, options);
+            return {...page, result: page.result && page.result.items};
+        }, options);
+    }
+
     /**
      * Get information about a single product template
      * 
      * @param {int|string} id - Template ID (integer) or External Product ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getTemplate(id:number|string){
-        const url = this.origin+"/product-templates/"+id;
-        const response = await fetch(url, {headers: this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getTemplate(id:number|string, options?: CallOptions){
+        return this.request<ProductTemplate>("/product-templates/"+id, options);
     }
 
     /**
      * Delete product template by ID or External Product ID
      * 
      * @param {int|string} id  - Template ID (integer) or External Product ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async deleteTemplate(id:number|string){
-        const url = this.origin+"/product-templates/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async deleteTemplate(id:number|string, options?: CallOptions){
+        return this.request<object>("/product-templates/"+id, {method: "DELETE", ...options});
     }
 }
\ No newline at end of file
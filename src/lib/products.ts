@@ -1,91 +1,89 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { SyncProduct, OptionalSyncProduct } from '../types/product'
-import type { SyncVariant, OptionalSyncVariant } from '../types/variant';
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
+import type { SyncProduct, OptionalSyncProduct, SyncProductInfo, SyncProductResponse } from '../types/product'
+import type { SyncVariant, OptionalSyncVariant, SyncVariantResponse } from '../types/variant';
+import type { CallOptions } from "../types/client";
 
 //------------------------------------------------------------------------------------------------------//
 // III. PRODUCTS API
 //------------------------------------------------------------------------------------------------------//
 export default class ProductsAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns a list of Sync Product objects from your custom Printful store.
      * 
+     * With an account level token a store must be selected, see {@link PrintfulAccountClient.forStore}
+     * 
      * Params:
      * @param {int} [offset=0] - Offset for Paging
      * @param {int} [limit=20] - Limit items for Paging
      * ----------------------------------------------------------------
      * Optional Params:
      * @param {string} [category_id] - (Optional) A comma-separated list of Category IDs of the Products that are to be returned
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllSyncProducts(offset?: number, limit?: number, category_id?: string){
+    async getAllSyncProducts(offset?: number, limit?: number, category_id?: string, options?: CallOptions){
         const params = new URLSearchParams({});
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit));
         category_id && params.append("category_id", category_id);
-        const url = this.origin+"/store/products?" + params.toString();
-        const response = await fetch(url, {headers:this.headers});
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<Array<SyncProductResponse>>("/store/products", {params, store: true, ...options}, {offset, limit});
+    }
+
+    /**
+     * Iterates over every Sync Product from your custom Printful store, fetching pages of up to 100 products as needed
+     * 
+     * @param {string} [category_id] - (Optional) A comma-separated list of Category IDs of the Products that are to be returned
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of products
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllSyncProducts(category_id?: string, options?: PaginateOptions){
+        return this.paginate("/store/products", (offset, limit) => this.getAllSyncProducts(offset, limit, category_id, options), options);
     }
 
     /**
      * Creates a new Sync Product together with its Sync Variants. See Examples: {@link https://developers.printful.com/docs/?_gl=1*1sbmfdi*_ga*NDMzMTM2Mjk0LjE2ODcyMzU3MDc.*_ga_EZ4XVRL864*MTY4ODc3OTM1NC4xMi4xLjE2ODg3ODEwMzYuMTAuMC4w#section/Products-API-examples/Create-a-new-Sync-Product Link}
      * 
+     * With an account level token a store must be selected, see {@link PrintfulAccountClient.forStore}
+     * 
      * Params:
      * @param {SyncProduct} sync_product - Information about the SyncProduct
      * @param {Array<SyncVariant>} sync_variants - Information about the Sync Variants
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async createSyncProduct(sync_product: SyncProduct, sync_variants: Array<SyncVariant>){
-        const url = this.origin+"/store/products";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify({sync_product, sync_variants})
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async createSyncProduct(sync_product: SyncProduct, sync_variants: Array<SyncVariant>, options?: CallOptions){
+        return this.request<SyncProductResponse>("/store/products", {method: "POST", body: {sync_product, sync_variants}, store: true, ...options});
     }
 
     /**
      * Get information about a single Sync Product and its Sync Variants.
      * 
      * @param {int|string} id - Sync Product ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getSyncProduct(id: number | string){
-        const url = this.origin+"/store/products/"+id;
-        const response = await fetch(url, {headers:this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getSyncProduct(id: number | string, options?: CallOptions){
+        return this.request<SyncProductInfo>("/store/products/"+id, options);
     }
 
     /**
      * Deletes a Sync Product with all of its Sync Variants.
      * 
      * @param {int|string} id - Sync Product ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async deleteSyncProduct(id: number | string){
-        const url = this.origin+"/store/products/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers:this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async deleteSyncProduct(id: number | string, options?: CallOptions){
+        return this.request<SyncProductInfo>("/store/products/"+id, {method: "DELETE", ...options});
     }
 
     /**
@@ -97,52 +95,36 @@ export default class ProductsAPI extends GenericAPI{
      * @param {int|string} id - Sync Product ID (integer) or External ID (if prefixed with `@`)
      * @param {OptionalSyncProduct} sync_product - Information about the SyncProduct
      * @param {Array<OptionalSyncVariant>} sync_variants - Information about the Sync Variants
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async modifySyncProduct(id: number | string, sync_product?: OptionalSyncProduct, sync_variants?: Array<OptionalSyncVariant>){
-        const url = this.origin+"/store/products/"+id;
-        const response = await fetch(url, {
-            method: "PUT",
-            headers: this.headers,
-            body: JSON.stringify({sync_product, sync_variants})
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async modifySyncProduct(id: number | string, sync_product?: OptionalSyncProduct, sync_variants?: Array<OptionalSyncVariant>, options?: CallOptions){
+        return this.request<SyncProductResponse>("/store/products/"+id, {method: "PUT", body: {sync_product, sync_variants}, ...options});
     }
 
     /**
      * Get information about a single Sync Variant.
 
      * @param {int|string} id -  Sync Variant ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      *
      * @returns {promise} {result, code, error}
      */
-    async getSyncVariant(id: number | string){
-        const url = this.origin+"/store/variants/"+id;
-        const response = await fetch(url, {headers: this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getSyncVariant(id: number | string, options?: CallOptions){
+        return this.request<SyncVariantResponse>("/store/variants/"+id, options);
     }
     
     /**
      * Deletes a single Sync Variant.
      * 
      * @param {int|string} id - Sync Variant ID (integer) or External ID (if prefixed with `@`)
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async deleteSyncVariant(id: number | string){
-        const url = this.origin+"/store/variants/"+id;
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async deleteSyncVariant(id: number | string, options?: CallOptions){
+        return this.request<object>("/store/variants/"+id, {method: "DELETE", ...options});
     }
 
     /**
@@ -152,19 +134,12 @@ export default class ProductsAPI extends GenericAPI{
      * {@link https://developers.printful.com/docs/?_gl=1*1sbmfdi*_ga*NDMzMTM2Mjk0LjE2ODcyMzU3MDc.*_ga_EZ4XVRL864*MTY4ODc3OTM1NC4xMi4xLjE2ODg3ODEwMzYuMTAuMC4w#section/Products-API-examples/Modify-a-Sync-Variant See examples}
      * @param {int|string} id - Sync Variant ID (integer) or External ID (if prefixed with `@`)
      * @param {OptionalSyncVariant} sync_variant - Information about the Sync Variant
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      *
      * @returns {promise} {result, code, error}
      */
-    async modifySyncVariant(id: number | string, sync_variant: OptionalSyncVariant){
-        const url = this.origin+"/store/variants/"+id;
-        const response = await fetch(url, {
-            method: "PUT",
-            body: JSON.stringify(sync_variant),
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async modifySyncVariant(id: number | string, sync_variant: OptionalSyncVariant, options?: CallOptions){
+        return this.request<SyncVariantResponse>("/store/variants/"+id, {method: "PUT", body: sync_variant, ...options});
     }
 
     /**
@@ -173,18 +148,11 @@ export default class ProductsAPI extends GenericAPI{
      * 
      * @param {int|string} id - Sync Product ID (integer) or External ID (if prefixed with `@`)
      * @param {SyncVariant} sync_variant - Information about the Sync Variant
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async createSyncVariant(id: number | string, sync_variant: SyncVariant){
-        const url = this.origin+"/store/products/"+id+"/variants";
-        const response = await fetch(url, {
-            method: "POST",
-            body: JSON.stringify(sync_variant),
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async createSyncVariant(id: number | string, sync_variant: SyncVariant, options?: CallOptions){
+        return this.request<SyncVariantResponse>("/store/products/"+id+"/variants", {method: "POST", body: sync_variant, ...options});
     }
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import type { HttpMethod, RateLimitOptions, RateLimitRule, RetryOptions } from "../types/client";
+
+/**
+ * Documented Printful limits. The first matching rule decides the bucket of a request.
+ */
+export const DEFAULT_RATE_LIMIT_RULES: Array<RateLimitRule> = [
+    {name: "mockup-generator", method: "POST", pattern: /^\/mockup-generator\/create-task\//, limit: 10, interval: 60000},
+    {name: "modify-sync-product", method: "PUT", pattern: /^\/store\/products\/[^/]+$/, limit: 10, interval: 60000},
+    {name: "default", pattern: /.*/, limit: 120, interval: 60000},
+];
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelay: 1000,
+    maxDelay: 60000,
+    jitter: 0.2
+};
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal){
+    return new Promise<void>((resolve, reject) => {
+        const aborted = () => {
+            clearTimeout(timer);
+            reject(Object.assign(new Error("The operation was aborted."), {name: "AbortError"}));
+        };
+        const timer = setTimeout(() => {
+            signal && signal.removeEventListener("abort", aborted);
+            resolve();
+        }, ms);
+        signal && (signal.aborted ? aborted() : signal.addEventListener("abort", aborted));
+    });
+}
+
+type Bucket = {
+    rule: RateLimitRule,
+    sent: Array<number>,        // timestamps of requests sent within the current interval
+    blockedUntil: number        // set from rate limit headers, no request is sent before this time
+}
+
+//------------------------------------------------------------------------------------------------------//
+// RATE LIMITER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Throttles requests per endpoint bucket and computes retry delays for rate limited (429) responses.
+ */
+export default class RateLimiter{
+    protected enabled: boolean
+    protected rules: Array<RateLimitRule>
+    protected buckets: Map<string, Bucket>
+    public retry: Required<RetryOptions>
+
+    constructor(rateLimit: RateLimitOptions | false = {}, retry: RetryOptions = {}){
+        this.enabled = rateLimit !== false;
+        this.rules = [...((rateLimit && rateLimit.rules) || []), ...DEFAULT_RATE_LIMIT_RULES];
+        this.buckets = new Map();
+        this.retry = {...DEFAULT_RETRY_OPTIONS, ...retry};
+    }
+
+    /**
+     * Returns the name of the bucket a request belongs to
+     */
+    bucket(method: HttpMethod, path: string){
+        const rule = this.rules.find((rule) => (!rule.method || rule.method === method) && rule.pattern.test(path)) as RateLimitRule;
+        this.buckets.has(rule.name) || this.buckets.set(rule.name, {rule, sent: [], blockedUntil: 0});
+        return rule.name;
+    }
+
+    /**
+     * Waits until a request may be sent without exceeding the limit of its bucket
+     * 
+     * @param {string} name - Bucket name
+     * @param {AbortSignal} signal - Stops waiting, the returned promise then rejects with an AbortError (optional)
+     */
+    async acquire(name: string, signal?: AbortSignal){
+        const bucket = this.buckets.get(name);
+        if (!this.enabled || !bucket) return;
+        for (;;){
+            const now = Date.now();
+            bucket.sent = bucket.sent.filter((time) => time > now - bucket.rule.interval);
+            const wait = Math.max(
+                bucket.blockedUntil - now,
+                bucket.sent.length >= bucket.rule.limit ? bucket.sent[0] + bucket.rule.interval - now : 0
+            );
+            if (wait <= 0) break;
+            await sleep(wait, signal);
+        }
+        bucket.sent.push(Date.now());
+    }
+
+    /**
+     * Reads the `X-Ratelimit-*` headers of a response and blocks the bucket when no requests remain
+     */
+    update(name: string, headers?: Headers){
+        const bucket = this.buckets.get(name);
+        if (!bucket || !headers) return;
+        const remaining = headers.get("x-ratelimit-remaining");
+        const reset = headers.get("x-ratelimit-reset");
+        if (remaining !== null && Number(remaining) <= 0 && reset !== null){
+            bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + Number(reset) * 1000);
+        }
+    }
+
+    /**
+     * Computes how long to wait before retrying a rate limited request.
+     * 
+     * Uses `Retry-After` or `X-Ratelimit-Reset` when present, exponential backoff otherwise, plus random jitter.
+     * 
+     * @param {number} attempt - Number of the attempt that was rate limited, starting at 1
+     * @param {Headers} headers - Headers of the rate limited response
+     * 
+     * @returns {number} delay in milliseconds
+     */
+    retryDelay(attempt: number, headers?: Headers){
+        const {baseDelay, maxDelay, jitter} = this.retry;
+        const hinted = headers && (headers.get("retry-after") || headers.get("x-ratelimit-reset"));
+        const delay = hinted && !isNaN(Number(hinted))
+            ? Number(hinted) * 1000
+            : Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+        return Math.round(delay + delay * jitter * Math.random());
+    }
+}
@@ -1,13 +1,14 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type Transport from "./transport";
 import type { RawDateString } from "../types/date";
+import type { CallOptions } from "../types/client";
+import type { ReportStatistics } from "../types/report";
 
 //------------------------------------------------------------------------------------------------------//
 // XV. REPORTS API
 //------------------------------------------------------------------------------------------------------//
 export default class ReportsAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns statistics for specified report types.
@@ -16,18 +17,13 @@ export default class ReportsAPI extends GenericAPI{
      * @param {RawDateString} date_to - Example: date_to=2022-08-31, The end of the period to get the statistics from (date in Y-m-d format).
      * @param {string} currency - Example: currency=USD, The currency (3-letter code) to return the statistics in. You can also specify display_currency as the value to get the statistics in the account's display currency. The store currency will be used by default.
      * @param {string} report_types - Example: report_types=sales_and_costs,profit; A comma-separated list of report types to be retrieved.
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getStats(date_from: RawDateString , date_to: RawDateString, report_types: string, currency?: string){
+    async getStats(date_from: RawDateString , date_to: RawDateString, report_types: string, currency?: string, options?: CallOptions){
         const params = new URLSearchParams({date_from, date_to, report_types});
         currency && params.append("currency", currency);
-        const url = this.origin + "/reports/statistics?"+params.toString();
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+        return this.request<ReportStatistics>("/reports/statistics", {params, ...options});
     }
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import type { CallOptions, HttpMethod, QueueOptions, QueuePriority, QueueRule } from "../types/client";
+
+const PRIORITIES: Record<QueuePriority, number> = {high: 2, normal: 1, low: 0};
+
+type QueuedTask = {
+    priority: number,
+    group?: string,             // name of the matching rule
+    start: () => void
+}
+
+//------------------------------------------------------------------------------------------------------//
+// REQUEST QUEUE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Limits the requests of a client in flight, overall and per endpoint group.
+ *
+ * Waiting requests start by priority, then in the order they were made. A request whose group is at its limit
+ * does not hold back requests of other groups.
+ */
+export default class RequestQueue{
+    public concurrency: number
+    protected rules: Array<QueueRule>
+    protected waiting: Array<QueuedTask>
+    protected running: number
+    protected groups: Map<string, number>   // requests in flight per group
+    protected paused: boolean
+    protected idle: Array<() => void>       // resolves drain() calls
+
+    constructor(options: QueueOptions = {}){
+        this.concurrency = options.concurrency || Infinity;
+        this.rules = options.rules || [];
+        this.waiting = [];
+        this.running = 0;
+        this.groups = new Map();
+        this.paused = false;
+        this.idle = [];
+    }
+
+    /** Requests waiting for a slot */
+    get size(){
+        return this.waiting.length;
+    }
+
+    /** Requests in flight */
+    get pending(){
+        return this.running;
+    }
+
+    get isPaused(){
+        return this.paused;
+    }
+
+    /**
+     * Runs a task once a slot is free. A task whose signal aborts while it waits is run right away, so it can fail.
+     *
+     * @param {HttpMethod} method - Request method, matched against the rules
+     * @param {string} path - Request path, matched against the rules
+     * @param {function} task - Sends the request
+     * @param {CallOptions} options - priority and signal of the call
+     *
+     * @returns {promise} result of the task
+     */
+    run<T>(method: HttpMethod, path: string, task: () => Promise<T>, {priority = "normal", signal}: CallOptions = {}){
+        const rule = this.rules.find((rule) => (!rule.method || rule.method === method) && rule.pattern.test(path));
+        return new Promise<T>((resolve, reject) => {
+            const execute = (counted: boolean) => {
+                signal && signal.removeEventListener("abort", abort);
+                counted && this.acquire(entry.group);
+                task().then(resolve, reject).finally(() => {
+                    counted && this.release(entry.group);
+                    this.next();
+                });
+            };
+            const entry: QueuedTask = {priority: PRIORITIES[priority], group: rule && rule.name, start: () => execute(true)};
+            const abort = () => {
+                const index = this.waiting.indexOf(entry);
+                if (index === -1) return;
+                this.waiting.splice(index, 1);
+                execute(false);
+            };
+            signal && signal.addEventListener("abort", abort);
+            const index = this.waiting.findIndex((other) => other.priority < entry.priority);
+            index === -1 ? this.waiting.push(entry) : this.waiting.splice(index, 0, entry);
+            this.next();
+        });
+    }
+
+    /**
+     * Stops starting waiting requests, requests in flight complete
+     */
+    pause(){
+        this.paused = true;
+    }
+
+    /**
+     * Starts waiting requests again after {@link pause}
+     */
+    resume(){
+        this.paused = false;
+        this.next();
+    }
+
+    /**
+     * Waits until no request is waiting or in flight. While paused, waits for {@link resume}.
+     *
+     * @returns {promise} resolved once the queue is empty
+     */
+    drain(){
+        return new Promise<void>((resolve) => {
+            this.idle.push(resolve);
+            this.next();
+        });
+    }
+
+    protected acquire(group?: string){
+        this.running++;
+        group && this.groups.set(group, (this.groups.get(group) || 0) + 1);
+    }
+
+    protected release(group?: string){
+        this.running--;
+        group && this.groups.set(group, (this.groups.get(group) || 1) - 1);
+    }
+
+    protected available(group?: string){
+        if (!group) return true;
+        const rule = this.rules.find((rule) => rule.name === group) as QueueRule;
+        return (this.groups.get(group) || 0) < rule.concurrency;
+    }
+
+    /**
+     * Starts waiting requests while slots are free, then resolves drain() calls when the queue is empty and not paused
+     */
+    protected next(){
+        while (!this.paused && this.running < this.concurrency){
+            const index = this.waiting.findIndex((entry) => this.available(entry.group));
+            if (index === -1) break;
+            const [entry] = this.waiting.splice(index, 1);
+            entry.start();
+        }
+        if (!this.paused && !this.waiting.length && !this.running){
+            this.idle.splice(0).forEach((resolve) => resolve());
+        }
+    }
+}
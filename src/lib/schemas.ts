@@ -0,0 +1,261 @@
+import type { Schema, SchemaIssue, SchemaRule } from "../types/validation";
+
+/**
+ * Type of a received value as reported in schema issues
+ */
+function typeOf(value: unknown){
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function primitive(expected: string): Schema{
+    return {
+        expected,
+        check(value, path, issues){
+            typeOf(value) !== expected && issues.push({path, expected, received: value === undefined ? "missing" : typeOf(value)});
+        }
+    };
+}
+
+//------------------------------------------------------------------------------------------------------//
+// SCHEMA BUILDERS
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Builders of response schemas. Objects only check the listed fields, so new fields added by Printful are not reported.
+ */
+export const schema = {
+    string: () => primitive("string"),
+    number: () => primitive("number"),
+    boolean: () => primitive("boolean"),
+
+    any(): Schema{
+        return {expected: "any", check(){}};
+    },
+
+    oneOf(...values: Array<string | number>): Schema{
+        const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+        return {
+            expected,
+            check(value, path, issues){
+                !values.includes(value as string | number) && issues.push({path, expected, received: value === undefined ? "missing" : JSON.stringify(value)});
+            }
+        };
+    },
+
+    nullable(inner: Schema): Schema{
+        const expected = inner.expected + " | null";
+        return {
+            expected,
+            optional: inner.optional,
+            check(value, path, issues){
+                if (value === null) return;
+                const found: Array<SchemaIssue> = [];
+                inner.check(value, path, found);
+                // mismatches of the value itself also accept null
+                found.forEach((issue) => issues.push(issue.path === path ? {...issue, expected} : issue));
+            }
+        };
+    },
+
+    optional(inner: Schema): Schema{
+        return {
+            expected: inner.expected,
+            optional: true,
+            check(value, path, issues){
+                value !== undefined && inner.check(value, path, issues);
+            }
+        };
+    },
+
+    array(item: Schema): Schema{
+        const expected = "array<" + item.expected + ">";
+        return {
+            expected,
+            check(value, path, issues){
+                if (!Array.isArray(value)) return void issues.push({path, expected, received: value === undefined ? "missing" : typeOf(value)});
+                value.forEach((element, index) => item.check(element, path + "[" + index + "]", issues));
+            }
+        };
+    },
+
+    object(shape: Record<string, Schema>): Schema{
+        return {
+            expected: "object",
+            check(value, path, issues){
+                if (typeOf(value) !== "object") return void issues.push({path, expected: "object", received: value === undefined ? "missing" : typeOf(value)});
+                const fields = value as Record<string, unknown>;
+                for (const [key, field] of Object.entries(shape)){
+                    if (fields[key] === undefined && field.optional) continue;
+                    field.check(fields[key], path + "." + key, issues);
+                }
+            }
+        };
+    }
+};
+
+/**
+ * Checks a value against a schema
+ * 
+ * @param {Schema} valueSchema - Expected shape
+ * @param {unknown} value - Received value
+ * @param {string} path - Name of the value in issue paths. Defaults to 'result'
+ * 
+ * @returns {Array<SchemaIssue>} issues, empty when the value matches
+ */
+export function validateSchema(valueSchema: Schema, value: unknown, path = "result"){
+    const issues: Array<SchemaIssue> = [];
+    valueSchema.check(value, path, issues);
+    return issues;
+}
+
+//------------------------------------------------------------------------------------------------------//
+// RESPONSE SCHEMAS
+//------------------------------------------------------------------------------------------------------//
+const {string, number, boolean, oneOf, nullable, optional, array, object} = schema;
+
+const ORDER_COSTS = object({
+    currency: string(),
+    subtotal: string(),
+    shipping: string(),
+    tax: string(),
+    total: string()
+});
+
+const ORDER = object({
+    id: number(),
+    external_id: nullable(string()),
+    store: number(),
+    status: oneOf("draft", "pending", "failed", "canceled", "inprocess", "onhold", "partial", "fulfilled", "archived"),
+    shipping: string(),
+    created: number(),
+    updated: number(),
+    recipient: object({}),
+    items: array(object({id: number(), quantity: number(), files: array(object({id: number()}))})),
+    costs: ORDER_COSTS,
+    retail_costs: object({}),
+    shipments: array(object({
+        id: number(),
+        carrier: string(),
+        service: string(),
+        tracking_url: string(),
+        items: array(object({item_id: number(), quantity: number()}))
+    }))
+});
+
+const CATALOG_PRODUCT = object({
+    id: number(),
+    type: string(),
+    title: string(),
+    image: string(),
+    variant_count: number(),
+    currency: string(),
+    is_discontinued: boolean()
+});
+
+const CATALOG_VARIANT = object({
+    id: number(),
+    product_id: number(),
+    name: string(),
+    size: string(),
+    price: string(),
+    in_stock: boolean()
+});
+
+const CATEGORY = object({id: number(), parent_id: number(), title: string()});
+
+const SYNC_PRODUCT = object({
+    id: number(),
+    external_id: string(),
+    name: string(),
+    variants: number(),
+    synced: number(),
+    thumbnail_url: optional(nullable(string())),
+    is_ignored: boolean()
+});
+
+const SYNC_VARIANT = object({
+    id: number(),
+    sync_product_id: number(),
+    name: string(),
+    synced: boolean(),
+    variant_id: number(),
+    retail_price: nullable(string()),
+    files: array(object({id: number()}))
+});
+
+const SYNC_PRODUCT_INFO = object({sync_product: SYNC_PRODUCT, sync_variants: array(SYNC_VARIANT)});
+
+const FILE = object({
+    id: number(),
+    type: string(),
+    size: number(),
+    status: oneOf("ok", "waiting", "failed"),
+    created: number(),
+    visible: boolean()
+});
+
+const MOCKUP_TASK_STATUS = oneOf("pending", "completed", "failed");
+
+const STORE = object({id: number(), type: string(), name: string()});
+
+const STATES = nullable(array(object({code: string(), name: string()})));
+
+const PRODUCT_TEMPLATE = object({id: number(), product_id: number(), title: string(), available_variant_ids: array(number())});
+
+const WAREHOUSE_PRODUCT = object({id: number(), name: string(), status: string()});
+
+const WEBHOOKS = object({url: nullable(string()), types: array(string())});
+
+/**
+ * Schemas of the results of every endpoint returning a documented model. The first matching rule applies.
+ */
+export const DEFAULT_SCHEMA_RULES: Array<SchemaRule> = [
+    {name: "orders.getAllOrders", method: "GET", pattern: /^\/orders$/, schema: array(ORDER)},
+    {name: "orders.createOrder", method: "POST", pattern: /^\/orders$/, schema: ORDER},
+    {name: "orders.estimateOrderCost", method: "POST", pattern: /^\/orders\/estimate-costs$/, schema: object({costs: ORDER_COSTS, retail_costs: object({})})},
+    {name: "orders.confirmOrder", method: "POST", pattern: /^\/orders\/[^/]+\/confirm$/, schema: ORDER},
+    {name: "orders.getOrder", method: "GET", pattern: /^\/orders\/[^/]+$/, schema: ORDER},
+    {name: "orders.updateOrder", method: "PUT", pattern: /^\/orders\/[^/]+$/, schema: ORDER},
+    {name: "orders.cancelOrder", method: "DELETE", pattern: /^\/orders\/[^/]+$/, schema: ORDER},
+    {name: "catalog.getAllProducts", method: "GET", pattern: /^\/products$/, schema: array(CATALOG_PRODUCT)},
+    {name: "catalog.getVariant", method: "GET", pattern: /^\/products\/variant\/[^/]+$/, schema: object({variant: CATALOG_VARIANT, product: CATALOG_PRODUCT})},
+    {name: "catalog.getSize", method: "GET", pattern: /^\/products\/[^/]+\/sizes$/, schema: object({product_id: number(), available_sizes: array(string()), size_tables: array(object({}))})},
+    {name: "catalog.getProduct", method: "GET", pattern: /^\/products\/[^/]+$/, schema: object({product: CATALOG_PRODUCT, variants: array(CATALOG_VARIANT)})},
+    {name: "catalog.getAllCategories", method: "GET", pattern: /^\/categories\/?$/, schema: object({categories: array(CATEGORY)})},
+    {name: "catalog.getCategory", method: "GET", pattern: /^\/categories\/[^/]+$/, schema: object({category: CATEGORY})},
+    {name: "products.getAllSyncProducts", method: "GET", pattern: /^\/store\/products$/, schema: array(SYNC_PRODUCT)},
+    {name: "products.createSyncProduct", method: "POST", pattern: /^\/store\/products$/, schema: SYNC_PRODUCT},
+    {name: "products.createSyncVariant", method: "POST", pattern: /^\/store\/products\/[^/]+\/variants$/, schema: SYNC_VARIANT},
+    {name: "products.modifySyncProduct", method: "PUT", pattern: /^\/store\/products\/[^/]+$/, schema: SYNC_PRODUCT},
+    {name: "products.getSyncProduct", method: "GET", pattern: /^\/store\/products\/[^/]+$/, schema: SYNC_PRODUCT_INFO},
+    {name: "products.deleteSyncProduct", method: "DELETE", pattern: /^\/store\/products\/[^/]+$/, schema: SYNC_PRODUCT_INFO},
+    {name: "products.getSyncVariant", method: "GET", pattern: /^\/store\/variants\/[^/]+$/, schema: SYNC_VARIANT},
+    {name: "products.modifySyncVariant", method: "PUT", pattern: /^\/store\/variants\/[^/]+$/, schema: SYNC_VARIANT},
+    {name: "ecommerceSync.getAllEcommProducts", method: "GET", pattern: /^\/sync\/products$/, schema: array(SYNC_PRODUCT)},
+    {name: "ecommerceSync.getEcommProduct", method: "GET", pattern: /^\/sync\/products\/[^/]+$/, schema: SYNC_PRODUCT_INFO},
+    {name: "ecommerceSync.deleteEcommProduct", method: "DELETE", pattern: /^\/sync\/products\/[^/]+$/, schema: SYNC_PRODUCT_INFO},
+    {name: "ecommerceSync.getEcommVariant", method: "GET", pattern: /^\/sync\/variant\/[^/]+$/, schema: object({sync_variant: SYNC_VARIANT, sync_product: SYNC_PRODUCT})},
+    {name: "ecommerceSync.modifyEcommVariant", method: "PUT", pattern: /^\/sync\/variant\/[^/]+$/, schema: object({sync_variant: SYNC_VARIANT, sync_product: SYNC_PRODUCT})},
+    {name: "fileLibrary.getThreadColors", method: "POST", pattern: /^\/files\/thread-colors$/, schema: object({thread_colors: array(string())})},
+    {name: "fileLibrary.addFile", method: "POST", pattern: /^\/files$/, schema: FILE},
+    {name: "fileLibrary.getFile", method: "GET", pattern: /^\/files\/[^/]+$/, schema: FILE},
+    {name: "mockupGenerator.createMockupTask", method: "POST", pattern: /^\/mockup-generator\/create-task\/[^/]+$/, schema: object({task_key: string(), status: MOCKUP_TASK_STATUS})},
+    {name: "mockupGenerator.getMockupTaskResult", method: "GET", pattern: /^\/mockup-generator\/task$/, schema: object({
+        task_key: string(),
+        status: MOCKUP_TASK_STATUS,
+        mockups: optional(array(object({placement: string(), variant_ids: array(number()), mockup_url: string()})))
+    })},
+    {name: "shippingRate.calculateShipping", method: "POST", pattern: /^\/shipping\/rates$/, schema: array(object({id: string(), name: string(), rate: string(), currency: string()}))},
+    {name: "countryCodes.getCountryList", method: "GET", pattern: /^\/countries$/, schema: array(object({code: string(), name: string(), states: STATES}))},
+    {name: "taxRate.getCountryTaxList", method: "GET", pattern: /^\/tax\/countries$/, schema: array(object({code: string(), name: string(), states: STATES}))},
+    {name: "taxRate.calcTax", method: "POST", pattern: /^\/tax\/rates$/, schema: object({required: boolean(), rate: number(), shipping_taxable: boolean()})},
+    {name: "webhook.getWebhookConfig", method: "GET", pattern: /^\/webhooks$/, schema: WEBHOOKS},
+    {name: "webhook.setWebhookConfig", method: "POST", pattern: /^\/webhooks$/, schema: WEBHOOKS},
+    {name: "storeInformation.getAllStoresInfo", method: "GET", pattern: /^\/stores$/, schema: array(STORE)},
+    {name: "storeInformation.getStoreInfo", method: "GET", pattern: /^\/stores\/[^/]+$/, schema: STORE},
+    {name: "productTemplates.getAllTemplates", method: "GET", pattern: /^\/product-templates$/, schema: object({items: array(PRODUCT_TEMPLATE)})},
+    {name: "productTemplates.getTemplate", method: "GET", pattern: /^\/product-templates\/[^/]+$/, schema: PRODUCT_TEMPLATE},
+    {name: "warehouseProducts.getAllWarehouseProducts", method: "GET", pattern: /^\/warehouse\/products$/, schema: array(WAREHOUSE_PRODUCT)},
+    {name: "warehouseProducts.getWarehouseProduct", method: "GET", pattern: /^\/warehouse\/products\/[^/]+$/, schema: WAREHOUSE_PRODUCT},
+];
@@ -0,0 +1,159 @@
+import { createPrintfulError, MissingScopeError } from "./errors";
+import type OAuthAPI from "./oauth";
+
+/**
+ * Scope required by each SDK method, `null` when any valid token may call it.
+ * 
+ * A write scope (e.g. `orders`) also grants its read scope (`orders/read`).
+ */
+export const METHOD_SCOPES = {
+    "oauth.getScopes": null,
+
+    "catalog.getAllProducts": null,
+    "catalog.getVariant": null,
+    "catalog.getProduct": null,
+    "catalog.getSize": null,
+    "catalog.getAllCategories": null,
+    "catalog.getCategory": null,
+
+    "products.getAllSyncProducts": "sync_products/read",
+    "products.createSyncProduct": "sync_products",
+    "products.getSyncProduct": "sync_products/read",
+    "products.deleteSyncProduct": "sync_products",
+    "products.modifySyncProduct": "sync_products",
+    "products.getSyncVariant": "sync_products/read",
+    "products.deleteSyncVariant": "sync_products",
+    "products.modifySyncVariant": "sync_products",
+    "products.createSyncVariant": "sync_products",
+
+    "productTemplates.getAllTemplates": "product_templates/read",
+    "productTemplates.getTemplate": "product_templates/read",
+    "productTemplates.deleteTemplate": "product_templates",
+
+    "orders.getAllOrders": "orders/read",
+    "orders.createOrder": "orders",
+    "orders.getOrder": "orders/read",
+    "orders.cancelOrder": "orders",
+    "orders.updateOrder": "orders",
+    "orders.confirmOrder": "orders",
+    "orders.submitOrder": "orders",
+    "orders.watchOrder": "orders/read",
+    "orders.watchOrders": "orders/read",
+    "orders.estimateOrderCost": "orders",
+
+    "fileLibrary.addFile": "file_library",
+    "fileLibrary.getFile": "file_library/read",
+    "fileLibrary.getThreadColors": "file_library",
+
+    "shippingRate.calculateShipping": null,
+    "shippingRate.selectShipping": null,
+
+    "ecommerceSync.getAllEcommProducts": "sync_products/read",
+    "ecommerceSync.getEcommProduct": "sync_products/read",
+    "ecommerceSync.deleteEcommProduct": "sync_products",
+    "ecommerceSync.getEcommVariant": "sync_products/read",
+    "ecommerceSync.modifyEcommVariant": "sync_products",
+    "ecommerceSync.deleteEcommVariant": "sync_products",
+
+    "countryCodes.getCountryList": null,
+
+    "taxRate.getCountryTaxList": null,
+    "taxRate.calcTax": null,
+
+    "webhook.getWebhookConfig": "webhooks",
+    "webhook.setWebhookConfig": "webhooks",
+    "webhook.disableWebhookSupport": "webhooks",
+
+    "storeInformation.changePackingSlip": "stores_list",
+    "storeInformation.getAllStoresInfo": "stores_list/read",
+    "storeInformation.getStoreInfo": "stores_list/read",
+
+    "mockupGenerator.createMockupTask": null,
+    "mockupGenerator.getProductVariantPrintFiles": null,
+    "mockupGenerator.getMockupTaskResult": null,
+    "mockupGenerator.getLayoutTemplates": null,
+
+    "warehouseProducts.getAllWarehouseProducts": null,
+    "warehouseProducts.getWarehouseProduct": null,
+
+    "reports.getStats": null,
+
+    "approvalSheets.getApprovalSheets": null,
+    "approvalSheets.approveDesign": null,
+    "approvalSheets.changeApprovalSheet": null,
+} as const;
+
+export type ScopedMethod = keyof typeof METHOD_SCOPES;
+
+/**
+ * Checks whether the granted scopes include the required one, write scopes include their read scope
+ * 
+ * @param {Array<string>} granted - Scopes of the token
+ * @param {string|null} required - Required scope
+ * 
+ * @returns {boolean}
+ */
+export function hasScope(granted: Array<string>, required: string | null){
+    if (!required) return true;
+    return granted.includes(required) || (required.endsWith("/read") && granted.includes(required.slice(0, -"/read".length)));
+}
+
+//------------------------------------------------------------------------------------------------------//
+// SCOPE GUARD
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Loads the scopes of the token once with {@link OAuthAPI.getScopes} and checks SDK methods against them
+ */
+export default class ScopeGuard{
+    protected oauth: OAuthAPI
+    protected granted: Promise<Array<string>> | null = null
+
+    constructor(oauth: OAuthAPI){
+        this.oauth = oauth;
+    }
+
+    /**
+     * Returns the scopes of the token, loading them on the first call
+     * 
+     * @returns {promise} Array of scope values, e.g. ['orders', 'sync_products/read']
+     */
+    getScopes(){
+        this.granted = this.granted || this.oauth.getScopes().then(({result, code, error}) => {
+            if (!result){
+                this.granted = null;
+                throw createPrintfulError({status: code, reason: (error && error.reason) || String(code)}, "Could not load the scopes of the token: " + (error ? error.message : "Request failed with status " + code));
+            }
+            return (result.scopes as Array<{value: string}>).map((scope) => scope.value);
+        });
+        return this.granted;
+    }
+
+    /**
+     * Forgets the cached scopes, e.g. after the token changed
+     */
+    reset(){
+        this.granted = null;
+    }
+
+    /**
+     * Whether the token has the scope required by the given SDK method
+     * 
+     * @param {string} method - SDK method, e.g. 'orders.createOrder'
+     * 
+     * @returns {promise} boolean
+     */
+    async canCall(method: ScopedMethod){
+        return hasScope(await this.getScopes(), METHOD_SCOPES[method]);
+    }
+
+    /**
+     * Throws a {@link MissingScopeError} when the token lacks the scope required by the given SDK method
+     * 
+     * @param {string} method - SDK method, e.g. 'orders.createOrder'
+     */
+    async check(method: ScopedMethod){
+        const required = METHOD_SCOPES[method];
+        const granted = await this.getScopes();
+        if (!hasScope(granted, required)) throw new MissingScopeError(method, required as string, granted);
+    }
+}
@@ -1,30 +1,106 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { ShippingInfo } from "../types/shipping";
+import { PrintfulValidationError } from "./errors";
+import type Transport from "./transport";
+import type { ShippingInfo, ShippingItem, ShippingPolicy, ShippingRate, ShippingRecipient, ShippingSelectOptions, ShippingSelection } from "../types/shipping";
+import type { CallOptions } from "../types/client";
+import type { Order, OrderItem } from "../types/order";
+import type { APIFailure, APIResult } from "../types/response";
+import type { SyncVariantResponse } from "../types/variant";
+
+const RECIPIENT_FIELDS: Array<keyof ShippingRecipient> = ["address1", "city", "country_code", "state_code", "zip", "phone"];
+
+/**
+ * Picks a shipping rate by policy: the cheapest rate (faster delivery breaks ties), or the fastest delivery by
+ * max delivery days (then min delivery days, then rate). Rates without delivery days count as the slowest.
+ *
+ * @param {Array<ShippingRate>} rates - Rates returned by `calculateShipping`
+ * @param {ShippingPolicy} policy - 'cheapest' or 'fastest'
+ * @param {number} maxDeliveryDays - Only consider rates delivering within this many days (optional)
+ *
+ * @returns {ShippingRate|undefined} chosen rate, undefined when none qualifies
+ */
+export function selectRate(rates: Array<ShippingRate>, policy: ShippingPolicy = "cheapest", maxDeliveryDays?: number){
+    const days = (rate: ShippingRate, key: "minDeliveryDays" | "maxDeliveryDays") => rate[key] === undefined ? Infinity : Number(rate[key]);
+    const cost = (rate: ShippingRate) => Number(rate.rate);
+    const speed = (a: ShippingRate, b: ShippingRate) => days(a, "maxDeliveryDays") - days(b, "maxDeliveryDays") || days(a, "minDeliveryDays") - days(b, "minDeliveryDays");
+    return rates
+        .filter((rate) => maxDeliveryDays === undefined || days(rate, "maxDeliveryDays") <= maxDeliveryDays)
+        .sort((a, b) => policy === "fastest" ? speed(a, b) || cost(a) - cost(b) : cost(a) - cost(b) || speed(a, b))[0];
+}
 
 //------------------------------------------------------------------------------------------------------//
 // VII. SHIPPING RATE API
 //------------------------------------------------------------------------------------------------------//
 export default class ShippingRateAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns available shipping options and rates for the given list of products.
-     * 
+     *
      * @param {ShippingInfo} shipping_info - Recipient location information
-     * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     *
      * @returns {promise} {result, code, error}
      */
-    async calculateShipping(shipping_info: ShippingInfo){
-        const url = this.origin+"/shipping/rates";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(shipping_info)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async calculateShipping(shipping_info: ShippingInfo, options?: CallOptions){
+        return this.request<Array<ShippingRate>>("/shipping/rates", {method: "POST", body: shipping_info, ...options});
+    }
+
+    /**
+     * Fetches the shipping rates of an order and sets its shipping method by policy, see {@link selectRate}
+     *
+     * Sync variants are sent as their catalog variant, taken from the item `product` or fetched with the Sync Variant.
+     *
+     * @param {Order} order - Order to ship
+     * @param {ShippingSelectOptions} options - Policy, max delivery days, currency, locale, abort signal and timeout (optional)
+     *
+     * @returns {promise} {result, code, error} with the order with `shipping` set, the chosen rate and every rate.
+     * Fails with reason 'NoShippingRate' when no rate matches the policy, 'NoShippingVariant' for an item without a variant
+     */
+    async selectShipping(order: Order, options: ShippingSelectOptions = {}): Promise<APIResult<ShippingSelection>>{
+        const {policy = "cheapest", maxDeliveryDays, currency, locale, ...callOptions} = options;
+        const items = await this.shippingItems(order.items, callOptions);
+        if ("error" in items) return items;
+        const recipient = RECIPIENT_FIELDS.reduce((fields, field) => order.recipient[field] ? {...fields, [field]: order.recipient[field]} : fields, {});
+        const info = {recipient, items, ...(currency ? {currency} : {}), ...(locale ? {locale} : {})} as ShippingInfo;
+        const rates = await this.calculateShipping(info, callOptions);
+        if (rates.error) return rates;
+        const rate = selectRate(rates.result, policy, maxDeliveryDays);
+        if (!rate){
+            const rule = policy + " rate" + (maxDeliveryDays !== undefined ? " delivering within " + maxDeliveryDays + " days" : "");
+            return this.fail(new PrintfulValidationError("No shipping rate matches the policy: " + rule + ", rates: " + rates.result.map((rate) => rate.id).join(", "), {status: 400, reason: "NoShippingRate"}));
+        }
+        return {...rates, result: {order: {...order, shipping: rate.id}, rate, rates: rates.result}};
+    }
+
+    /**
+     * Converts order items to the items of a shipping rate request
+     */
+    protected async shippingItems(items: Array<OrderItem>, options: CallOptions): Promise<Array<ShippingItem> | APIFailure>{
+        const converted: Array<ShippingItem> = [];
+        for (const [index, item] of items.entries()){
+            const shipped = {quantity: item.quantity || 1, ...(item.retail_price ? {value: item.retail_price} : {})};
+            if (item.variant_id !== undefined){
+                converted.push({variant_id: item.variant_id, ...shipped});
+            }
+            else if (item.warehouse_product_variant_id !== undefined){
+                converted.push({warehouse_product_variant_id: String(item.warehouse_product_variant_id), ...shipped});
+            }
+            else if (item.external_variant_id !== undefined){
+                converted.push({external_variant_id: item.external_variant_id, ...shipped});
+            }
+            else if (item.product && item.product.variant_id){
+                converted.push({variant_id: item.product.variant_id, ...shipped});
+            }
+            else if (item.sync_variant_id !== undefined){
+                const variant = await this.request<SyncVariantResponse>("/store/variants/" + item.sync_variant_id, {store: true, ...options});
+                if (variant.error) return variant;
+                converted.push({variant_id: variant.result.variant_id, ...shipped});
+            }
+            else{
+                return this.fail(new PrintfulValidationError("Item " + index + " needs a variant_id, sync_variant_id, external_variant_id or warehouse_product_variant_id to calculate its shipping", {status: 400, reason: "NoShippingVariant"}));
+            }
+        }
+        return converted;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import type { SpendEntry, SpendLedger } from "../types/spending";
+
+//------------------------------------------------------------------------------------------------------//
+// SPEND LEDGER
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Keeps the orders confirmed under a spending guard in memory. Implement {@link SpendLedger} to persist them
+ * elsewhere (database, file, ...), e.g. to share the daily limit between processes.
+ */
+export default class MemorySpendLedger implements SpendLedger{
+    protected spent: Array<SpendEntry>
+
+    constructor(entries: Array<SpendEntry> = []){
+        this.spent = [...entries];
+    }
+
+    entries(since: number){
+        return this.spent.filter((entry) => entry.time >= since);
+    }
+
+    add(entry: SpendEntry){
+        this.spent.push(entry);
+    }
+}
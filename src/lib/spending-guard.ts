@@ -0,0 +1,146 @@
+import MemorySpendLedger from "./spend-ledger";
+import { PrintfulError, SpendingLimitError } from "./errors";
+import { ambiguous } from "./orders";
+import type OrdersAPI from "./orders";
+import type { CallOptions } from "../types/client";
+import type { Order, OrderItem, OrderResponse } from "../types/order";
+import type { APIFailure, APIResult } from "../types/response";
+import type { SpendingGuardOptions, SpendLedger } from "../types/spending";
+
+const format = (amount: number, currency: string) => amount.toFixed(2) + " " + currency;
+
+/**
+ * Start of the current day (UTC) as a timestamp (ms)
+ */
+function today(){
+    const now = new Date();
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+/**
+ * Converts an order returned by the API into the order data sent to estimate its costs
+ */
+export function toOrder({external_id, shipping, recipient, items, retail_costs, gift, packing_slip}: OrderResponse): Order{
+    return {
+        external_id: external_id || undefined,
+        shipping,
+        recipient,
+        items: items as Array<OrderItem>,
+        retail_costs: retail_costs || undefined,
+        gift: gift || undefined,
+        packing_slip: packing_slip || undefined
+    };
+}
+
+//------------------------------------------------------------------------------------------------------//
+// SPENDING GUARD
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Checks the estimated cost of orders before they are confirmed (charged) against the configured limits:
+ * max cost per order, max daily spend and allowed currencies. Confirmed orders are recorded in the ledger, so are
+ * confirmations that failed without a definite answer (network error, timeout, 5xx) as Printful may have charged them.
+ *
+ * Confirmations through the guard run one at a time, so concurrent orders cannot exceed the daily limit together.
+ * The daily limit is only as reliable as the ledger: share it between processes to apply the limit to all of them.
+ */
+export default class SpendingGuard{
+    public ledger: SpendLedger
+    protected orders: OrdersAPI
+    protected options: SpendingGuardOptions
+    protected pending: Promise<unknown> = Promise.resolve()
+
+    constructor(orders: OrdersAPI, options: SpendingGuardOptions = {}){
+        this.orders = orders;
+        this.options = options;
+        this.ledger = options.ledger || new MemorySpendLedger();
+    }
+
+    /**
+     * Returns the total recorded today (UTC) in a currency
+     *
+     * @param {string} currency - 3 letter currency code
+     *
+     * @returns {promise} amount
+     */
+    async spentToday(currency: string){
+        const entries = await this.ledger.entries(today());
+        return entries.filter((entry) => entry.currency === currency).reduce((total, entry) => total + entry.amount, 0);
+    }
+
+    /**
+     * Estimates the costs of an order and throws a {@link SpendingLimitError} when confirming it would exceed a limit
+     *
+     * @param {Order} order - Order to confirm
+     * @param {CallOptions} options - Abort signal and timeout for the estimate (optional)
+     *
+     * @returns {promise} {amount, currency} estimated total, or {failure} when the estimate failed
+     */
+    async check(order: Order, options?: CallOptions): Promise<{amount: number, currency: string, failure?: undefined} | {failure: APIFailure}>{
+        const estimate = await this.orders.estimateOrderCost(order, options);
+        if (estimate.error) return {failure: estimate};
+        const {maxOrderCost, maxDailySpend, currencies} = this.options;
+        const amount = Number(estimate.result.costs.total);
+        const currency = estimate.result.costs.currency;
+        if (currencies && !currencies.includes(currency)){
+            throw new SpendingLimitError("Order would be charged in " + currency + ", allowed currencies are " + currencies.join(", "), "currency", amount, currency);
+        }
+        if (maxOrderCost !== undefined && amount > maxOrderCost){
+            throw new SpendingLimitError("Order total of " + format(amount, currency) + " exceeds the limit of " + format(maxOrderCost, currency) + " per order", "order", amount, currency);
+        }
+        if (maxDailySpend !== undefined){
+            const spent = await this.spentToday(currency);
+            if (spent + amount > maxDailySpend){
+                throw new SpendingLimitError("Order total of " + format(amount, currency) + " would bring today's spend to " + format(spent + amount, currency) + ", over the daily limit of " + format(maxDailySpend, currency) + " (" + format(spent, currency) + " spent)", "daily", amount, currency);
+            }
+        }
+        return {amount, currency};
+    }
+
+    /**
+     * Runs a call that confirms an order: checks the order first and records it in the ledger once it was confirmed,
+     * or with its estimate when the outcome of the confirmation is unknown
+     *
+     * @param {function} load - Returns the order to confirm, e.g. by fetching a draft
+     * @param {function} confirm - Sends the confirming request
+     * @param {boolean} charged - Whether the call charges the store, false for dry runs
+     * @param {CallOptions} options - Abort signal and timeout for the estimate (optional)
+     *
+     * @returns {promise} {result, code, error} of the confirming call, or of the failed request before it
+     */
+    guard(load: () => Promise<APIResult<Order>>, confirm: () => Promise<APIResult<OrderResponse>>, charged: boolean, options?: CallOptions){
+        const run = this.pending.then(async (): Promise<APIResult<OrderResponse>> => {
+            const loaded = await load();
+            if (loaded.error) return loaded;
+            const checked = await this.check(loaded.result, options);
+            if (checked.failure) return checked.failure;
+            const external_id = loaded.result.external_id || null;
+            const unknown = async (failure: {code: number, error: {reason: string}}) => {
+                charged && ambiguous(failure) && await this.record(null, external_id, checked);
+            };
+            const confirmed = await confirm().catch(async (error) => {
+                error instanceof PrintfulError && await unknown({code: error.status, error});
+                throw error;
+            });
+            if (confirmed.error) await unknown(confirmed);
+            else if (charged) await this.record(confirmed.result, external_id, checked);
+            return confirmed;
+        });
+        this.pending = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Adds an order to the ledger, unless it was already recorded today with its estimate by an earlier attempt
+     */
+    protected async record(order: OrderResponse | null, external_id: string | null, estimate: {amount: number, currency: string}){
+        const entries = external_id ? await this.ledger.entries(today()) : [];
+        if (entries.some((entry) => entry.order === null && entry.external_id === external_id)) return;
+        await this.ledger.add({
+            order: order && order.id,
+            external_id: order ? order.external_id : external_id,
+            amount: Number(order && order.costs && order.costs.total) || estimate.amount,
+            currency: (order && order.costs && order.costs.currency) || estimate.currency,
+            time: Date.now()
+        });
+    }
+}
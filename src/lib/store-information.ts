@@ -1,31 +1,28 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
 import type { OrderPackingSlip as PackingSlip } from "../types/order"
+import type { CallOptions } from "../types/client";
+import type { StoreInfo } from "../types/store";
 
 //------------------------------------------------------------------------------------------------------//
 // XII. STORE INFORMATION API
 //------------------------------------------------------------------------------------------------------//
 export default class StoreInformationAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
     
     /**
      * Modifies packing slip information of the currently authorized Printful store.
      * 
+     * With an account level token a store must be selected, see {@link PrintfulAccountClient.forStore}
+     * 
      * @param {PackingSlip} new_packing_slip - packing slip information
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async changePackingSlip(new_packing_slip: PackingSlip){
-        const url = this.origin+"/store/packing-slip";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(new_packing_slip)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async changePackingSlip(new_packing_slip: PackingSlip, options?: CallOptions){
+        return this.request<PackingSlip>("/store/packing-slip", {method: "POST", body: new_packing_slip, store: true, ...options});
     }
 
     /**
@@ -33,36 +30,37 @@ export default class StoreInformationAPI extends GenericAPI{
      * 
      * @param {number} offset - Offset for query
      * @param {number} limit  - Limit for query
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllStoresInfo(offset?: number,limit?: number){
+    async getAllStoresInfo(offset?: number,limit?: number, options?: CallOptions){
         const params = new URLSearchParams({});
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit));
-        const url = this.origin+"/stores?" + params.toString();
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<Array<StoreInfo>>("/stores", {params, ...options}, {offset, limit});
+    }
+
+    /**
+     * Iterates over every store available to the token, fetching pages of up to 100 stores as needed
+     * 
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of stores
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllStoresInfo(options?: PaginateOptions){
+        return this.paginate("/stores", (offset, limit) => this.getAllStoresInfo(offset, limit, options), options);
     }
 
     /**
      * Get basic information about a store based on provided ID
      * 
      * @param {int} id - Store ID
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getStoreInfo(id: number){
-        const url = this.origin+"/stores/"+id;
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getStoreInfo(id: number, options?: CallOptions){
+        return this.request<StoreInfo>("/stores/"+id, options);
     }
 }
\ No newline at end of file
@@ -1,43 +1,35 @@
-import fetch from 'cross-fetch';
+import GenericAPI from "./generic";
+import type Transport from "./transport";
 import type { Recipient } from '../types/recipient';
+import type { CallOptions } from "../types/client";
+import type { TaxCountry, TaxRate } from "../types/country";
 
 //------------------------------------------------------------------------------------------------------//
 // X. TAX RATE API
 //------------------------------------------------------------------------------------------------------//
-export default class TaxRateAPI{
-    protected origin: string;
-    constructor(origin: string){
-        this.origin = origin;
-    }
+export default class TaxRateAPI extends GenericAPI{
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Retrieve state list that requires sales tax calculation
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getCountryTaxList(){
-        const url = this.origin + "/tax/countries";
-        const response = await fetch(url);
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getCountryTaxList(options?: CallOptions){
+        return this.request<Array<TaxCountry>>("/tax/countries", {auth: false, ...options});
     }
 
     /**
      * Calculates sales tax rate for given address if required
      * 
      * @param {Recipient} recipient - Recipient address information
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async calcTax(recipient: Recipient){
-        const url = this.origin + "/tax/rates";
-        const response = await fetch(url,{
-            method: "POST",
-            body: JSON.stringify({recipient})
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async calcTax(recipient: Recipient, options?: CallOptions){
+        return this.request<TaxRate>("/tax/rates", {method: "POST", body: {recipient}, auth: false, ...options});
     }
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import type { OAuthTokens, TokenStore } from "../types/oauth";
+
+//------------------------------------------------------------------------------------------------------//
+// TOKEN STORE
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Keeps OAuth tokens in memory. Implement {@link TokenStore} to persist them elsewhere (database, file, ...).
+ */
+export default class MemoryTokenStore implements TokenStore{
+    protected tokens: OAuthTokens | null
+
+    constructor(tokens: OAuthTokens | null = null){
+        this.tokens = tokens;
+    }
+
+    get(){
+        return this.tokens;
+    }
+
+    set(tokens: OAuthTokens){
+        this.tokens = tokens;
+    }
+}
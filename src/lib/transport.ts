@@ -0,0 +1,223 @@
+import crossFetch from 'cross-fetch';
+import RateLimiter, { sleep } from './rate-limiter';
+import { createPrintfulError, PrintfulAbortError, PrintfulError, PrintfulNetworkError, PrintfulParseError, PrintfulTimeoutError, PrintfulValidationError } from './errors';
+import type { Headers } from "../types/headers";
+import ResponseCache from './cache';
+import InterceptorPipeline from './interceptors';
+import ResponseValidator from './validation';
+import RequestQueue from './request-queue';
+import DryRun from './dry-run';
+import { REDACTED } from './interceptors';
+import type { InterceptorRequest } from './interceptors';
+import type { CallOptions, ClientOptions, FetchFunction, HttpMethod, RequestOptions } from "../types/client";
+
+export const DEFAULT_ORIGIN = "https://api.printful.com";
+
+//------------------------------------------------------------------------------------------------------//
+// TRANSPORT
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Sends every request made by the sub APIs of a client.
+ * 
+ * The `headers` object is shared with the client, so changes to the Authorization header are picked up by the next request.
+ */
+export default class Transport{
+    public origin: string
+    public headers: Headers
+    protected fetch: FetchFunction
+    protected defaultHeaders: Record<string, string>
+    protected rateLimiter: RateLimiter
+    public throwOnError: boolean
+    public accountLevel = false             // Set by account clients, store endpoints then need the X-PF-Store-Id header
+    public authenticate?: () => Promise<void>   // Called before every authorized request, e.g. to refresh an expiring OAuth token
+    public cache?: ResponseCache
+    public timeout: number
+    public interceptors: InterceptorPipeline
+    public validator?: ResponseValidator
+    public queue: RequestQueue
+    public dryRun: DryRun
+
+    constructor(headers: Headers, options: ClientOptions = {}){
+        this.headers = headers;
+        this.origin = (options.origin || DEFAULT_ORIGIN).replace(/\/+$/, "");
+        this.fetch = options.cassette ? options.cassette.wrap(options.fetch || crossFetch) : options.fetch || crossFetch;
+        this.defaultHeaders = {...options.headers};
+        options.userAgent && (this.defaultHeaders["User-Agent"] = options.userAgent);
+        this.rateLimiter = new RateLimiter(options.rateLimit, options.retry);
+        this.throwOnError = options.throwOnError || false;
+        this.cache = options.cache ? new ResponseCache(options.cache) : undefined;
+        this.timeout = options.timeout || 0;
+        this.interceptors = new InterceptorPipeline(options.interceptors);
+        this.validator = options.validate ? new ResponseValidator(options.validate === true ? {} : options.validate) : undefined;
+        this.queue = options.queue instanceof RequestQueue ? options.queue : new RequestQueue(options.queue);
+        this.dryRun = new DryRun(options.dryRun);
+    }
+
+    /**
+     * Builds the full URL for a path relative to the origin
+     * 
+     * @param {string} path - Endpoint path, e.g. `/orders`
+     * @param {URLSearchParams} params - Query string parameters (optional)
+     * @param {string} origin - Overrides the client origin (optional)
+     * 
+     * @returns {string} url
+     */
+    url(path: string, params?: URLSearchParams, origin = this.origin){
+        const query = params ? params.toString() : "";
+        return origin + path + (query ? "?" + query : "");
+    }
+
+    /**
+     * Sends a request and returns the parsed JSON body
+     * 
+     * Requests wait for a slot in the request queue, by priority.
+     * Requests are throttled per endpoint bucket, rate limited (429) responses are retried with backoff.
+     * GET requests matching a cache rule are served from the cache when one is configured.
+     * Each attempt is given `timeout` ms, including its wait for the rate limit and the backoff before a retry.
+     * Aborted calls fail with {@link PrintfulAbortError} or {@link PrintfulTimeoutError}, also while waiting.
+     * Successful results are checked against their schema when response validation is enabled.
+     * In dry run mode mutating requests are validated and logged instead, and answered with a synthetic result.
+     * 
+     * Failed requests throw a {@link PrintfulError} when `throwOnError` is set. Otherwise network and parse failures
+     * are returned as a body with `result: null` and the error reason, like any other failed response.
+     * Their code is 0 unless the response status is already an error, so an unreadable 200 is never taken for a success.
+     * 
+     * @param {string} path - Endpoint path, e.g. `/orders`
+     * @param {RequestOptions} options - Method, query params, body, whether to authorize the request, signal, timeout, priority and dry run
+     * 
+     * @returns {promise} parsed response body
+     */
+    async request(path: string, {method = "GET", origin, params, body, auth = true, store = false, signal, timeout = this.timeout, priority, dryRun = this.dryRun.enabled}: RequestOptions = {}){
+        auth && this.authenticate && await this.authenticate();
+        const headers: Record<string, string> = {...this.defaultHeaders};
+        auth && Object.assign(headers, this.headers);
+        const url = this.url(path, params, origin);
+        if (store && this.accountLevel && !this.headers["X-PF-Store-Id"]){
+            return this.fail(new PrintfulValidationError("This endpoint requires a store when using an account level token, select one with forStore()", {status: 400, reason: "StoreRequired", request: {method, url}}));
+        }
+        const dryRunRule = dryRun && this.dryRun.rule(method, path);
+        if (dryRunRule){
+            const {data, error} = this.dryRun.simulate(dryRunRule, {method, url, headers: {...headers, ...(auth ? {Authorization: REDACTED} : {})}, body}, path, params);
+            return error ? this.fail(error) : data;
+        }
+        const cacheRule = method === "GET" && this.cache && this.cache.rule(path);
+        let data;
+        if (this.cache && cacheRule){
+            const key = this.cache.key(url, this.headers["X-PF-Store-Id"]);
+            data = await this.cache.get(key, cacheRule, async (etag) => {
+                const {data, response} = await this.send(method, path, url, etag ? {...headers, "If-None-Match": etag} : headers, body, {signal, timeout, priority});
+                return {data, etag: (response && response.headers && response.headers.get("etag")) || undefined};
+            });
+        }
+        else{
+            data = (await this.send(method, path, url, headers, body, {signal, timeout, priority})).data;
+        }
+        this.validator && await this.validator.check({method, url}, path, data);
+        return data;
+    }
+
+    /**
+     * Waits for a slot in the request queue, then dispatches the request
+     * 
+     * @returns {promise} {data, response} parsed body and the raw response, if one was received
+     */
+    protected send(method: HttpMethod, path: string, url: string, headers: Record<string, string>, body: unknown, options: CallOptions = {}){
+        return this.queue.run(method, path, () => this.dispatch(method, path, url, headers, body, options), options);
+    }
+
+    /**
+     * Sends a request, retrying it while it is rate limited. Interceptor hooks run around every attempt.
+     * 
+     * @returns {promise} {data, response} parsed body and the raw response, if one was received
+     */
+    protected async dispatch(method: HttpMethod, path: string, url: string, headers: Record<string, string>, body: unknown, {signal, timeout = 0}: CallOptions = {}): Promise<{data: any, response?: Response}>{
+        const bucket = this.rateLimiter.bucket(method, path);
+        let retryDelay = 0;
+        for (let attempt = 1; ; attempt++){
+            const context: InterceptorRequest = {method, url, headers: {...headers}, body, attempt, meta: {}};
+            const {headers: sendHeaders, body: sendBody} = await this.interceptors.beforeRequest(context);
+            const request = {method: context.method, url: context.url};
+            if (signal && signal.aborted){
+                return {data: await this.failWith(context, new PrintfulAbortError("Request to " + request.url + " was aborted", {status: 0, reason: "Aborted", request}))};
+            }
+            const controller = new AbortController();
+            const abort = () => controller.abort();
+            let timedOut = false;
+            const timer = timeout > 0 ? setTimeout(() => {timedOut = true; controller.abort()}, timeout) : undefined;
+            signal && signal.addEventListener("abort", abort);
+            let started = Date.now();
+            let response: Response;
+            let text: string;
+            try{
+                retryDelay && await sleep(retryDelay, controller.signal);
+                await this.rateLimiter.acquire(bucket, controller.signal);
+                started = Date.now();
+                response = await this.fetch(request.url, {
+                    method: request.method,
+                    headers: sendHeaders,
+                    body: sendBody === undefined || sendBody instanceof URLSearchParams ? sendBody : JSON.stringify(sendBody),
+                    signal: controller.signal
+                });
+                text = response.status === 304 ? "" : await response.text();
+            }
+            catch (cause){
+                if (cause instanceof PrintfulError){
+                    return {data: await this.failWith(context, cause)};
+                }
+                if (timedOut){
+                    return {data: await this.failWith(context, new PrintfulTimeoutError("Request to " + request.url + " timed out after " + timeout + "ms", {status: 0, reason: "Timeout", request, cause}, timeout))};
+                }
+                if (signal && signal.aborted){
+                    return {data: await this.failWith(context, new PrintfulAbortError("Request to " + request.url + " was aborted", {status: 0, reason: "Aborted", request, cause}))};
+                }
+                return {data: await this.failWith(context, new PrintfulNetworkError("Request to " + request.url + " failed: " + String(cause), {status: 0, reason: "NetworkError", request, cause}))};
+            }
+            finally{
+                clearTimeout(timer);
+                signal && signal.removeEventListener("abort", abort);
+            }
+            this.rateLimiter.update(bucket, response.headers);
+            let data;
+            try{
+                data = response.status === 304 ? {code: 304, result: null} : JSON.parse(text);
+                if (!data || typeof data !== "object") throw new TypeError("Expected a JSON object");
+            }
+            catch (cause){
+                return {data: await this.failWith(context, new PrintfulParseError("Response of " + request.url + " is not valid JSON", {status: response.status, reason: "ParseError", request, result: text, cause})), response};
+            }
+            await this.interceptors.afterResponse(context, {status: response.status, headers: response.headers, data, duration: Date.now() - started});
+            if (response.status === 429 && attempt < this.rateLimiter.retry.maxAttempts){
+                retryDelay = this.rateLimiter.retryDelay(attempt, response.headers);
+                continue;
+            }
+            const code = data.code || response.status;
+            if (code >= 400 && code !== 304){
+                const retryAfter = response.headers && (response.headers.get("retry-after") || response.headers.get("x-ratelimit-reset"));
+                const error = createPrintfulError(
+                    {status: code, reason: (data.error && (data.error.reason || data.error)) || String(code), request, result: data.result},
+                    (data.error && data.error.message) || data.error_description || (typeof data.result === "string" ? data.result : "Request failed with status " + code),
+                    retryAfter ? Number(retryAfter) : undefined
+                );
+                await this.interceptors.onError(context, error);
+                if (this.throwOnError) throw error;
+            }
+            return {data, response};
+        }
+    }
+
+    /**
+     * Runs the onError hooks, then fails like {@link fail}
+     */
+    protected async failWith(context: InterceptorRequest, error: PrintfulError){
+        await this.interceptors.onError(context, error);
+        return this.fail(error);
+    }
+
+    /**
+     * Throws the error when `throwOnError` is set, otherwise converts it into a failed response body
+     */
+    protected fail(error: PrintfulError){
+        if (this.throwOnError) throw error;
+        return {code: error.status >= 400 ? error.status : 0, result: null, error: {reason: error.reason, message: error.message}};
+    }
+}
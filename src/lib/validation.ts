@@ -0,0 +1,64 @@
+import { DEFAULT_SCHEMA_RULES, validateSchema } from "./schemas";
+import { PrintfulSchemaError } from "./errors";
+import type { PrintfulErrorRequest } from "./errors";
+import type { HttpMethod } from "../types/client";
+import type { SchemaDrift, SchemaRule, ValidationMode, ValidationOptions } from "../types/validation";
+
+//------------------------------------------------------------------------------------------------------//
+// RESPONSE VALIDATOR
+//------------------------------------------------------------------------------------------------------//
+/**
+ * Checks the `result` of successful responses against the schema of their endpoint, so changes of the live
+ * payloads are noticed at the call that received them.
+ * 
+ * Drift is passed to `onDrift` and then logged ('warn'), thrown as {@link PrintfulSchemaError} ('throw')
+ * or left to the hook alone ('report'). Failed responses and endpoints without a rule are not checked.
+ */
+export default class ResponseValidator{
+    protected mode: ValidationMode
+    protected onDrift?: (drift: SchemaDrift) => void | Promise<void>
+    protected rules: Array<SchemaRule>
+
+    constructor(options: ValidationOptions = {}){
+        this.mode = options.mode || "warn";
+        this.onDrift = options.onDrift;
+        this.rules = [...(options.rules || []), ...DEFAULT_SCHEMA_RULES];
+    }
+
+    /**
+     * Returns the rule of a request, if its response is validated
+     */
+    rule(method: HttpMethod, path: string){
+        return this.rules.find((rule) => (!rule.method || rule.method === method) && rule.pattern.test(path));
+    }
+
+    /**
+     * Validates a response body
+     * 
+     * @param {PrintfulErrorRequest} request - Method and URL of the request
+     * @param {string} path - Endpoint path, used to find the rule
+     * @param {unknown} data - Parsed response body
+     * 
+     * @returns {promise} the drift found, undefined when the result matches or is not checked
+     */
+    async check(request: PrintfulErrorRequest, path: string, data: unknown){
+        if (!data || typeof data !== "object") return;
+        const body: {code?: unknown, result?: unknown} = data;
+        const code = typeof body.code === "number" && body.code || 200;
+        if (code >= 300 || body.result === null || body.result === undefined) return;
+        const rule = this.rule(request.method, path);
+        if (!rule) return;
+        const issues = validateSchema(rule.schema, body.result);
+        if (!issues.length) return;
+        const drift: SchemaDrift = {name: rule.name, request, issues, result: body.result};
+        this.onDrift && await this.onDrift(drift);
+        const summary = issues.map((issue) => issue.path + " (expected " + issue.expected + ", received " + issue.received + ")").join(", ");
+        if (this.mode === "warn"){
+            console.warn("Printful response of " + rule.name + " does not match its schema: " + summary);
+        }
+        if (this.mode === "throw"){
+            throw new PrintfulSchemaError("Response of " + rule.name + " does not match its schema: " + summary, {status: code, reason: "SchemaMismatch", request, result: body.result}, issues);
+        }
+        return drift;
+    }
+}
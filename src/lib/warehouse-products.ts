@@ -1,12 +1,14 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
+import type { PaginateOptions } from "./paginator";
+import type Transport from "./transport";
+import type { CallOptions } from "../types/client";
+import type { WarehouseProduct } from "../types/warehouse";
 
 //------------------------------------------------------------------------------------------------------//
 // XIV. WAREHOUSE PRODUCTS API
 //------------------------------------------------------------------------------------------------------//
 export default class WarehouseProductsAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns a list of warehouse products from your store
@@ -14,37 +16,39 @@ export default class WarehouseProductsAPI extends GenericAPI{
      * @param {string} query - Filter by partial or full product name
      * @param {number} offset - Number of items per page (max 100)
      * @param {number} limit - Result set offset
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, paging, code, error}
      */
-    async getAllWarehouseProducts(query?: string, offset?: number, limit?: number){
+    async getAllWarehouseProducts(query?: string, offset?: number, limit?: number, options?: CallOptions){
         const params = new URLSearchParams({});
         query && params.append("query", query);
         offset && params.append("offset", String(offset));
         limit && params.append("limit", String(limit))
-        const url = this.origin + "/warehouse/products?" + params.toString();
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, paging, code, error} = await data;
-        return code >= 400 ? {result: null, paging: {offset,limit}, code, error} : {result, paging, code, error: null};
+        return this.requestPaged<Array<WarehouseProduct>>("/warehouse/products", {params, ...options}, {offset, limit});
+    }
+
+    /**
+     * Iterates over every warehouse product from your store, fetching pages of up to 100 products as needed
+     * 
+     * @param {string} query - Filter by partial or full product name
+     * @param {PaginateOptions} options - Start offset, page size (max 100), signal, timeout and max number of products
+     * 
+     * @returns {Paginator} use with `for await` or call `collectAll()`
+     */
+    iterateAllWarehouseProducts(query?: string, options?: PaginateOptions){
+        return this.paginate("/warehouse/products", (offset, limit) => this.getAllWarehouseProducts(query, offset, limit, options), options);
     }
 
     /**
      * Returns warehouse product data by ID
      * 
      * @param {int|string} id - Product ID
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async getWarehouseProduct(id: number | string){
-        const url = this.origin + "/warehouse/products/" + id;
-        const response = await fetch(url, {
-            headers: this.headers,
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getWarehouseProduct(id: number | string, options?: CallOptions){
+        return this.request<WarehouseProduct>("/warehouse/products/" + id, options);
     }
 }
\ No newline at end of file
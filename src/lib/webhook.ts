@@ -1,25 +1,23 @@
 import GenericAPI from "./generic";
-import fetch from 'cross-fetch';
-import type { Headers } from "../types/headers";
-import type { WebhookConfig } from "../types/webhook";
+import type Transport from "./transport";
+import type { WebhookConfig, WebhookInfo } from "../types/webhook";
+import type { CallOptions } from "../types/client";
 
 //------------------------------------------------------------------------------------------------------//
 // XI. WEBHOOK API
 //------------------------------------------------------------------------------------------------------//
 export default class WebhookAPI extends GenericAPI{
-    constructor(headers: Headers, origin: string){super(headers, origin)}
+    constructor(transport: Transport){super(transport)}
 
     /**
      * Returns configured webhook URL and list of webhook event types enabled for the store
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async getWebhookConfig(){
-        const url = this.origin+"/webhooks";
-        const response = await fetch(url, {headers: this.headers});
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async getWebhookConfig(options?: CallOptions){
+        return this.request<WebhookInfo>("/webhooks", options);
     }
 
     /**
@@ -30,34 +28,22 @@ export default class WebhookAPI extends GenericAPI{
      * Setting up the Stock updated webhook requires passing IDs for products that need to be monitored for changes. Stock update webhook will only include information for specified products. These product IDs need to be set up using the params property.
      * 
      * @param {WebhookConfig} newConfig - Webhook Configuration
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
      * 
      * @returns {promise} {result, code, error}
      */
-    async setWebhookConfig(newConfig: WebhookConfig){
-        const url = this.origin+"/webhooks";
-        const response = await fetch(url, {
-            method: "POST",
-            headers: this.headers,
-            body: JSON.stringify(newConfig)
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async setWebhookConfig(newConfig: WebhookConfig, options?: CallOptions){
+        return this.request<WebhookInfo>("/webhooks", {method: "POST", body: newConfig, ...options});
     }
 
     /**
      * Removes the webhook URL and all event types from the store.
      * 
+     * @param {CallOptions} options - Abort signal and timeout for this call (optional)
+     * 
      * @returns {promise} {result, code, error}
      */
-    async disableWebhookSupport(){
-        const url = this.origin+"/webhooks";
-        const response = await fetch(url, {
-            method: "DELETE",
-            headers: this.headers
-        });
-        const data = await response.json();
-        const {result, code, error} = await data;
-        return code >= 400 ? {result: null, code, error} : {result, code, error: null};
+    async disableWebhookSupport(options?: CallOptions){
+        return this.request<WebhookInfo>("/webhooks", {method: "DELETE", ...options});
     }
 }
\ No newline at end of file
@@ -1,4 +1,18 @@
 export type ApprovalSheetChanges = {
 	message: string,
 	files: Array<{url: string}>
-}
\ No newline at end of file
+}
+
+export type ApprovalSheet = {
+	order_id: number,
+	order_item_id?: number,
+	message: string,
+	confirm_hash: string,
+	submitted_design: string,
+	recommended_design: string,
+	approval_sheet: string
+}
+
+export type ApprovalSheetStatus = {
+	status: string
+}
@@ -0,0 +1,24 @@
+export type CacheEntry = {
+    data: unknown,                          // Parsed response body
+    etag?: string,                          // ETag of the response, used to revalidate the entry
+    expiresAt: number,                      // Timestamp (ms) until which the entry is fresh
+    staleUntil: number                      // Timestamp (ms) until which the stale entry may be served while it is revalidated
+}
+
+export type CacheStore = {
+    get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined,
+    set(key: string, entry: CacheEntry): Promise<void> | void,
+    delete(key: string): Promise<void> | void,
+    keys(): Promise<Array<string>> | Array<string>
+}
+
+export type CacheRule = {
+    pattern: RegExp,                        // Matched against the request path, e.g. /^\/countries/
+    ttl: number,                            // Time in ms a response stays fresh, 0 disables caching for the path
+    staleWhileRevalidate?: number           // Time in ms after ttl during which the stale response is served while it is refreshed in the background
+}
+
+export type CacheOptions = {
+    store?: CacheStore,                     // Defaults to an in-memory LRU store of 500 entries
+    rules?: Array<CacheRule>                // Checked before the default rules for catalog, country and tax lookups
+}
@@ -0,0 +1,37 @@
+import type { HttpMethod } from "./client"
+
+export type CassetteMode = "record" | "replay" | "auto"
+
+export type CassetteMatching = "strict" | "loose"
+
+export type CassetteOptions = {
+    mode?: CassetteMode,                    // 'record' always calls the API and rewrites the file, 'auto' replays when the file exists and records otherwise. Defaults to 'replay'
+    match?: CassetteMatching,               // 'strict' matches method, URL, store and body, each recording replays once. 'loose' matches method and path. Defaults to 'strict'
+    redact?: Array<string>                  // Extra field names scrubbed anywhere in request and response bodies
+}
+
+export type CassetteRequest = {
+    method: HttpMethod,
+    url: string,
+    headers: Record<string, string>,        // Sent headers, the Authorization header is redacted
+    body?: unknown,                         // JSON body, scrubbed
+    form?: Record<string, string>           // URL encoded body, e.g. OAuth token requests, scrubbed
+}
+
+export type CassetteResponse = {
+    status: number,
+    headers: Record<string, string>,
+    body?: unknown,                         // Parsed JSON body, scrubbed
+    text?: string                           // Raw body when it is not JSON
+}
+
+export type CassetteInteraction = {
+    request: CassetteRequest,
+    response: CassetteResponse
+}
+
+export type CassetteFile = {
+    version: 1,
+    recorded: string,                       // ISO date of the recording
+    interactions: Array<CassetteInteraction>
+}
@@ -0,0 +1,90 @@
+export type CatalogProduct = {
+    id: number,                             // Product ID
+    main_category_id: number,
+    type: string,                           // Product type identifier, e.g. 'T-SHIRT'
+    type_name: string,
+    title: string,
+    brand: string | null,
+    model: string,
+    image: string,                          // URL of the product image
+    variant_count: number,
+    currency: string,                       // Currency of the variant prices
+    files: Array<CatalogFileType>,          // Print files and previews accepted by the product
+    options: Array<CatalogOption>,          // Additional options accepted by the product
+    is_discontinued: boolean,
+    avg_fulfillment_time: number | null,    // Average fulfillment time in days
+    description: string,
+    techniques: Array<CatalogTechnique>,
+    origin_country: string | null
+}
+
+export type CatalogVariant = {
+    id: number,                             // Variant ID, use it as variant_id of order items
+    product_id: number,
+    name: string,
+    size: string,
+    color: string | null,
+    color_code: string | null,
+    color_code2: string | null,
+    image: string,
+    price: string,                          // Printful price in the product currency
+    in_stock: boolean,
+    availability_regions: Record<string, string>,   // Region code to region name
+    availability_status: Array<{region: string, status: string}>,
+    material?: Array<{name: string, percentage: number}>
+}
+
+export type CatalogProductInfo = {
+    product: CatalogProduct,
+    variants: Array<CatalogVariant>
+}
+
+export type CatalogVariantInfo = {
+    variant: CatalogVariant,
+    product: CatalogProduct
+}
+
+export type CatalogFileType = {
+    id: string,                             // File type identifier, e.g. 'default' or 'back'
+    type: string,
+    title: string,
+    additional_price: string | null
+}
+
+export type CatalogOption = {
+    id: string,
+    title: string,
+    type: string,
+    values: Record<string, string>,
+    additional_price: string | null,
+    additional_price_breakdown: Record<string, string>
+}
+
+export type CatalogTechnique = {
+    key: string,
+    display_name: string,
+    is_default: boolean
+}
+
+export type ProductSizeGuide = {
+    product_id: number,
+    available_sizes: Array<string>,
+    size_tables: Array<SizeTable>
+}
+
+export type SizeTable = {
+    type: string,                           // 'measure_yourself', 'product_measure' or 'international'
+    unit: string,                           // 'inches' or 'cm'
+    description?: string,
+    image_url?: string,
+    image_description?: string,
+    measurements: Array<{type_label: string, unit?: string, values: Array<{size: string, value?: string, min_value?: string, max_value?: string}>}>
+}
+
+export type Category = {
+    id: number,
+    parent_id: number,                      // 0 for top level categories
+    image_url: string,
+    size?: string,
+    title: string
+}
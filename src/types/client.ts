@@ -0,0 +1,92 @@
+import type Cassette from "../lib/cassette"
+import type { Interceptor } from "../lib/interceptors"
+import type RequestQueue from "../lib/request-queue"
+import type { CacheOptions } from "./cache"
+import type { DryRunOptions } from "./dry-run"
+import type { SpendingGuardOptions } from "./spending"
+import type { OAuthOptions } from "./oauth"
+import type { ValidationOptions } from "./validation"
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE"
+
+export type ClientOptions = {
+    origin?: string,                        // API origin. Defaults to 'https://api.printful.com'
+    fetch?: FetchFunction,                  // fetch implementation used for every request. Defaults to cross-fetch
+    headers?: Record<string, string>,       // Extra headers sent with every request
+    userAgent?: string,                     // Value for the User-Agent header
+    retry?: RetryOptions,                   // Retrying of rate limited (429) requests
+    rateLimit?: RateLimitOptions | false,   // Proactive per endpoint throttling, `false` disables it
+    throwOnError?: boolean,                 // Throw a PrintfulError instead of returning {result: null, code, error}. Defaults to false
+    oauth?: OAuthOptions,                   // Public app credentials, enables the authorization code flow and automatic token refresh
+    checkScopes?: boolean,                  // Check the token scopes before calling a method, failing with MissingScopeError. Defaults to false
+    checkOrderState?: boolean,              // Fetch the order before canceling, updating or confirming it, failing with OrderStateError. Defaults to false
+    cache?: CacheOptions,                   // Cache responses of rarely changing endpoints (catalog, countries, tax countries). Disabled by default
+    timeout?: number,                       // Default time in ms to wait for each attempt of a request, 0 waits forever. Defaults to 0
+    interceptors?: Array<Interceptor>,      // Hooks run before each request, after each response and on errors, in order
+    validate?: boolean | ValidationOptions, // Check results against the schema of their endpoint, `true` warns about drift. Disabled by default
+    cassette?: Cassette,                    // Records responses to a JSON file, or replays them instead of calling the API
+    queue?: QueueOptions | RequestQueue,    // Limits requests in flight, pass a RequestQueue to share it between clients. Unlimited by default
+    dryRun?: boolean | DryRunOptions,       // Validate and log mutating requests instead of sending them, reads are still sent. Defaults to false
+    spendingGuard?: SpendingGuardOptions    // Limits checked against the estimated cost before an order is confirmed. Disabled by default
+}
+
+export type CallOptions = {
+    signal?: AbortSignal,                   // Aborts the call, failing it with PrintfulAbortError
+    timeout?: number,                       // Overrides the client timeout for this call
+    priority?: QueuePriority,               // Queued 'high' calls start before 'normal' and 'low' ones. Defaults to 'normal'
+    dryRun?: boolean                        // Overrides the client dryRun option for this call
+}
+
+export type AccountClientOptions = ClientOptions & {
+    storeId?: number                        // Store to send requests for, as the X-PF-Store-Id header
+}
+
+export type RetryOptions = {
+    maxAttempts?: number,                   // Total attempts including the first one. Defaults to 3, 1 disables retrying
+    baseDelay?: number,                     // Backoff delay in ms for the first retry, doubled on every attempt. Defaults to 1000
+    maxDelay?: number,                      // Upper bound of the backoff delay in ms. Defaults to 60000
+    jitter?: number                         // Random extra delay as a fraction of the delay, e.g. 0.2 adds up to 20%. Defaults to 0.2
+}
+
+export type RateLimitOptions = {
+    rules?: Array<RateLimitRule>            // Checked before the default rules
+}
+
+export type RateLimitRule = {
+    name: string,                           // Bucket name, rules with the same name share a bucket
+    method?: HttpMethod,                    // Only match requests with this method
+    pattern: RegExp,                        // Matched against the request path, e.g. /^\/orders/
+    limit: number,                          // Max requests per interval
+    interval: number                        // Interval in ms
+}
+
+export type QueuePriority = "high" | "normal" | "low"
+
+export type QueueOptions = {
+    concurrency?: number,                   // Max requests in flight. Defaults to Infinity
+    rules?: Array<QueueRule>                // Per endpoint limits, the first matching rule applies
+}
+
+export type QueueRule = {
+    name: string,                           // Group name, rules with the same name share their limit
+    method?: HttpMethod,                    // Only match requests with this method
+    pattern: RegExp,                        // Matched against the request path, e.g. /^\/mockup-generator\//
+    concurrency: number                     // Max requests of the group in flight
+}
+
+export type RequestOptions = CallOptions & {
+    method?: HttpMethod,                    // Defaults to 'GET'
+    origin?: string,                        // Overrides the client origin for this request
+    params?: URLSearchParams,               // Query string parameters
+    body?: unknown,                         // Request payload, serialized as JSON unless it is URLSearchParams
+    auth?: boolean,                         // Send the Authorization header. Defaults to true
+    store?: boolean                         // Endpoint acts on a single store, account level clients must select one
+}
+
+export type Paging = {
+    offset?: number,
+    limit?: number,
+    total?: number
+}
@@ -0,0 +1,29 @@
+import type { OrderRecipient } from "./order"
+
+export type Country = {
+    code: string,                           // 2 letter country code
+    name: string,
+    states: Array<State> | null             // States, provinces or territories, null when the country has none
+}
+
+export type State = {
+    code: string,
+    name: string
+}
+
+export type TaxCountry = {
+    code: string,
+    name: string,
+    states: Array<State & {shipping_taxed: boolean}>
+}
+
+export type TaxRate = {
+    required: boolean,                      // Whether sales tax is required for the given address
+    rate: number,                           // Tax rate
+    shipping_taxable: boolean               // Whether shipping is taxable
+}
+
+export type AddressIssue = {
+    field: keyof OrderRecipient,            // Field of the recipient, e.g. 'state_code'
+    message: string
+}
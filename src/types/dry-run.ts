@@ -0,0 +1,28 @@
+import type { HttpMethod } from "./client"
+
+export type DryRunOptions = {
+    log?: (request: DryRunRequest) => void, // Receives every request not sent. Defaults to console.info
+    rules?: Array<DryRunRule>               // Checked before the default rules of the mutating methods
+}
+
+export type DryRunRequest = {
+    name: string,                           // SDK method, e.g. 'orders.createOrder'
+    method: HttpMethod,
+    url: string,
+    headers: Record<string, string>,        // Headers that would be sent, the Authorization header is redacted
+    body?: unknown                          // Payload that would be sent
+}
+
+export type DryRunContext = {
+    match: RegExpMatchArray,                // Match of the rule pattern against the path, e.g. the order ID
+    params: URLSearchParams,
+    body: unknown                           // Payload of the request
+}
+
+export type DryRunRule = {
+    name: string,                           // SDK method, e.g. 'orders.createOrder'
+    method: HttpMethod,
+    pattern: RegExp,                        // Matched against the request path, capture groups are passed as `match`
+    validate?: (context: DryRunContext) => Array<string>,  // Problems that would make the API reject the request
+    result?: (context: DryRunContext) => unknown           // Synthetic result. Defaults to the body with the ID from the path
+}
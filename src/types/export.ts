@@ -0,0 +1,60 @@
+import type { CallOptions } from "./client"
+import type { OrderStatus } from "./order"
+
+export type ExportFormat = "csv" | "jsonl"
+
+export type ExportColumn = "order_id"
+    | "external_id"
+    | "status"
+    | "created"                             // ISO date time
+    | "updated"                             // ISO date time
+    | "shipping"                            // Shipping method
+    | "shipping_service_name"
+    | "recipient_name"
+    | "recipient_country_code"
+    | "recipient_state_code"
+    | "currency"
+    | "subtotal"
+    | "discount"
+    | "shipping_cost"
+    | "digitization"
+    | "additional_fee"
+    | "fulfillment_fee"
+    | "retail_delivery_fee"
+    | "tax"
+    | "vat"
+    | "total"
+    | "retail_currency"
+    | "retail_subtotal"
+    | "retail_discount"
+    | "retail_shipping"
+    | "retail_tax"
+    | "retail_total"
+    | "item_id"
+    | "item_external_id"
+    | "variant_id"
+    | "sync_variant_id"
+    | "external_variant_id"
+    | "item_name"
+    | "sku"
+    | "quantity"
+    | "item_price"
+    | "item_retail_price"
+
+export type ExportRow = Partial<Record<ExportColumn, string | number | null>>
+
+export type OrderExportOptions = CallOptions & {
+    status?: OrderStatus | Array<OrderStatus>,  // Only export orders with these statuses. All by default
+    from?: Date | number | string,          // Only export orders created at or after this date (Date, timestamp in ms or ISO string)
+    to?: Date | number | string,            // Only export orders created before this date
+    level?: "item" | "order",               // One row per line item, or per order without item columns. Defaults to 'item'
+    columns?: Array<ExportColumn>,          // Columns to export, in order. Defaults to every column of the level
+    delimiter?: string,                     // CSV cell delimiter. Defaults to ','
+    escapeFormulas?: boolean,               // Prefix CSV text cells starting with =, +, -, @, tab or CR with ' so spreadsheets don't run them as formulas. Defaults to true
+    limit?: number                          // Orders per page, capped at 100. Defaults to 100
+}
+
+export type ExportStream = {
+    write(chunk: string): boolean | void,   // e.g. a Node.js Writable, `false` waits for 'drain' when `once` is available
+    once?(event: "drain", listener: () => void): unknown
+}
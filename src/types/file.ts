@@ -1,6 +1,7 @@
 export type File = {
+    id?: number,                            // File Library ID, instead of the url
     type?: string,
-    url: string,
+    url?: string,
     options?: Array<FileOption>,
     filename?: string,
     visible?: boolean,
@@ -28,3 +29,31 @@ export type FilePosition = {
     limit_to_print_area?: boolean
 }
 
+
+
+export type FileInfo = {
+    id: number,                             // File ID
+    type: string,                           // Role of the file, e.g. 'default' or 'preview'
+    hash: string | null,                    // MD5 checksum of the file
+    url: string | null,                     // Source URL where the file was downloaded from
+    filename: string | null,
+    mime_type: string | null,
+    size: number,                           // Size in bytes
+    width: number | null,                   // Width in pixels
+    height: number | null,                  // Height in pixels
+    dpi: number | null,                     // Resolution DPI
+    status: FileStatus,                     // 'ok' once the file was downloaded and processed
+    created: number,                        // Unix timestamp (seconds) when the file was created
+    thumbnail_url: string | null,           // Small thumbnail URL
+    preview_url: string | null,             // Medium preview image URL
+    visible: boolean,                       // Whether the file is shown in the File Library
+    is_temporary?: boolean,
+    options?: Array<FileOption>,
+    position?: FilePosition
+}
+
+export type FileStatus = "ok" | "waiting" | "failed"
+
+export type ThreadColors = {
+    thread_colors: Array<string>            // Suggested thread colors as hex codes
+}
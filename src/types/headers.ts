@@ -1,3 +1,4 @@
 export type Headers = {
-    Authorization: string
+    Authorization: string,
+    "X-PF-Store-Id"?: string                // Store of the request, used with account level tokens
 }
\ No newline at end of file
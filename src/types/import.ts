@@ -0,0 +1,66 @@
+import type { APIError } from "./response"
+import type { Order, OrderCosts, OrderIssue, OrderResponse } from "./order"
+
+export type ImportField = "external_id"
+    | "shipping"
+    | "recipient.name"
+    | "recipient.company"
+    | "recipient.address1"
+    | "recipient.address2"
+    | "recipient.city"
+    | "recipient.state_code"
+    | "recipient.country_code"
+    | "recipient.zip"
+    | "recipient.phone"
+    | "recipient.email"
+    | "recipient.tax_number"
+    | "item.external_id"
+    | "item.variant_id"
+    | "item.sync_variant_id"
+    | "item.external_variant_id"
+    | "item.warehouse_product_variant_id"
+    | "item.product_template_id"
+    | "item.external_product_id"
+    | "item.quantity"
+    | "item.retail_price"
+    | "item.name"
+    | "item.file_url"                       // URL of the print file, sent as `files: [{url}]`
+    | "item.file_type"                      // Placement of the print file, e.g. 'back'
+
+export type OrderImportOptions = {
+    columns?: Partial<Record<ImportField, string>>,     // CSV header of each field, merged over DEFAULT_IMPORT_COLUMNS
+    delimiter?: string,                     // Cell delimiter. Defaults to ','
+    confirm?: boolean                       // Submit the imported orders for fulfillment instead of saving drafts. Defaults to false
+}
+
+export type ImportedOrder = {
+    external_id: string,
+    rows: Array<number>,                    // CSV lines of the order, one per item
+    order: Order,
+    issues: Array<OrderIssue & {row?: number}>  // Problems found before calling the API, with the line they were found on
+}
+
+export type ImportOrderReport = {
+    external_id: string,
+    rows: Array<number>,
+    order: Order,
+    costs: OrderCosts | null,               // Estimated costs, null when the order could not be estimated
+    result: OrderResponse | null,           // Created order, null in dry runs and when the order failed
+    error: APIError | null
+}
+
+export type ImportRowReport = {
+    row: number,                            // CSV line, the header is line 1
+    external_id: string | null,
+    success: boolean,
+    order: number | null,                   // ID of the created order
+    error: string | null
+}
+
+export type ImportReport = {
+    dryRun: boolean,                        // Whether the orders were only estimated
+    orders: Array<ImportOrderReport>,
+    rows: Array<ImportRowReport>,           // One per data row, in CSV order
+    succeeded: number,                      // Orders estimated (dry run) or created
+    failed: number
+}
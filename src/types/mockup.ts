@@ -11,4 +11,74 @@ export type MockupTask = {
 	product_template_id?: number
 }
 
-export type Orientation = "horizontal" | "vertical" | ""
\ No newline at end of file
+export type Orientation = "horizontal" | "vertical" | ""
+
+export type MockupTaskStatus = "pending" | "completed" | "failed"
+
+export type MockupTaskCreated = {
+	task_key: string,
+	status: MockupTaskStatus
+}
+
+export type MockupTaskResult = {
+	task_key: string,
+	status: MockupTaskStatus,
+	error?: string,
+	mockups?: Array<Mockup>,
+	printfiles?: Array<MockupPrintfile>
+}
+
+export type Mockup = {
+	placement: string,
+	variant_ids: Array<number>,
+	mockup_url: string,
+	extra: Array<{title: string, url: string, option?: string, option_group?: string}>
+}
+
+export type MockupPrintfile = {
+	variant_ids: Array<number>,
+	placement: string,
+	url: string
+}
+
+export type ProductPrintfiles = {
+	product_id: number,
+	available_placements: Record<string, string>,
+	printfiles: Array<Printfile>,
+	variant_printfiles: Array<{variant_id: number, placements: Record<string, number>}>,
+	option_groups: Array<string>,
+	options: Array<string>
+}
+
+export type Printfile = {
+	printfile_id: number,
+	width: number,
+	height: number,
+	dpi: number,
+	fill_mode: string,
+	can_rotate: boolean
+}
+
+export type LayoutTemplates = {
+	version: number,
+	min_dpi: number,
+	variant_mapping: Array<{variant_id: number, templates: Array<{placement: string, template_id: number}>}>,
+	templates: Array<LayoutTemplate>,
+	conflicting_placements?: Array<{placement: string, conflicts: Array<string>}>
+}
+
+export type LayoutTemplate = {
+	template_id: number,
+	image_url: string,
+	background_url: string | null,
+	background_color: string | null,
+	printfile_id: number,
+	template_width: number,
+	template_height: number,
+	print_area_width: number,
+	print_area_height: number,
+	print_area_top: number,
+	print_area_left: number,
+	is_template_on_front: boolean,
+	orientation: Orientation
+}
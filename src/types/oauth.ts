@@ -0,0 +1,24 @@
+export type OAuthTokens = {
+    access_token: string,
+    refresh_token: string,
+    expires_at: number,                     // Unix timestamp (seconds) when the access token expires
+    token_type?: string                     // Always 'bearer'
+}
+
+export type TokenStore = {
+    get(): Promise<OAuthTokens | null> | OAuthTokens | null,
+    set(tokens: OAuthTokens): Promise<void> | void
+}
+
+export type OAuthOptions = {
+    clientId: string,                       // Client ID of your public app
+    clientSecret: string,                   // Secret key of your public app
+    redirectUrl?: string,                   // Where Printful redirects after authorization. Defaults to the one set in the app settings
+    tokenStore?: TokenStore,                // Where tokens are persisted. Defaults to an in-memory store
+    refreshMargin?: number,                 // Refresh tokens expiring within this many seconds. Defaults to 300
+    authOrigin?: string                     // Origin of the authorization and token endpoints. Defaults to 'https://www.printful.com'
+}
+
+export type TokenScopes = {
+    scopes: Array<{title: string, value: string}>
+}
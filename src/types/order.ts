@@ -1,4 +1,5 @@
-import type { File } from "./file"
+import type { CallOptions } from "./client"
+import type { File, FileInfo } from "./file"
 import type { ProductVariant } from "./product"
 
 export type Order = {
@@ -77,6 +78,16 @@ export type ItemOption = {
     value?: string
 }
 
+export type OrderIssue = {
+    path: string,                           // Field of the order, e.g. 'items[0].quantity'
+    message: string
+}
+
+export type SubmitOrderOptions = CallOptions & {
+    maxAttempts?: number,                   // Attempts of each step (create, confirm) when the outcome is unknown. Defaults to 3
+    retryDelay?: number                     // Delay in ms before the second attempt, doubled on every attempt. Defaults to 1000
+}
+
 export type OrderStatus = "draft"
     | "pending"
     | "failed"
@@ -85,4 +96,115 @@ export type OrderStatus = "draft"
     | "onhold"
     | "partial"
     | "fulfilled"
-    | "archived"
\ No newline at end of file
+    | "archived"
+
+export type OrderAction = "cancel" | "update" | "confirm"
+
+export type OrderWatchOptions = CallOptions & {
+    until?: OrderStatus | Array<OrderStatus>,   // Status to wait for. Defaults to 'fulfilled'
+    interval?: number,                      // Delay in ms before the next poll after a change. Defaults to 5000
+    maxInterval?: number,                   // Upper bound of the delay, which grows while nothing changes. Defaults to 300000
+    backoff?: number,                       // Factor applied to the delay after a poll without changes. Defaults to 1.5
+    maxWait?: number,                       // Time in ms to wait for the status, failing with PrintfulTimeoutError. 0 waits forever. Defaults to 0
+    onStatusChange?: (event: OrderStatusEvent) => void,     // Called with the first status polled and every change after it
+    onShipment?: (event: OrderShipmentEvent) => void        // Called for every shipment of the order, once
+}
+
+export type OrderStatusEvent = {
+    id: number | string,                    // ID the order is watched by, as given
+    order: OrderResponse,
+    previous: OrderStatus | null,           // Status before the change, null on the first poll
+    status: OrderStatus
+}
+
+export type OrderShipmentEvent = {
+    id: number | string,                    // ID the order is watched by, as given
+    order: OrderResponse,
+    shipment: Shipment
+}
+
+export type OrderResponse = {
+    id: number,                             // Order ID
+    external_id: string | null,             // Order ID from the external system
+    store: number,                          // Store ID
+    status: OrderStatus,
+    shipping: string,                       // Shipping method
+    shipping_service_name: string,          // Human readable shipping method name
+    created: number,                        // Unix timestamp (seconds) when the order was created
+    updated: number,                        // Unix timestamp (seconds) when the order was last updated
+    recipient: OrderRecipient,
+    items: Array<OrderItemResponse>,
+    branding_items?: Array<OrderItemResponse>,      // Branding items (e.g. inside labels) added to the order
+    incomplete_items?: Array<IncompleteItem>,       // Items from the external system that could not be synced
+    costs: OrderCosts,                      // Printful costs charged for the order
+    retail_costs: OrderRetailCosts & {total?: string | null},
+    pricing_breakdown?: Array<PricingBreakdown>,
+    shipments: Array<Shipment>,             // Shipments already sent for the order
+    gift: OrderGift | null,
+    packing_slip: OrderPackingSlip | null,
+    is_sample?: boolean,
+    needs_approval?: boolean,               // Order has an approval sheet waiting for a decision
+    not_synced?: boolean,
+    has_discontinued_items?: boolean,
+    can_change_hold?: boolean,
+    dashboard_url?: string                  // Link to the order in the Printful dashboard
+}
+
+export type OrderItemResponse = Omit<OrderItem, "files"> & {
+    id: number,
+    files: Array<FileInfo>
+}
+
+export type OrderCosts = {
+    currency: string,                       // 3 letter currency code
+    subtotal: string,                       // Total cost of all items
+    discount: string,                       // Discount sum
+    shipping: string,                       // Shipping costs
+    digitization: string,                   // Digitization costs
+    additional_fee: string,                 // Additional fees for custom product options
+    fulfillment_fee: string,                // Custom fulfillment fees
+    retail_delivery_fee?: string,           // Retail delivery fee (e.g. Colorado)
+    tax: string,                            // Sum of taxes (not included in the item price)
+    vat: string,                            // Sum of VAT (not included in the item price)
+    total: string                           // Grand total (subtotal - discount + tax + vat + shipping)
+}
+
+export type OrderCostEstimate = {
+    costs: OrderCosts,
+    retail_costs: OrderRetailCosts & {total?: string | null}
+}
+
+export type Shipment = {
+    id: number,                             // Shipment ID
+    carrier: string,                        // Carrier name
+    service: string,                        // Delivery service name
+    tracking_number: number | string,
+    tracking_url: string,
+    created: number,                        // Unix timestamp (seconds) when the shipment was created
+    ship_date: string,                      // Ship date as YYYY-MM-DD
+    shipped_at: number,                     // Unix timestamp (seconds) when the shipment was shipped
+    reshipment: boolean,                    // Whether this is a reshipment
+    items: Array<ShipmentItem>
+}
+
+export type ShipmentItem = {
+    item_id: number,                        // Line item ID
+    quantity: number,                       // Quantity of items in this shipment
+    picked?: number,
+    printed?: number
+}
+
+export type IncompleteItem = {
+    name: string,
+    quantity: number,
+    sync_variant_id: number,
+    external_variant_id: string,
+    external_line_item_id: string
+}
+
+export type PricingBreakdown = {
+    customer_pays: string,
+    printful_price: string,
+    profit: string,
+    currency_symbol: string
+}
@@ -1,3 +1,5 @@
+import type { SyncVariantResponse } from "./variant"
+
 export type SyncProduct = {
     external_id?: string,
     name: string,
@@ -19,4 +21,19 @@ export type ProductVariant = {
     name?: string
 }
 
-export type Status = "synced" | "unsynced" | "all"
\ No newline at end of file
+export type Status = "synced" | "unsynced" | "all"
+
+export type SyncProductResponse = {
+    id: number,                             // Sync Product ID
+    external_id: string,                    // Product ID from the external system
+    name: string,
+    variants: number,                       // Total number of Sync Variants
+    synced: number,                         // Number of synced Sync Variants
+    thumbnail_url: string | null,
+    is_ignored: boolean
+}
+
+export type SyncProductInfo = {
+    sync_product: SyncProductResponse,
+    sync_variants: Array<SyncVariantResponse>
+}
@@ -0,0 +1,13 @@
+export type ReportStatistics = {
+    store_id: number,
+    currency: string,
+    sales_and_costs?: Array<Record<string, string | number>>,
+    sales_and_costs_summary?: Array<Record<string, string | number>>,
+    printful_costs?: Record<string, string | number>,
+    profit?: Record<string, string | number>,
+    total_paid_orders?: Record<string, string | number>,
+    costs_by_amount?: Array<Record<string, string | number>>,
+    costs_by_product?: Array<Record<string, string | number>>,
+    costs_by_variant?: Array<Record<string, string | number>>,
+    average_fulfillment_time?: Record<string, string | number>
+}
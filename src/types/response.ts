@@ -0,0 +1,29 @@
+import type { Paging } from "./client"
+
+export type APIError = {
+    reason: string,                         // Error reason, e.g. 'NotFound' or 'Timeout'
+    message: string                         // Human readable description
+}
+
+/**
+ * Result of every API method. When the request fails `error` is set and `result` is null,
+ * check `error` (or use `throwOnError`) before reading the result: it narrows `result` to `T`.
+ */
+export type APIResult<T> = APISuccess<T> | APIFailure
+
+export type APISuccess<T> = {
+    result: T,
+    code: number,
+    error: null
+}
+
+export type APIFailure = {
+    result: null,
+    code: number,
+    error: APIError
+}
+
+/**
+ * Result of list API methods
+ */
+export type APIPagedResult<T> = APIResult<Array<T>> & {paging: Paging}
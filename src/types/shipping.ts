@@ -1,3 +1,6 @@
+import type { CallOptions } from "./client"
+import type { Order } from "./order"
+
 export type ShippingInfo = {
     recipient: ShippingRecipient,
     items: Array<ShippingItem>,
@@ -20,4 +23,30 @@ export type ShippingItem = {
     warehouse_product_variant_id?: string,
     quantity: number,
     value?: string
-}
\ No newline at end of file
+}
+
+export type ShippingRate = {
+    id: string,                             // Shipping method, use it as `shipping` of the order
+    name: string,                           // Human readable name
+    rate: string,                           // Shipping rate
+    currency: string,
+    minDeliveryDays?: number,               // Estimated minimum delivery days
+    maxDeliveryDays?: number,               // Estimated maximum delivery days
+    minDeliveryDate?: string,               // Estimated minimum delivery date as YYYY-MM-DD
+    maxDeliveryDate?: string                // Estimated maximum delivery date as YYYY-MM-DD
+}
+
+export type ShippingPolicy = "cheapest" | "fastest"
+
+export type ShippingSelectOptions = CallOptions & {
+    policy?: ShippingPolicy,                // 'cheapest' rate or 'fastest' delivery (by max delivery days). Defaults to 'cheapest'
+    maxDeliveryDays?: number,               // Only consider methods delivering within this many days, e.g. cheapest within 5 days
+    currency?: string,                      // 3 letter currency code of the rates. Defaults to the store currency
+    locale?: string                         // Locale of the method names, e.g. 'en_US'
+}
+
+export type ShippingSelection = {
+    order: Order,                           // The order with `shipping` set to the chosen method
+    rate: ShippingRate,                     // Chosen rate
+    rates: Array<ShippingRate>              // Every rate returned for the order
+}
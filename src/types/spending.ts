@@ -0,0 +1,19 @@
+export type SpendEntry = {
+    order: number | null,                   // Order ID, null when the confirmation failed without a definite answer
+    external_id: string | null,
+    amount: number,                         // Total charged for the order, or its estimate when the order ID is null
+    currency: string,                       // 3 letter currency code
+    time: number                            // Timestamp (ms) of the confirmation
+}
+
+export type SpendLedger = {
+    entries(since: number): Promise<Array<SpendEntry>> | Array<SpendEntry>,     // Entries recorded at or after the timestamp (ms)
+    add(entry: SpendEntry): Promise<void> | void
+}
+
+export type SpendingGuardOptions = {
+    maxOrderCost?: number,                  // Max total of a single order, in the order currency
+    maxDailySpend?: number,                 // Max total of the orders confirmed per day (UTC), per currency
+    currencies?: Array<string>,             // Currencies orders may be charged in, e.g. ['USD']. Any by default
+    ledger?: SpendLedger                    // Keeps the confirmed orders. Defaults to an in-memory ledger
+}
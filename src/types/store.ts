@@ -0,0 +1,14 @@
+import type { OrderPackingSlip } from "./order"
+
+export type StoreInfo = {
+    id: number,                             // Store ID
+    type: string,                           // Store type, e.g. 'native' or 'shopify'
+    name: string,
+    website?: string | null,
+    currency?: string,
+    created?: number,                       // Unix timestamp (seconds) when the store was created
+    packing_slip?: OrderPackingSlip | null,
+    return_address?: object | null,
+    billing_address?: object | null,
+    payment_card?: object | null
+}
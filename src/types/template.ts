@@ -0,0 +1,18 @@
+export type ProductTemplate = {
+    id: number,                             // Template ID
+    product_id: number,                     // Catalog product ID
+    external_product_id: string | null,
+    title: string,
+    available_variant_ids: Array<number>,
+    option_data: Array<{id: string, value: Array<string> | string}>,
+    colors: Array<{color_name: string, color_codes: Array<string>}>,
+    sizes: Array<string>,
+    mockup_file_url: string,
+    placements: Array<{placement: string, display_name: string, technique_key: string, technique_display_name: string}>,
+    created_at: number,                     // Unix timestamp (seconds)
+    updated_at: number                      // Unix timestamp (seconds)
+}
+
+export type ProductTemplateList = {
+    items: Array<ProductTemplate>
+}
@@ -0,0 +1,35 @@
+import type { HttpMethod } from "./client"
+
+export type ValidationMode = "warn" | "throw" | "report"
+
+export type ValidationOptions = {
+    mode?: ValidationMode,                  // 'warn' logs drift with console.warn, 'throw' throws PrintfulSchemaError, 'report' only calls onDrift. Defaults to 'warn'
+    onDrift?: (drift: SchemaDrift) => void | Promise<void>,     // Called for every response that does not match its schema, in every mode
+    rules?: Array<SchemaRule>               // Checked before the default rules
+}
+
+export type Schema = {
+    expected: string,                       // Description of the expected value, e.g. 'number' or 'array<object>'
+    optional?: boolean,                     // The field may be missing from its object
+    check(value: unknown, path: string, issues: Array<SchemaIssue>): void
+}
+
+export type SchemaRule = {
+    name: string,                           // SDK method, e.g. 'orders.getOrder'
+    method?: HttpMethod,                    // Only match requests with this method
+    pattern: RegExp,                        // Matched against the request path, e.g. /^\/orders\/[^/]+$/
+    schema: Schema                          // Schema of the `result` field
+}
+
+export type SchemaIssue = {
+    path: string,                           // Location of the mismatch, e.g. 'result.costs.total'
+    expected: string,
+    received: string                        // Type of the received value, 'missing' when the field is absent
+}
+
+export type SchemaDrift = {
+    name: string,                           // Name of the matched rule
+    request: {method: HttpMethod, url: string},
+    issues: Array<SchemaIssue>,
+    result: unknown                         // The unexpected result
+}
@@ -1,4 +1,5 @@
-import type { File } from "./file"
+import type { File, FileInfo } from "./file"
+import type { ProductVariant, SyncProductResponse } from "./product"
 
 export type SyncVariant = {
     external_id?: string,
@@ -23,4 +24,28 @@ export type OptionalSyncVariant = {
 export type SyncVariantOption = {
     id: string,
     value: string | Array<string>
-}
\ No newline at end of file
+}
+
+export type SyncVariantResponse = {
+    id: number,                             // Sync Variant ID
+    external_id: string,                    // Variant ID from the external system
+    sync_product_id: number,
+    name: string,
+    synced: boolean,                        // Whether the variant is linked to a Printful catalog variant
+    variant_id: number,                     // Printful catalog variant ID
+    main_category_id?: number,
+    warehouse_product_variant_id: number | null,
+    retail_price: string | null,
+    sku: string | null,
+    currency: string,
+    product: ProductVariant,
+    files: Array<FileInfo>,
+    options: Array<SyncVariantOption>,
+    is_ignored: boolean,
+    availability_status?: string
+}
+
+export type SyncVariantInfo = {
+    sync_variant: SyncVariantResponse,
+    sync_product: SyncProductResponse
+}
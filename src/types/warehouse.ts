@@ -0,0 +1,23 @@
+export type WarehouseProduct = {
+    id: number,                             // Warehouse product ID
+    name: string,
+    status: string,                         // e.g. 'draft', 'pending' or 'approved'
+    currency: string,
+    image_url: string | null,
+    retail_price: string | null,
+    variants?: Array<WarehouseVariant>
+}
+
+export type WarehouseVariant = {
+    id: number,                             // Use it as warehouse_product_variant_id of order items
+    name: string,
+    sku: string,
+    image_url: string | null,
+    retail_price: string | null,
+    quantity: number,
+    length: number,
+    width: number,
+    height: number,
+    weight: number,
+    stocks: Array<{facility_id: number, facility_name?: string, quantity: number}>
+}
@@ -2,4 +2,10 @@ export type WebhookConfig = {
 	url: string,
 	types: Array<string>,
 	params?: object
-}
\ No newline at end of file
+}
+
+export type WebhookInfo = {
+	url: string | null,
+	types: Array<string>,
+	params: object
+}
@@ -1,4 +1,5 @@
-import {PrintfulStoreClient, createPrintfulStoreClient} from "../src/client"
+import {PrintfulStoreClient, createPrintfulStoreClient, PrintfulAccountClient, createPrintfulAccountClient} from "../src/client"
+import { createFakeFetch } from "./data/fetch";
 require('dotenv').config()
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -11,4 +12,52 @@ describe("Client",()=>{
         const client = createPrintfulStoreClient(process.env.TEST_AUTH);
         expect(client).toBeInstanceOf(PrintfulStoreClient);
     })
-})
\ No newline at end of file
+})
+
+describe("Account Client",()=>{
+    it("should instantiate an instance of PrintfulAccountClient",()=>{
+        const client = createPrintfulAccountClient(process.env.TEST_AUTH);
+        expect(client).toBeInstanceOf(PrintfulAccountClient);
+        expect(client).toBeInstanceOf(PrintfulStoreClient);
+    })
+
+    it("should send the X-PF-Store-Id header of the selected store", async ()=>{
+        const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: []}}));
+        const client = createPrintfulAccountClient("TOKEN", {fetch});
+        await client.orders.getAllOrders();
+        await client.forStore(42).orders.getAllOrders();
+        expect(calls[0].init.headers["X-PF-Store-Id"]).toBeUndefined();
+        expect(calls[1].init.headers["X-PF-Store-Id"]).toBe("42");
+        expect(calls[1].init.headers.Authorization).toBe("Bearer TOKEN");
+    })
+
+    it("should create clients for every store of the account", async ()=>{
+        const {fetch, calls} = createFakeFetch((url) => url.includes("/stores")
+            ? {body: {code: 200, result: [{id: 1, name: "First"}, {id: 2, name: "Second"}], paging: {total: 2, offset: 0, limit: 100}}}
+            : {body: {code: 200, result: {}}});
+        const client = createPrintfulAccountClient("TOKEN", {fetch});
+        const stores = await client.getStoreClients();
+        expect(stores.map(({store}) => store.name)).toEqual(["First", "Second"]);
+        expect(stores.map(({client}) => client.storeId)).toEqual([1, 2]);
+        await stores[1].client.webhook.getWebhookConfig();
+        expect(calls[1].init.headers["X-PF-Store-Id"]).toBe("2");
+    })
+
+    it("should require a store for product and packing slip endpoints", async ()=>{
+        const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: []}}));
+        const client = createPrintfulAccountClient("TOKEN", {fetch});
+        const {result, code, error} = await client.products.getAllSyncProducts();
+        expect(result).toBeNull();
+        expect(code).toBe(400);
+        expect(error?.reason).toBe("StoreRequired");
+        const packingSlip = await client.storeInformation.changePackingSlip({email: "support@example.com"});
+        expect(packingSlip.error?.reason).toBe("StoreRequired");
+        expect(calls.length).toBe(0);
+
+        const scoped = await client.forStore(1).products.getAllSyncProducts();
+        expect(scoped.error).toBeNull();
+        // store level tokens are already scoped to their store
+        const store = await createPrintfulStoreClient("TOKEN", {fetch}).products.getAllSyncProducts();
+        expect(store.error).toBeNull();
+    })
+})
@@ -0,0 +1,19 @@
+import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { SYNC_PRODUCT, SYNC_VARIANTS } from "./products";
+require('dotenv').config()
+
+// Sync Product ID the products tests read, it exists in the live test store too
+export const SEEDED_SYNC_PRODUCT_ID = 314179759;
+
+// Runs against the mock server unless TEST_LIVE=1, then against the store of TEST_AUTH
+export const LIVE = process.env.TEST_LIVE === "1";
+
+export function createTestClient(): {client: PrintfulStoreClient, server: MockPrintfulServer}{
+	const server = new MockPrintfulServer();
+	server.addSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS, SEEDED_SYNC_PRODUCT_ID);
+	const client = LIVE
+		? createPrintfulStoreClient(process.env.TEST_AUTH)
+		: createPrintfulStoreClient("TEST_TOKEN", {fetch: server.fetch});
+	return {client, server};
+}
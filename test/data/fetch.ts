@@ -0,0 +1,32 @@
+// Fake fetch implementation that records every call and replies with the given handler
+export type FakeCall = {url: string, init: any};
+
+export type FakeReply = {status?: number, body: any, headers?: Record<string,string>, delay?: number};
+
+export function createFakeFetch(handler: (url: string, init: any) => FakeReply){
+	const calls: Array<FakeCall> = [];
+	const fetch = async (url: string, init?: any): Promise<any> => {
+		calls.push({url, init});
+		const {status = 200, body, headers = {}, delay = 0} = handler(url, init);
+		if (delay > 0) await wait(delay, init && init.signal);
+		return {
+			ok: status < 400,
+			status,
+			headers: {get: (name: string) => headers[name.toLowerCase()] ?? null},
+			json: async () => typeof body === "string" ? JSON.parse(body) : body,
+			text: async () => typeof body === "string" ? body : JSON.stringify(body),
+		};
+	};
+	return {fetch, calls};
+}
+
+// Resolves after ms, rejects like fetch does when the signal aborts first
+function wait(ms: number, signal?: AbortSignal){
+	return new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		signal && signal.addEventListener("abort", () => {
+			clearTimeout(timer);
+			reject(Object.assign(new Error("The operation was aborted."), {name: "AbortError"}));
+		});
+	});
+}
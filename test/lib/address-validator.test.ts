@@ -0,0 +1,53 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { validateAddress, taxNumberProblem } from "../../src/lib/address-validator";
+import { MOCK_COUNTRIES } from "../../src/lib/mock-data";
+
+const US = {address1: "19749 Dearborn St", city: "Chatsworth", state_code: "CA", country_code: "US", zip: "91311"};
+const BR = {address1: "Av. Paulista, 1578", city: "São Paulo", country_code: "BR", zip: "01310-200", tax_number: "123.456.789-09"};
+
+describe("AddressValidator Tests", ()=>{
+	it("should accept valid addresses", ()=>{
+		expect(validateAddress(US, MOCK_COUNTRIES)).toEqual([]);
+		expect(validateAddress({...US, zip: "91311-1234"}, MOCK_COUNTRIES)).toEqual([]);
+		expect(validateAddress({...US, country_code: "CA", state_code: "ON", zip: "K1A 0B1"}, MOCK_COUNTRIES)).toEqual([]);
+		expect(validateAddress(BR, MOCK_COUNTRIES)).toEqual([]);
+		expect(validateAddress({address1: "Unter den Linden 1", city: "Berlin", country_code: "DE", zip: "10117"}, MOCK_COUNTRIES)).toEqual([]);
+	});
+
+	it("should check country and state codes", ()=>{
+		expect(validateAddress({...US, country_code: "XX"}, MOCK_COUNTRIES)).toEqual([{field: "country_code", message: "'XX' is not a country code of the API"}]);
+		expect(validateAddress({...US, state_code: "ZZ"}, MOCK_COUNTRIES)).toEqual([{field: "state_code", message: "'ZZ' is not a state code of United States"}]);
+		expect(validateAddress({...US, country_code: "AU", state_code: undefined, zip: "2000"}, MOCK_COUNTRIES)).toEqual([{field: "state_code", message: "is required in Australia"}]);
+		expect(validateAddress({country_code: "GB", zip: "SW1A 1AA"}, MOCK_COUNTRIES)).toEqual([
+			{field: "address1", message: "is required"},
+			{field: "city", message: "is required"}
+		]);
+	});
+
+	it("should check zip formats", ()=>{
+		expect(validateAddress({...US, zip: "9131"}, MOCK_COUNTRIES)).toEqual([{field: "zip", message: "'9131' is not a valid zip in United States, e.g. 91311 or 91311-1234"}]);
+		expect(validateAddress({...US, zip: ""}, MOCK_COUNTRIES)).toEqual([{field: "zip", message: "is required in United States"}]);
+		expect(validateAddress({...US, country_code: "CA", state_code: "QC", zip: "123456"}, MOCK_COUNTRIES)[0].field).toBe("zip");
+	});
+
+	it("should check Brazilian CPF and CNPJ tax numbers", ()=>{
+		expect(taxNumberProblem("123.456.789-09")).toBeNull();
+		expect(taxNumberProblem("11.222.333/0001-81")).toBeNull();
+		expect(taxNumberProblem("12345678909")).toBe("must be a CPF formatted as 000.000.000-00 or a CNPJ formatted as 00.000.000/0000-00");
+		expect(taxNumberProblem("123.456.789-10")).toBe("is not a valid CPF number (check digits don't match)");
+		expect(taxNumberProblem("11.222.333/0001-82")).toBe("is not a valid CNPJ number (check digits don't match)");
+		expect(taxNumberProblem("111.111.111-11")).toBe("is not a valid CPF number (check digits don't match)");
+		expect(validateAddress({...BR, tax_number: undefined}, MOCK_COUNTRIES)).toEqual([{field: "tax_number", message: "is required in Brazil (CPF or CNPJ)"}]);
+	});
+
+	it("should load the country list once through the client", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result, error} = await client.addresses.validate({...US, state_code: "ca"});
+		expect(error).toBeNull();
+		expect(result).toEqual([{field: "state_code", message: "'ca' is not a state code of United States"}]);
+		expect((await client.addresses.validate(BR)).result).toEqual([]);
+		expect(server.requests.filter(({path}) => path === "/countries").length).toBe(1);
+	});
+});
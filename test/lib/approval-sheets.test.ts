@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 require('dotenv').config()
 
 // NOTE: These Tests are optimistic, see TODO 
@@ -7,7 +8,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
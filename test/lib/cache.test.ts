@@ -0,0 +1,126 @@
+import * as os from "os";
+import * as path from "path";
+import { promises as fs } from "fs";
+import {createPrintfulStoreClient} from "../../src/client";
+import { MemoryCacheStore } from "../../src/lib/cache";
+import FileCacheStore from "../../src/lib/file-cache-store";
+import { createFakeFetch } from "../data/fetch";
+
+const ENTRY = {data: {code: 200, result: []}, expiresAt: 0, staleUntil: 0};
+
+// Replies with an increasing version number so cached responses can be told apart
+function createVersionedFetch(headers: Record<string,string> = {}){
+	let version = 0;
+	return createFakeFetch(() => ({body: {code: 200, result: {version: ++version}}, headers}));
+}
+
+describe("Cache Tests", ()=>{
+	it("should not cache when the cache option is not set", async ()=>{
+		const {fetch, calls} = createVersionedFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		await client.catalog.getProduct(71);
+		await client.catalog.getProduct(71);
+		expect(calls.length).toBe(2);
+	});
+
+	it("should serve catalog, country and tax lookups from the cache", async ()=>{
+		const {fetch, calls} = createVersionedFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {}});
+		expect((await client.catalog.getProduct(71)).result).toEqual({version: 1});
+		expect((await client.catalog.getProduct(71)).result).toEqual({version: 1});
+		await client.countryCodes.getCountryList();
+		await client.countryCodes.getCountryList();
+		await client.taxRate.getCountryTaxList();
+		await client.taxRate.getCountryTaxList();
+		await client.orders.getAllOrders();
+		await client.orders.getAllOrders();
+		expect(calls.length).toBe(5);
+	});
+
+	it("should not cache failed responses", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({status: 404, body: {code: 404, result: "Not found", error: {reason: "NotFound", message: "Not found"}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {}});
+		await client.catalog.getProduct(1);
+		await client.catalog.getProduct(1);
+		expect(calls.length).toBe(2);
+	});
+
+	it("should not cache network failures", async ()=>{
+		let calls = 0;
+		const fetch = async (url: string, init?: any) => {
+			if (++calls === 1) throw new Error("socket hang up");
+			return createVersionedFetch().fetch(url, init);
+		};
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {}});
+		expect((await client.catalog.getProduct(71)).error?.reason).toBe("NetworkError");
+		expect((await client.catalog.getProduct(71)).result).toEqual({version: 1});
+		expect(calls).toBe(2);
+	});
+
+	it("should apply per endpoint TTLs and serve stale responses while revalidating", async ()=>{
+		const {fetch, calls} = createVersionedFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {rules: [{pattern: /^\/products\//, ttl: 50, staleWhileRevalidate: 1000}]}});
+		await client.catalog.getProduct(71);
+		await new Promise((r) => setTimeout(r, 60));
+		// stale response is returned, a refresh starts in the background
+		expect((await client.catalog.getProduct(71)).result).toEqual({version: 1});
+		await new Promise((r) => setTimeout(r, 10));
+		expect((await client.catalog.getProduct(71)).result).toEqual({version: 2});
+		expect(calls.length).toBe(2);
+	});
+
+	it("should revalidate expired entries with their ETag", async ()=>{
+		let count = 0;
+		const {fetch, calls} = createFakeFetch(() => ++count === 1
+			? {body: {code: 200, result: {version: 1}}, headers: {etag: "\"v1\""}}
+			: {status: 304, body: ""});
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {rules: [{pattern: /^\/countries$/, ttl: 1}]}});
+		await client.countryCodes.getCountryList();
+		await new Promise((r) => setTimeout(r, 5));
+		const {result} = await client.countryCodes.getCountryList();
+		expect(result).toEqual({version: 1});
+		expect(calls[1].init.headers["If-None-Match"]).toBe("\"v1\"");
+	});
+
+	it("should invalidate cached responses by path", async ()=>{
+		const {fetch, calls} = createVersionedFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, cache: {}});
+		await client.catalog.getProduct(71);
+		await client.catalog.getProduct(72);
+		await client.invalidateCache("/products/71");
+		await client.catalog.getProduct(71);
+		await client.catalog.getProduct(72);
+		expect(calls.length).toBe(3);
+		await client.invalidateCache();
+		await client.catalog.getProduct(72);
+		expect(calls.length).toBe(4);
+	});
+
+	it("should evict the least recently used entry of the memory store", ()=>{
+		const store = new MemoryCacheStore(2);
+		store.set("a", ENTRY);
+		store.set("b", ENTRY);
+		store.get("a");
+		store.set("c", ENTRY);
+		expect(store.keys()).toEqual(["a", "c"]);
+	});
+
+	it("should persist entries with the file store", async ()=>{
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), "printful-cache-"));
+		try{
+			const {fetch, calls} = createVersionedFetch();
+			const options = {fetch, cache: {store: new FileCacheStore(directory)}};
+			await createPrintfulStoreClient("TOKEN", options).catalog.getAllCategories();
+			const {result} = await createPrintfulStoreClient("TOKEN", options).catalog.getAllCategories();
+			expect(result).toEqual({version: 1});
+			expect(calls.length).toBe(1);
+			const store = new FileCacheStore(directory);
+			expect(await store.keys()).toEqual(["https://api.printful.com/categories/"]);
+			await store.delete("https://api.printful.com/categories/");
+			expect(await store.get("https://api.printful.com/categories/")).toBeUndefined();
+		}
+		finally{
+			await fs.rm(directory, {recursive: true, force: true});
+		}
+	});
+})
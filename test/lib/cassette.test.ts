@@ -0,0 +1,110 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {createPrintfulStoreClient} from "../../src/client";
+import Cassette from "../../src/lib/cassette";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { PrintfulCassetteError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+import { createFakeFetch } from "../data/fetch";
+
+let directory: string;
+
+beforeEach(async ()=>{
+	directory = await fs.mkdtemp(path.join(os.tmpdir(), "cassette-"));
+});
+
+afterEach(async ()=>{
+	await fs.rm(directory, {recursive: true, force: true});
+});
+
+// Records the given calls against a fresh mock server
+async function record(file: string, calls: (client: ReturnType<typeof createPrintfulStoreClient>) => Promise<unknown>){
+	const server = new MockPrintfulServer();
+	const client = createPrintfulStoreClient("SECRET_TOKEN", {fetch: server.fetch, cassette: new Cassette(file, {mode: "record"})});
+	await calls(client);
+}
+
+// Fetch that fails the test if the cassette lets a request through
+const offline = createFakeFetch(() => { throw new Error("Network used while replaying") }).fetch;
+
+describe("Cassette Tests", ()=>{
+	it("should replay recorded responses without calling the API", async ()=>{
+		const file = path.join(directory, "orders.json");
+		await record(file, async (client) => {
+			await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "tape-1"});
+			await client.orders.getOrder("@tape-1");
+		});
+		const client = createPrintfulStoreClient("OTHER_TOKEN", {fetch: offline, cassette: new Cassette(file)});
+		const {result: created, code} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "tape-1"});
+		expect(code).toBe(200);
+		const {result} = await client.orders.getOrder("@tape-1");
+		expect(result?.id).toBe(created!.id);
+		expect(result?.recipient.country_code).toBe("US");
+	});
+
+	it("should scrub the bearer token and recipient PII from recordings", async ()=>{
+		const file = path.join(directory, "orders.json");
+		await record(file, (client) => client.orders.createOrder(EXAMPLE_ORDER));
+		const contents = await fs.readFile(file, "utf8");
+		expect(contents).not.toContain("SECRET_TOKEN");
+		expect(contents).not.toContain(EXAMPLE_ORDER.recipient.address1);
+		expect(contents).not.toContain(EXAMPLE_ORDER.recipient.email);
+		const {interactions} = JSON.parse(contents);
+		expect(interactions[0].request.headers.Authorization).toBe("[REDACTED]");
+		expect(interactions[0].request.body.recipient.name).toBe("[REDACTED]");
+		expect(interactions[0].response.body.result.recipient.state_code).toBe("CA");
+	});
+
+	it("should return unredacted responses while recording", async ()=>{
+		const file = path.join(directory, "orders.json");
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("SECRET_TOKEN", {fetch: server.fetch, cassette: new Cassette(file, {mode: "record", redact: ["external_id"]})});
+		const {result} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "tape-live"});
+		expect(result?.recipient.name).toBe(EXAMPLE_ORDER.recipient.name);
+		expect(result?.external_id).toBe("tape-live");
+		const {interactions} = JSON.parse(await fs.readFile(file, "utf8"));
+		expect(interactions[0].response.body.result.recipient.name).toBe("[REDACTED]");
+		expect(interactions[0].response.body.result.external_id).toBe("[REDACTED]");
+	});
+
+	it("should fail unmatched requests with strict matching", async ()=>{
+		const file = path.join(directory, "orders.json");
+		await record(file, (client) => client.orders.getAllOrders(0, 10));
+		const client = createPrintfulStoreClient("TOKEN", {fetch: offline, cassette: new Cassette(file)});
+		const {code, error} = await client.orders.getAllOrders(0, 20);
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("CassetteMismatch");
+		expect(error?.message).toContain("GET https://api.printful.com/orders?limit=20");
+		expect((await client.orders.getAllOrders(0, 10)).code).toBe(200);
+		const {error: replayed} = await client.orders.getAllOrders(0, 10);
+		expect(replayed?.message).toContain("already replayed");
+	});
+
+	it("should match method and path with loose matching", async ()=>{
+		const file = path.join(directory, "orders.json");
+		await record(file, (client) => client.orders.getAllOrders(0, 10));
+		const client = createPrintfulStoreClient("TOKEN", {fetch: offline, cassette: new Cassette(file, {match: "loose"})});
+		expect((await client.orders.getAllOrders(0, 20)).code).toBe(200);
+		expect((await client.orders.getAllOrders(5, 5)).code).toBe(200);
+		expect((await client.orders.getOrder(1)).error?.reason).toBe("CassetteMismatch");
+	});
+
+	it("should throw a PrintfulCassetteError for a missing cassette", async ()=>{
+		const client = createPrintfulStoreClient("TOKEN", {fetch: offline, throwOnError: true, cassette: new Cassette(path.join(directory, "missing.json"))});
+		await expect(client.orders.getAllOrders()).rejects.toBeInstanceOf(PrintfulCassetteError);
+	});
+
+	it("should record once and replay afterwards in auto mode", async ()=>{
+		const file = path.join(directory, "auto", "countries.json");
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: [{code: "US", name: "United States"}]}}));
+		const first = new Cassette(file, {mode: "auto"});
+		await createPrintfulStoreClient("TOKEN", {fetch, cassette: first}).countryCodes.getCountryList();
+		expect(first.recording).toBe(true);
+		const second = new Cassette(file, {mode: "auto"});
+		const {result} = await createPrintfulStoreClient("TOKEN", {fetch, cassette: second}).countryCodes.getCountryList();
+		expect(second.recording).toBe(false);
+		expect(result?.[0].code).toBe("US");
+		expect(calls.length).toBe(1);
+	});
+});
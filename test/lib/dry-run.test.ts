@@ -0,0 +1,70 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { EXAMPLE_ORDER } from "../data/orders";
+import { SYNC_PRODUCT, SYNC_VARIANTS } from "../data/products";
+import type { DryRunRequest } from "../../src/types/dry-run";
+
+// Dry run client over a mock server, collecting the logged requests
+function createDryRunClient(dryRun = true){
+	const server = new MockPrintfulServer();
+	const logged: Array<DryRunRequest> = [];
+	const client = createPrintfulStoreClient("SECRET_TOKEN", {fetch: server.fetch, dryRun: dryRun && {log: (request) => logged.push(request)}});
+	return {client, server, logged};
+}
+
+describe("Dry Run Tests", ()=>{
+	it("should log mutating requests instead of sending them", async ()=>{
+		const {client, server, logged} = createDryRunClient();
+		const {result, code, error} = await client.orders.createOrder(EXAMPLE_ORDER, true);
+		expect(error).toBeNull();
+		expect(code).toBe(200);
+		expect(result?.status).toBe("pending");
+		expect(result?.external_id).toBe(EXAMPLE_ORDER.external_id);
+		expect(server.requests.length).toBe(0);
+		expect(logged[0].name).toBe("orders.createOrder");
+		expect(logged[0].url).toBe("https://api.printful.com/orders?confirm=true");
+		expect(logged[0].headers.Authorization).toBe("[REDACTED]");
+		expect(logged[0].body).toEqual(EXAMPLE_ORDER);
+	});
+
+	it("should still send read requests", async ()=>{
+		const {client, server, logged} = createDryRunClient();
+		const {code} = await client.orders.getAllOrders();
+		const {code: estimateCode} = await client.orders.estimateOrderCost(EXAMPLE_ORDER);
+		expect(code).toBe(200);
+		expect(estimateCode).toBe(200);
+		expect(server.requests.length).toBe(2);
+		expect(logged.length).toBe(0);
+	});
+
+	it("should return synthetic results with the ID from the path", async ()=>{
+		const {client, logged} = createDryRunClient();
+		expect((await client.orders.cancelOrder("@order-7")).result).toMatchObject({id: "@order-7", status: "canceled"});
+		expect((await client.orders.confirmOrder(42)).result).toMatchObject({id: 42, status: "pending"});
+		expect((await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS)).result).toMatchObject({id: 0, name: SYNC_PRODUCT.name, variants: 2});
+		expect((await client.webhook.disableWebhookSupport()).result?.url).toBeNull();
+		expect(logged.map(({name}) => name)).toEqual(["orders.cancelOrder", "orders.confirmOrder", "products.createSyncProduct", "webhook.disableWebhookSupport"]);
+	});
+
+	it("should fail requests the API would reject", async ()=>{
+		const {client, logged} = createDryRunClient();
+		const {code, error} = await client.orders.createOrder({...EXAMPLE_ORDER, items: [{...EXAMPLE_ORDER.items[0], quantity: 1001}]});
+		expect(code).toBe(400);
+		expect(error?.message).toContain("items[0].quantity must be between 1 and 1000");
+		const {error: fileError} = await client.fileLibrary.addFile({url: ""});
+		expect(fileError?.message).toContain("url is required");
+		expect(logged.length).toBe(0);
+	});
+
+	it("should be overridden per call", async ()=>{
+		const {client, server} = createDryRunClient();
+		const {result} = await client.orders.createOrder(EXAMPLE_ORDER, false, undefined, {dryRun: false});
+		expect(result?.id).toBe(server.orders[0].id);
+		const info = jest.spyOn(console, "info").mockImplementation(() => {});
+		const {client: live, server: liveServer} = createDryRunClient(false);
+		await live.orders.cancelOrder(1, {dryRun: true});
+		expect(liveServer.requests.length).toBe(0);
+		expect(info).toHaveBeenCalledWith("[dry run] orders.cancelOrder: DELETE https://api.printful.com/orders/1");
+		info.mockRestore();
+	});
+});
@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 import { SYNC_PRODUCT, SYNC_VARIANTS, MODIFIED_SYNC_VARIANT } from "../data/products";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 
@@ -31,7 +32,7 @@ describe("EcommerceSyncAPI Tests", ()=>{
 	it("Get information about a single Sync Product and its Sync Variants", async ()=>{
 		const {result: products} = await client.ecommerceSync.getAllEcommProducts();
 		await new Promise((r) => setTimeout(r, 100));
-		const {result, error, code} = await client.ecommerceSync.getEcommProduct(products[0].id);
+		const {result, error, code} = await client.ecommerceSync.getEcommProduct(products![0].id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
@@ -41,7 +42,7 @@ describe("EcommerceSyncAPI Tests", ()=>{
 	it("Deletes a Sync Product with all of its Sync Variants", async ()=>{
 		const {result: productToDelete} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
 		await new Promise((r) => setTimeout(r, 100));
-		const {result, error, code} = await client.ecommerceSync.deleteEcommProduct(productToDelete.id);
+		const {result, error, code} = await client.ecommerceSync.deleteEcommProduct(productToDelete!.id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
@@ -51,7 +52,7 @@ describe("EcommerceSyncAPI Tests", ()=>{
 	it("Get information about a single Sync Variant", async ()=>{
 		const {result: products} = await client.ecommerceSync.getAllEcommProducts();
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.ecommerceSync.getEcommProduct(products[0].id);
+        const {sync_variants} = (await client.ecommerceSync.getEcommProduct(products![0].id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.ecommerceSync.getEcommVariant(sync_variants[0].id);
 		expect(error).toBeNull();
@@ -63,20 +64,20 @@ describe("EcommerceSyncAPI Tests", ()=>{
 	it("Modifies an existing Sync Variant.", async ()=>{
 		const {result: product} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.ecommerceSync.getEcommProduct(product.id);
+        const {sync_variants} = (await client.ecommerceSync.getEcommProduct(product!.id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.ecommerceSync.modifyEcommVariant(sync_variants[0].id, MODIFIED_SYNC_VARIANT);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
-		expect(result.sync_variant.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
+		expect(result?.sync_variant.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
 	})
 
 	/* deleteEcommVariant() */
 	it("Deletes configuraton information (variant_id, print files and options) and disables automatic order importing for this Sync Variant", async ()=>{
-		const {result: {id}} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
+		const {id} = (await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS)).result!;
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.ecommerceSync.getEcommProduct(id);
+        const {sync_variants} = (await client.ecommerceSync.getEcommProduct(id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
         const {result, error, code} = await client.ecommerceSync.deleteEcommVariant(sync_variants[0].id);
 		expect(error).toBeNull();
@@ -0,0 +1,88 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import {
+	PrintfulError, PrintfulValidationError, PrintfulAuthError, PrintfulNotFoundError,
+	PrintfulRateLimitError, PrintfulServerError, PrintfulNetworkError, PrintfulParseError
+} from "../../src/lib/errors";
+import { createFakeFetch } from "../data/fetch";
+
+const errorResponse = (status: number, reason: string, message: string) => ({status, body: {code: status, result: message, error: {reason, message}}});
+
+describe("Errors Tests", ()=>{
+	it("should return failed responses as tuples by default", async ()=>{
+		const {fetch} = createFakeFetch(() => errorResponse(404, "NotFound", "Order not found"));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const {result, code, error} = await client.orders.getOrder(1);
+		expect(result).toBeNull();
+		expect(code).toBe(404);
+		expect(error).toEqual({reason: "NotFound", message: "Order not found"});
+	});
+
+	it("should return network and parse failures as tuples by default", async ()=>{
+		const client = createPrintfulStoreClient("TOKEN", {fetch: async () => {throw new Error("socket hang up")}});
+		const network = await client.orders.getOrder(1);
+		expect(network.result).toBeNull();
+		expect(network.code).toBe(0);
+		expect(network.error?.reason).toBe("NetworkError");
+
+		const {fetch} = createFakeFetch(() => ({status: 502, body: "<html>Bad Gateway</html>"}));
+		const parse = await createPrintfulStoreClient("TOKEN", {fetch}).orders.getOrder(1);
+		expect(parse.result).toBeNull();
+		expect(parse.code).toBe(502);
+		expect(parse.error?.reason).toBe("ParseError");
+	});
+
+	it("should fail a 200 response with a body that is not JSON", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 200, body: "<html>Maintenance</html>"}));
+		const {result, code, error} = await createPrintfulStoreClient("TOKEN", {fetch}).orders.getOrder(1);
+		expect(result).toBeNull();
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("ParseError");
+	});
+
+	it.each([
+		[400, "BadRequest", PrintfulValidationError],
+		[401, "Unauthorized", PrintfulAuthError],
+		[403, "Forbidden", PrintfulAuthError],
+		[404, "NotFound", PrintfulNotFoundError],
+		[500, "InternalServerError", PrintfulServerError],
+	])("should throw on %i responses when throwOnError is set", async (status, reason, ErrorClass)=>{
+		const {fetch} = createFakeFetch(() => errorResponse(status, reason, "Something went wrong"));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true});
+		const error = await client.orders.cancelOrder(7).catch((e) => e);
+		expect(error).toBeInstanceOf(ErrorClass);
+		expect(error).toBeInstanceOf(PrintfulError);
+		expect(error.status).toBe(status);
+		expect(error.reason).toBe(reason);
+		expect(error.message).toBe("Something went wrong");
+		expect(error.request).toEqual({method: "DELETE", url: "https://api.printful.com/orders/7"});
+	});
+
+	it("should throw rate limit errors with the retry delay", async ()=>{
+		const {fetch} = createFakeFetch(() => ({...errorResponse(429, "TooManyRequests", "Too Many Requests"), headers: {"retry-after": "30"}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true, retry: {maxAttempts: 1}});
+		const error = await client.orders.getOrder(1).catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulRateLimitError);
+		expect(error.retryAfter).toBe(30);
+	});
+
+	it("should throw network and parse errors when throwOnError is set", async ()=>{
+		const cause = new Error("socket hang up");
+		const client = createPrintfulStoreClient("TOKEN", {fetch: async () => {throw cause}, throwOnError: true});
+		const network = await client.orders.getOrder(1).catch((e) => e);
+		expect(network).toBeInstanceOf(PrintfulNetworkError);
+		expect(network.cause).toBe(cause);
+
+		const {fetch} = createFakeFetch(() => ({status: 200, body: "not json"}));
+		const parse = await createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true}).orders.getOrder(1).catch((e) => e);
+		expect(parse).toBeInstanceOf(PrintfulParseError);
+		expect(parse.result).toBe("not json");
+	});
+
+	it("should resolve successful responses when throwOnError is set", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: {id: 1}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true});
+		const {result, error} = await client.orders.getOrder(1);
+		expect(result).toEqual({id: 1});
+		expect(error).toBeNull();
+	});
+})
@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 import { EXAMPLE_FILE, FAULTY_EXAMPLE_FILE } from "../data/file-library";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -34,7 +35,7 @@ describe("FileLibraryAPI Tests", ()=>{
 	/* getFile() */
 	it("Returns information about the given file.", async ()=>{
 		const {result: fileToFetch} = await client.fileLibrary.addFile(EXAMPLE_FILE); 
-		const {result, error, code} = await client.fileLibrary.getFile(fileToFetch.id);
+		const {result, error, code} = await client.fileLibrary.getFile(fileToFetch!.id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
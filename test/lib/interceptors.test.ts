@@ -0,0 +1,141 @@
+import {createPrintfulStoreClient, createPrintfulAccountClient} from "../../src/client";
+import { PrintfulNetworkError, PrintfulNotFoundError, PrintfulValidationError } from "../../src/lib/errors";
+import { REDACTED } from "../../src/lib/interceptors";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import MemoryTokenStore from "../../src/lib/token-store";
+import type { InterceptorRequest } from "../../src/lib/interceptors";
+import { createFakeFetch } from "../data/fetch";
+
+const OK = {body: {code: 200, result: {id: 1}}};
+
+describe("Interceptor Tests", ()=>{
+	it("should run hooks in order around each request", async ()=>{
+		const {fetch} = createFakeFetch(() => OK);
+		const order: Array<string> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, interceptors: [
+			{beforeRequest: () => {order.push("before 1")}, afterResponse: () => {order.push("after 1")}},
+		]});
+		client.use({beforeRequest: async () => {order.push("before 2")}, afterResponse: (request, response) => {
+			order.push("after 2");
+			expect(response.status).toBe(200);
+			expect(response.data).toHaveProperty("result", {id: 1});
+			expect(response.duration).toBeGreaterThanOrEqual(0);
+		}});
+		const {result} = await client.orders.getOrder(1);
+		expect(result).toEqual({id: 1});
+		expect(order).toEqual(["before 1", "before 2", "after 1", "after 2"]);
+	});
+
+	it("should redact the Authorization header from hooks", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({status: 404, body: {code: 404, result: "Not found", error: {reason: "NotFound", message: "Not found"}}}));
+		const seen: Array<Record<string, string>> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, interceptors: [{
+			beforeRequest: (request) => {seen.push({...request.headers})},
+			afterResponse: (request) => {seen.push({...request.headers})},
+			onError: (request) => {seen.push({...request.headers})},
+		}]});
+		await client.orders.getOrder(1);
+		expect(seen.length).toBe(3);
+		seen.forEach((headers) => expect(headers.Authorization).toBe(REDACTED));
+		expect(JSON.stringify(seen)).not.toContain("TOKEN");
+		expect(calls[0].init.headers.Authorization).toBe("Bearer TOKEN");
+	});
+
+	it("should redact OAuth secrets of token requests from hooks", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({status: 400, body: {error: "invalid_grant", error_description: "Authorization code is invalid"}}));
+		const seen: Array<string> = [];
+		const client = createPrintfulStoreClient(undefined, {fetch, oauth: {clientId: "app-123", clientSecret: "secret"}, interceptors: [{
+			beforeRequest: (request) => {seen.push(String(request.body))},
+			onError: (request) => {seen.push(String(request.body))},
+		}]});
+		await client.oauth.exchangeCode("the-code");
+		await client.oauth.refreshTokens("the-refresh-token");
+		expect(seen.length).toBe(4);
+		expect(seen[0]).toBe("grant_type=authorization_code&client_id=app-123&client_secret=%5BREDACTED%5D&code=%5BREDACTED%5D");
+		expect(seen.join()).not.toMatch(/secret&|the-code|the-refresh-token/);
+		expect(calls[0].init.body.toString()).toBe("grant_type=authorization_code&client_id=app-123&client_secret=secret&code=the-code");
+		expect(calls[1].init.body.get("refresh_token")).toBe("the-refresh-token");
+	});
+
+	it("should redact OAuth tokens of token responses from hooks", async ()=>{
+		const server = new MockPrintfulServer();
+		const tokenStore = new MemoryTokenStore({access_token: "old", refresh_token: "old-refresh", expires_at: Math.floor(Date.now() / 1000) + 60});
+		const responses: Array<unknown> = [];
+		const client = createPrintfulStoreClient(undefined, {fetch: server.fetch, oauth: {clientId: "app-123", clientSecret: "secret", tokenStore}, interceptors: [{
+			afterResponse: (request, response) => {responses.push(response.data)},
+		}]});
+		expect((await client.orders.getAllOrders()).code).toBe(200);
+		const tokens = await tokenStore.get();
+		expect(tokens?.access_token).toMatch(/^mock-access-/);
+		expect(responses[0]).toMatchObject({access_token: REDACTED, refresh_token: REDACTED, token_type: "bearer"});
+		expect(JSON.stringify(responses)).not.toContain(tokens!.access_token);
+		expect(JSON.stringify(responses)).not.toContain(tokens!.refresh_token);
+	});
+
+	it("should redact OAuth tokens of error results from hooks", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 400, body: {code: 400, result: {refresh_token: "live-refresh"}, error: {reason: "BadRequest", message: "Bad request"}}}));
+		const errors: Array<unknown> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, interceptors: [{onError: (request, error) => {errors.push(error)}}]});
+		await client.orders.getOrder(1);
+		expect(errors[0]).toBeInstanceOf(PrintfulValidationError);
+		expect(errors[0]).toMatchObject({status: 400, reason: "BadRequest", result: {refresh_token: REDACTED}});
+	});
+
+	it("should run interceptors added later on store clients", async ()=>{
+		const {fetch} = createFakeFetch(() => OK);
+		const urls: Array<string> = [];
+		const account = createPrintfulAccountClient("TOKEN", {fetch});
+		const store = account.forStore(7);
+		account.use({beforeRequest: (request) => {urls.push(request.url)}});
+		await store.orders.getOrder(1);
+		await account.forStore(8).orders.getOrder(2);
+		expect(urls).toEqual(["https://api.printful.com/orders/1", "https://api.printful.com/orders/2"]);
+	});
+
+	it("should let beforeRequest change the request", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => OK);
+		const client = createPrintfulStoreClient("TOKEN", {fetch}).use({beforeRequest: (request) => {
+			request.headers["X-Request-Id"] = "abc";
+			request.url += "?trace=1";
+			request.body = {...(request.body as object), extra: true};
+		}});
+		await client.webhook.setWebhookConfig({url: "https://example.com", types: []});
+		expect(calls[0].url).toBe("https://api.printful.com/webhooks?trace=1");
+		expect(calls[0].init.headers["X-Request-Id"]).toBe("abc");
+		expect(calls[0].init.headers.Authorization).toBe("Bearer TOKEN");
+		expect(JSON.parse(calls[0].init.body).extra).toBe(true);
+	});
+
+	it("should call onError with the typed error before throwing", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 404, body: {code: 404, result: "Not found", error: {reason: "NotFound", message: "Not found"}}}));
+		const errors: Array<unknown> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true, interceptors: [{onError: (request, error) => {errors.push(error)}}]});
+		const thrown = await client.orders.getOrder(1).catch((e) => e);
+		expect(thrown).toBeInstanceOf(PrintfulNotFoundError);
+		expect(errors).toEqual([thrown]);
+	});
+
+	it("should call onError for network failures", async ()=>{
+		const fetch = async () => {throw new TypeError("socket hang up")};
+		const requests: Array<InterceptorRequest> = [];
+		const errors: Array<unknown> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, interceptors: [{onError: (request, error) => {requests.push(request); errors.push(error)}}]});
+		const {code, error} = await client.orders.getOrder(1);
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("NetworkError");
+		expect(errors[0]).toBeInstanceOf(PrintfulNetworkError);
+		expect(requests[0].attempt).toBe(1);
+	});
+
+	it("should run the hooks again for retried attempts", async ()=>{
+		let calls = 0;
+		const {fetch} = createFakeFetch(() => ++calls === 1 ? {status: 429, body: {code: 429, result: "Too many requests"}, headers: {"retry-after": "0"}} : OK);
+		const attempts: Array<[number, number]> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, retry: {baseDelay: 1, jitter: 0}, interceptors: [{
+			afterResponse: (request, response) => {attempts.push([request.attempt, response.status])},
+		}]});
+		const {result} = await client.orders.getOrder(1);
+		expect(result).toEqual({id: 1});
+		expect(attempts).toEqual([[1, 429], [2, 200]]);
+	});
+});
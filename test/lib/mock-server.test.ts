@@ -0,0 +1,84 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { EXAMPLE_ORDER } from "../data/orders";
+import { SYNC_PRODUCT, SYNC_VARIANTS } from "../data/products";
+import { EXAMPLE_MOCKUP_TASK } from "../data/mockup-generator";
+
+describe("MockPrintfulServer Tests", ()=>{
+	it("should reject requests without a valid token except public endpoints", async ()=>{
+		const server = new MockPrintfulServer({token: "SECRET"});
+		const client = createPrintfulStoreClient("WRONG", {fetch: server.fetch});
+		const {code, error} = await client.orders.getAllOrders();
+		expect(code).toBe(401);
+		expect(error?.reason).toBe("Unauthorized");
+		const {code: catalogCode} = await client.catalog.getCategory(24);
+		expect(catalogCode).toBe(200);
+	});
+
+	it("should page lists like the API", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		for (let i = 0; i < 5; i++){
+			await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "page-" + i});
+		}
+		const {result, paging} = await client.orders.getAllOrders(2, 2);
+		expect(result?.map((order) => order.external_id)).toEqual(["page-2", "page-1"]);
+		expect(paging).toEqual({total: 5, offset: 2, limit: 2});
+	});
+
+	it("should move orders through fulfillment", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result: order} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "ship-1"}, true);
+		expect(order?.costs.total).toBe("18.69");
+		server.setOrderStatus(order!.id, "inprocess");
+		const {code: cancelCode} = await client.orders.cancelOrder(order!.id);
+		expect(cancelCode).toBe(400);
+		const shipment = server.shipOrder("@ship-1");
+		const {result} = await client.orders.getOrder("@ship-1");
+		expect(result?.status).toBe("fulfilled");
+		expect(result?.shipments[0].tracking_number).toBe(shipment.tracking_number);
+	});
+
+	it("should update existing orders by external ID when asked to", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result: order} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "upsert-1"});
+		const {result, code} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "upsert-1", shipping: "EXPRESS"}, false, true);
+		expect(code).toBe(200);
+		expect(result?.id).toBe(order!.id);
+		expect(result?.shipping).toBe("EXPRESS");
+		expect(server.orders.length).toBe(1);
+	});
+
+	it("should keep sync products addressable by ID and External ID", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result: created} = await client.products.createSyncProduct({...SYNC_PRODUCT, external_id: "bella"}, SYNC_VARIANTS);
+		const {sync_variants} = (await client.products.getSyncProduct("@bella")).result!;
+		expect(sync_variants.map((variant) => variant.variant_id)).toEqual([4011, 4012]);
+		await client.products.deleteSyncVariant(sync_variants[0].id);
+		const {result} = await client.products.getSyncProduct(created!.id);
+		expect(result?.sync_product.variants).toBe(1);
+	});
+
+	it("should complete mockup tasks after the configured polls", async ()=>{
+		const server = new MockPrintfulServer({mockupPolls: 2});
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result: task} = await client.mockupGenerator.createMockupTask(71, EXAMPLE_MOCKUP_TASK);
+		const {result: first} = await client.mockupGenerator.getMockupTaskResult(task!.task_key);
+		expect(first?.status).toBe("pending");
+		const {result: second} = await client.mockupGenerator.getMockupTaskResult(task!.task_key);
+		expect(second?.status).toBe("completed");
+		expect(second?.mockups?.map((mockup) => mockup.placement)).toEqual(["front", "back"]);
+	});
+
+	it("should remember the webhook config until it is disabled", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		await client.webhook.setWebhookConfig({url: "https://example.com/hook", types: ["package_shipped"]});
+		expect((await client.webhook.getWebhookConfig()).result?.url).toBe("https://example.com/hook");
+		await client.webhook.disableWebhookSupport();
+		expect((await client.webhook.getWebhookConfig()).result?.url).toBeNull();
+	});
+});
@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient, LIVE } from "../data/client";
 import { EXAMPLE_MOCKUP_TASK } from "../data/mockup-generator";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 
@@ -48,10 +49,11 @@ describe("MockupGeneratorAPI Tests", ()=>{
 
     /* getMockupTaskResult() */
     it("Returns asynchronous mockup generation task result.", async ()=>{
-        await new Promise((r) => setTimeout(r, 60000));
+        // the live API allows one mockup task per minute
+        if (LIVE) await new Promise((r) => setTimeout(r, 60000));
         const {result: taskToCheck} = await client.mockupGenerator.createMockupTask(71, EXAMPLE_MOCKUP_TASK);
 		await new Promise((r) => setTimeout(r, 100));
-        const {result, error, code} = await client.mockupGenerator.getMockupTaskResult(taskToCheck.task_key);
+        const {result, error, code} = await client.mockupGenerator.getMockupTaskResult(taskToCheck!.task_key);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
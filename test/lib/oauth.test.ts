@@ -1,10 +1,13 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {createPrintfulStoreClient, createPrintfulAccountClient, PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
+import MemoryTokenStore from "../../src/lib/token-store";
+import { createFakeFetch } from "../data/fetch";
 require('dotenv').config()
 
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 
@@ -21,4 +24,91 @@ describe("OAuthAPI Tests", ()=>{
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
 	})
+})
+
+const OAUTH = {clientId: "app-123", clientSecret: "secret", redirectUrl: "https://example.com/callback"};
+const now = () => Math.floor(Date.now() / 1000);
+
+// Replies to the token endpoint with new tokens and to everything else with an empty result
+function createOAuthFetch(){
+	let issued = 0;
+	return createFakeFetch((url) => url.endsWith("/oauth/token")
+		? {body: {access_token: "access-" + ++issued, refresh_token: "refresh-" + issued, expires_at: now() + 3600, token_type: "bearer"}}
+		: {body: {code: 200, result: {}}});
+}
+
+describe("OAuthAPI Authorization Code Flow Tests", ()=>{
+	it("should build the authorize URL", ()=>{
+		const client = createPrintfulStoreClient(undefined, {oauth: OAUTH});
+		expect(client.oauth.getAuthorizeUrl("xyz")).toBe("https://www.printful.com/oauth/authorize?client_id=app-123&redirect_url=https%3A%2F%2Fexample.com%2Fcallback&state=xyz");
+	});
+
+	it("should exchange the code for tokens and use them for the following requests", async ()=>{
+		const {fetch, calls} = createOAuthFetch();
+		const tokenStore = new MemoryTokenStore();
+		const client = createPrintfulStoreClient(undefined, {fetch, oauth: {...OAUTH, tokenStore}});
+		const {result, error} = await client.oauth.exchangeCode("the-code");
+		expect(error).toBeNull();
+		expect(result?.access_token).toBe("access-1");
+		expect(calls[0].url).toBe("https://www.printful.com/oauth/token");
+		expect(calls[0].init.headers.Authorization).toBeUndefined();
+		expect(calls[0].init.body.toString()).toBe("grant_type=authorization_code&client_id=app-123&client_secret=secret&code=the-code");
+		expect((await tokenStore.get())?.refresh_token).toBe("refresh-1");
+
+		await client.orders.getAllOrders();
+		expect(calls[1].init.headers.Authorization).toBe("Bearer access-1");
+	});
+
+	it("should refresh expiring tokens once before requests", async ()=>{
+		const {fetch, calls} = createOAuthFetch();
+		const tokenStore = new MemoryTokenStore({access_token: "old", refresh_token: "old-refresh", expires_at: now() + 60});
+		const client = createPrintfulStoreClient(undefined, {fetch, oauth: {...OAUTH, tokenStore}});
+		await Promise.all([client.orders.getAllOrders(), client.webhook.getWebhookConfig()]);
+		const refreshes = calls.filter((call) => call.url.endsWith("/oauth/token"));
+		expect(refreshes.length).toBe(1);
+		expect(refreshes[0].init.body.get("refresh_token")).toBe("old-refresh");
+		expect(calls.slice(1).map((call) => call.init.headers.Authorization)).toEqual(["Bearer access-1", "Bearer access-1"]);
+		expect((await tokenStore.get())?.access_token).toBe("access-1");
+	});
+
+	it("should use stored tokens that are not expiring", async ()=>{
+		const {fetch, calls} = createOAuthFetch();
+		const tokenStore = new MemoryTokenStore({access_token: "stored", refresh_token: "r", expires_at: now() + 3600});
+		const client = createPrintfulStoreClient(undefined, {fetch, oauth: {...OAUTH, tokenStore}});
+		await client.orders.getAllOrders();
+		expect(calls.length).toBe(1);
+		expect(calls[0].init.headers.Authorization).toBe("Bearer stored");
+	});
+
+	it("should share tokens with store clients of an account client", async ()=>{
+		const {fetch, calls} = createOAuthFetch();
+		const account = createPrintfulAccountClient(undefined, {fetch, oauth: OAUTH});
+		await account.oauth.exchangeCode("the-code");
+		await account.forStore(7).orders.getAllOrders();
+		expect(calls[1].init.headers.Authorization).toBe("Bearer access-1");
+	});
+
+	it("should refresh with the latest stored token when store clients refresh in turn", async ()=>{
+		const {fetch, calls} = createOAuthFetch();
+		const tokenStore = new MemoryTokenStore({access_token: "a0", refresh_token: "r0", expires_at: now() + 60});
+		// tokens expiring within 2 hours are refreshed, so every request refreshes
+		const account = createPrintfulAccountClient(undefined, {fetch, oauth: {...OAUTH, tokenStore, refreshMargin: 7200}});
+		const store = account.forStore(7);
+		await account.orders.getAllOrders();
+		await store.orders.getAllOrders();
+		await account.orders.getAllOrders();
+		await Promise.all([account.orders.getAllOrders(), store.orders.getAllOrders()]);
+		const refreshes = calls.filter((call) => call.url.endsWith("/oauth/token")).map((call) => call.init.body.get("refresh_token"));
+		expect(refreshes).toEqual(["r0", "refresh-1", "refresh-2", "refresh-3"]);
+		expect(calls.slice(-2).map((call) => call.init.headers.Authorization)).toEqual(["Bearer access-4", "Bearer access-4"]);
+	});
+
+	it("should return token endpoint errors", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 400, body: {error: "invalid_grant", error_description: "Authorization code is invalid"}}));
+		const client = createPrintfulStoreClient(undefined, {fetch, oauth: OAUTH});
+		const {result, code, error} = await client.oauth.exchangeCode("bad");
+		expect(result).toBeNull();
+		expect(code).toBe(400);
+		expect(error).toEqual({reason: "invalid_grant", message: "Authorization code is invalid"});
+	});
 })
\ No newline at end of file
@@ -0,0 +1,113 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import OrderBuilder from "../../src/lib/order-builder";
+import { OrderValidationError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+
+const FILES = [{url: "https://example.com/front.png"}];
+
+const builder = () => new OrderBuilder("builder-1").recipient(EXAMPLE_ORDER.recipient);
+
+describe("OrderBuilder Tests", ()=>{
+	it("should build an order the API accepts", async ()=>{
+		const order = builder()
+			.shipping("STANDARD")
+			.catalogItem(4011, FILES, 2)
+			.gift("Happy birthday!", "Enjoy")
+			.packingSlip({email: "support@example.com"})
+			.build();
+		expect(order).toEqual({
+			external_id: "builder-1",
+			shipping: "STANDARD",
+			recipient: EXAMPLE_ORDER.recipient,
+			items: [{variant_id: 4011, files: FILES, quantity: 2}],
+			gift: {subject: "Happy birthday!", message: "Enjoy"},
+			packing_slip: {email: "support@example.com"}
+		});
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result, error} = await client.orders.createOrder(order);
+		expect(error).toBeNull();
+		expect(result?.external_id).toBe("builder-1");
+	});
+
+	it("should add sync and template items by ID or external ID", ()=>{
+		const {items} = builder()
+			.syncItem(3965775314)
+			.syncItem("@variant-1", 3)
+			.templateItem(123456, 4012)
+			.templateItem("@template-1", 4013)
+			.build();
+		expect(items).toEqual([
+			{sync_variant_id: 3965775314, quantity: 1},
+			{external_variant_id: "variant-1", quantity: 3},
+			{product_template_id: 123456, variant_id: 4012, quantity: 1},
+			{external_product_id: "template-1", variant_id: 4013, quantity: 1}
+		]);
+	});
+
+	it("should reject product templates combined with other sources", ()=>{
+		const issues = builder()
+			.item({product_template_id: 123456, sync_variant_id: 1, files: FILES, options: []})
+			.item({external_product_id: "template-1", product_template_id: 1, variant_id: 4011})
+			.validate();
+		expect(issues).toEqual([
+			{path: "items[0].sync_variant_id", message: "can't be combined with product_template_id"},
+			{path: "items[0].files", message: "can't be combined with product_template_id"},
+			{path: "items[0].options", message: "can't be combined with product_template_id"},
+			{path: "items[0].variant_id", message: "is required with product_template_id"},
+			{path: "items[1].external_product_id", message: "can't be combined with product_template_id"},
+			{path: "items[1].product_template_id", message: "can't be combined with external_product_id"}
+		]);
+	});
+
+	it("should throw every issue when building", ()=>{
+		const build = () => new OrderBuilder()
+			.catalogItem(4011, [], 1001)
+			.item({quantity: 1})
+			.retailCosts({currency: "USD"})
+			.packingSlip({} as any)
+			.build();
+		expect(build).toThrow(OrderValidationError);
+		try{
+			build();
+		}
+		catch (error: any){
+			expect(error.reason).toBe("InvalidOrder");
+			expect(error.status).toBe(400);
+			expect(error.issues.map(({path}: {path: string}) => path)).toEqual(["recipient", "items[0].files", "items[0].quantity", "items[1]"]);
+			expect(error.message).toContain("items[0].quantity must be an integer between 1 and 1000");
+		}
+	});
+
+	it("should check prices, files and the recipient address", ()=>{
+		const issues = new OrderBuilder({recipient: {...EXAMPLE_ORDER.recipient, city: ""}})
+			.item({variant_id: 4011, files: [{url: ""}], price: "12,50", retail_price: "13.00"})
+			.retailCosts({currency: "USD", subtotal: "13.00"})
+			.packingSlip({message: "Thanks"} as any)
+			.validate();
+		expect(issues).toEqual([
+			{path: "recipient.city", message: "is required"},
+			{path: "items[0].files[0]", message: "needs a url or id"},
+			{path: "items[0].price", message: "must be an amount like '12.50'"},
+			{path: "packing_slip.email", message: "is required"}
+		]);
+	});
+
+	it("should accept library files by id and retail costs without retail prices", ()=>{
+		const issues = builder()
+			.catalogItem(4011, [{id: 123}])
+			.retailCosts({currency: "USD", subtotal: "13.00"})
+			.validate();
+		expect(issues).toEqual([]);
+	});
+
+	it("should return a copy of the order", ()=>{
+		const orders = builder().syncItem(1);
+		const order = orders.build();
+		orders.syncItem(2);
+		order.items[0].quantity = 5;
+		expect(order.items.length).toBe(1);
+		expect(orders.build().items).toEqual([{sync_variant_id: 1, quantity: 1}, {sync_variant_id: 2, quantity: 1}]);
+	});
+});
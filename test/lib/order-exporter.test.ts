@@ -0,0 +1,113 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import OrderExporter from "../../src/lib/order-exporter";
+import { parseCsv } from "../../src/lib/csv";
+import { EXAMPLE_ORDER } from "../data/orders";
+import type { ExportColumn } from "../../src/types/export";
+
+const DAY = 24 * 60 * 60;
+const MAY = Date.UTC(2024, 4, 1) / 1000;
+
+// Orders created on May 1st (draft), May 15th (pending, 2 items), May 31st (canceled) and June 1st (pending)
+async function createExporter(){
+	const server = new MockPrintfulServer();
+	const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+	const items = [...EXAMPLE_ORDER.items, {...EXAMPLE_ORDER.items[0], id: 2, external_id: "line-2", quantity: 3, retail_price: "15.00"}];
+	await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "may-1"});
+	await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "may-15", items}, true);
+	await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "may-31"}, true);
+	await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "june-1"}, true);
+	server.setOrderStatus("@may-31", "canceled");
+	[0, 14, 30, 31].forEach((days, index) => server.orders[index].created = MAY + days * DAY);
+	return {server, exporter: new OrderExporter(client.orders)};
+}
+
+async function collect<T>(iterable: AsyncIterable<T>){
+	const items: Array<T> = [];
+	for await (const item of iterable) items.push(item);
+	return items;
+}
+
+describe("OrderExporter Tests", ()=>{
+	it("should filter orders by created date range and status", async ()=>{
+		const {exporter} = await createExporter();
+		const may = {from: "2024-05-01", to: new Date(Date.UTC(2024, 5, 1))};
+		expect((await collect(exporter.select(may))).map(({external_id}) => external_id)).toEqual(["may-31", "may-15", "may-1"]);
+		expect((await collect(exporter.select({...may, status: ["pending", "draft"]}))).map(({external_id}) => external_id)).toEqual(["may-15", "may-1"]);
+		expect((await collect(exporter.select({status: "pending", from: Date.UTC(2024, 4, 10)}))).map(({external_id}) => external_id)).toEqual(["june-1", "may-15"]);
+	});
+
+	it("should flatten orders and line items with their costs", async ()=>{
+		const {exporter} = await createExporter();
+		const rows = await collect(exporter.rows({status: "pending", to: "2024-06-01"}));
+		expect(rows.length).toBe(2);
+		expect(rows[0]).toMatchObject({
+			external_id: "may-15",
+			status: "pending",
+			created: "2024-05-15T00:00:00.000Z",
+			recipient_country_code: "US",
+			currency: "USD",
+			item_external_id: EXAMPLE_ORDER.items[0].external_id,
+			variant_id: 4011,
+			quantity: 1,
+			item_retail_price: "13.00"
+		});
+		expect(rows[1]).toMatchObject({external_id: "may-15", item_external_id: "line-2", quantity: 3});
+		expect(rows[0].total).toBe(rows[1].total);
+		expect(rows[0].total).toMatch(/^\d+\.\d{2}$/);
+		const orders = await collect(exporter.rows({level: "order", status: "pending"}));
+		expect(orders.map(({external_id}) => external_id)).toEqual(["june-1", "may-15"]);
+		expect(orders[0]).not.toHaveProperty("item_id");
+	});
+
+	it("should write CSV with a header line", async ()=>{
+		const {exporter} = await createExporter();
+		const lines = await collect(exporter.csv({columns: ["external_id", "status", "item_name", "quantity"], from: "2024-05-31"}));
+		expect(lines[0]).toBe("external_id,status,item_name,quantity\r\n");
+		expect(parseCsv(lines.join("")).map(({cells}) => cells)).toEqual([
+			["external_id", "status", "item_name", "quantity"],
+			["june-1", "pending", EXAMPLE_ORDER.items[0].name, "1"],
+			["may-31", "canceled", EXAMPLE_ORDER.items[0].name, "1"],
+		]);
+	});
+
+	it("should escape cells a spreadsheet would run as formulas", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const name = "=HYPERLINK(\"https://example.com\")";
+		await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "-1", recipient: {...EXAMPLE_ORDER.recipient, name}});
+		const exporter = new OrderExporter(client.orders);
+		const columns: Array<ExportColumn> = ["external_id", "recipient_name", "quantity"];
+		const [, escaped] = parseCsv((await collect(exporter.csv({columns}))).join(""));
+		expect(escaped.cells).toEqual(["'-1", "'" + name, "1"]);
+		const [, raw] = parseCsv((await collect(exporter.csv({columns, escapeFormulas: false}))).join(""));
+		expect(raw.cells).toEqual(["-1", name, "1"]);
+	});
+
+	it("should write JSON Lines to a stream and wait for it to drain", async ()=>{
+		const {exporter} = await createExporter();
+		const chunks: Array<string> = [];
+		let drains = 0;
+		const stream = {
+			write: (chunk: string) => chunks.push(chunk) % 2 === 1,
+			once: (event: string, listener: () => void) => {
+				drains++;
+				setTimeout(listener, 1);
+			}
+		};
+		const count = await exporter.write(stream, "jsonl", {columns: ["order_id", "external_id", "retail_total"]});
+		expect(count).toBe(5);
+		expect(drains).toBe(2);
+		expect(chunks.map((chunk) => JSON.parse(chunk).external_id)).toEqual(["june-1", "may-31", "may-15", "may-15", "may-1"]);
+		expect(JSON.parse(chunks[0])).toEqual({order_id: expect.any(Number), external_id: "june-1", retail_total: expect.stringMatching(/^\d+\.\d{2}$/)});
+		expect(chunks.every((chunk) => chunk.endsWith("}\n"))).toBe(true);
+	});
+
+	it("should page through every order", async ()=>{
+		const {server, exporter} = await createExporter();
+		server.requests = [];
+		const rows = await collect(exporter.rows({level: "order", limit: 2}));
+		expect(rows.map(({external_id}) => external_id)).toEqual(["june-1", "may-31", "may-15", "may-1"]);
+		expect(server.requests.filter(({method, path}) => method === "GET" && path === "/orders").length).toBe(2);
+	});
+});
@@ -0,0 +1,92 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import OrderImporter from "../../src/lib/order-importer";
+import { parseCsv } from "../../src/lib/csv";
+import type { OrderImportOptions } from "../../src/types/import";
+
+const CSV = [
+	"external_id,name,address1,city,state_code,country_code,zip,variant_id,quantity,file_url",
+	"wh-1,John Smith,19749 Dearborn St,Chatsworth,CA,US,91311,4011,2,https://example.com/a.png",
+	"wh-2,\"Smith, Jane\",1 Main St,Austin,TX,US,73301,4012,1,https://example.com/b.png",
+	"wh-1,,,,,,,4013,1,https://example.com/c.png",
+].join("\n");
+
+function createImporter(options?: OrderImportOptions){
+	const server = new MockPrintfulServer();
+	const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+	return {server, importer: new OrderImporter(client.orders, options)};
+}
+
+describe("OrderImporter Tests", ()=>{
+	it("should parse quoted cells and line breaks", ()=>{
+		expect(parseCsv('a,b\r\n"x, ""y""",2\n\n"multi\nline",3')).toEqual([
+			{line: 1, cells: ["a", "b"]},
+			{line: 2, cells: ['x, "y"', "2"]},
+			{line: 4, cells: ["multi\nline", "3"]},
+		]);
+	});
+
+	it("should group rows into orders by external ID", ()=>{
+		const {importer} = createImporter();
+		const orders = importer.parse(CSV);
+		expect(orders.map(({external_id, rows}) => [external_id, rows])).toEqual([["wh-1", [2, 4]], ["wh-2", [3]]]);
+		expect(orders[0].order).toEqual({
+			external_id: "wh-1",
+			recipient: {name: "John Smith", address1: "19749 Dearborn St", city: "Chatsworth", state_code: "CA", country_code: "US", zip: "91311"},
+			items: [
+				{variant_id: 4011, quantity: 2, files: [{url: "https://example.com/a.png"}]},
+				{variant_id: 4013, quantity: 1, files: [{url: "https://example.com/c.png"}]}
+			]
+		});
+		expect(orders[1].order.recipient.name).toBe("Smith, Jane");
+	});
+
+	it("should map custom columns", ()=>{
+		const {importer} = createImporter({delimiter: ";", columns: {"external_id": "PO", "recipient.name": "Customer", "item.sync_variant_id": "SKU ID"}});
+		const [{order}] = importer.parse("PO;Customer;SKU ID\nPO-7;Ann;3965775314");
+		expect(order).toEqual({external_id: "PO-7", recipient: {name: "Ann"}, items: [{sync_variant_id: 3965775314}]});
+	});
+
+	it("should estimate every order in a dry run", async ()=>{
+		const {server, importer} = createImporter();
+		const report = await importer.estimate(CSV);
+		expect(report.dryRun).toBe(true);
+		expect(report.succeeded).toBe(2);
+		expect(report.orders[0].costs?.currency).toBe("USD");
+		expect(report.orders.every(({result}) => result === null)).toBe(true);
+		expect(report.rows.map(({row, success}) => [row, success])).toEqual([[2, true], [3, true], [4, true]]);
+		expect(server.orders.length).toBe(0);
+	});
+
+	it("should create drafts or confirmed orders with a report per row", async ()=>{
+		const {server, importer} = createImporter({confirm: true});
+		const report = await importer.import(CSV);
+		expect(report.succeeded).toBe(2);
+		expect(server.orders.map(({external_id, status}) => [external_id, status])).toEqual([["wh-1", "pending"], ["wh-2", "pending"]]);
+		expect(report.rows.map(({order}) => order)).toEqual([server.orders[0].id, server.orders[1].id, server.orders[0].id]);
+		const {server: draftServer, importer: drafts} = createImporter();
+		await drafts.import(CSV);
+		expect(draftServer.orders.map(({status}) => status)).toEqual(["draft", "draft"]);
+	});
+
+	it("should report invalid rows and API errors without stopping", async ()=>{
+		const {server, importer} = createImporter();
+		const report = await importer.import([
+			CSV,
+			"wh-1,John Smith,19749 Dearborn St,Burbank,CA,US,91311,4014,x,https://example.com/d.png",
+			",Ann,1 Main St,Austin,TX,US,73301,4011,1,https://example.com/e.png",
+			"wh-3,Bob,5 Elm St,Seattle,WA,US,98101,99999,1,https://example.com/f.png",
+		].join("\n"));
+		expect(report.failed).toBe(3);
+		expect(report.succeeded).toBe(1);
+		expect(report.rows.map(({row, success, error}) => [row, success, error])).toEqual([
+			[2, false, "Not imported, other rows of the order are invalid"],
+			[3, true, null],
+			[4, false, "Not imported, other rows of the order are invalid"],
+			[5, false, "recipient.city 'Burbank' differs from 'Chatsworth' in an earlier row of the order, items[2].quantity 'x' is not a number"],
+			[6, false, "external_id is required to group rows into orders"],
+			[7, false, "Item 0: variant not found"],
+		]);
+		expect(server.orders.map(({external_id}) => external_id)).toEqual(["wh-2"]);
+	});
+});
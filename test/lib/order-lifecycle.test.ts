@@ -0,0 +1,62 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { canCancel, canConfirm, canUpdate, canTransition, assertOrderAction } from "../../src/lib/order-lifecycle";
+import { OrderStateError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+import type { ClientOptions } from "../../src/types/client";
+
+function createCheckedClient(options: ClientOptions = {}){
+	const server = new MockPrintfulServer();
+	return {server, client: createPrintfulStoreClient("TOKEN", {fetch: server.fetch, checkOrderState: true, ...options})};
+}
+
+describe("Order Lifecycle Tests", ()=>{
+	it("should know the actions allowed in each status", ()=>{
+		expect([canCancel("draft"), canUpdate("draft"), canConfirm("draft")]).toEqual([true, true, true]);
+		expect([canCancel("pending"), canUpdate("pending"), canConfirm("pending")]).toEqual([true, false, false]);
+		expect([canCancel("failed"), canUpdate("failed"), canConfirm("failed")]).toEqual([true, true, false]);
+		expect([canCancel({status: "inprocess"}), canUpdate({status: "fulfilled"}), canConfirm({status: "canceled"})]).toEqual([false, false, false]);
+		expect(canTransition("pending", "inprocess")).toBe(true);
+		expect(canTransition("fulfilled", "pending")).toBe(false);
+		expect(canTransition("archived", "draft")).toBe(false);
+	});
+
+	it("should explain refused actions", ()=>{
+		expect(() => assertOrderAction({id: 12, status: "draft"}, "confirm")).not.toThrow();
+		try{
+			assertOrderAction({id: 12, status: "fulfilled"}, "cancel");
+		}
+		catch (error: any){
+			expect(error).toBeInstanceOf(OrderStateError);
+			expect(error.message).toBe("Order 12 can't be canceled in status 'fulfilled', only in draft, pending, failed or onhold");
+			expect(error.reason).toBe("InvalidOrderState");
+			expect(error.orderStatus).toBe("fulfilled");
+			expect(error.allowed).toEqual(["draft", "pending", "failed", "onhold"]);
+		}
+		expect.assertions(6);
+	});
+
+	it("should fail fast when changing orders in the wrong status", async ()=>{
+		const {client, server} = createCheckedClient();
+		const {result: order} = await client.orders.createOrder(EXAMPLE_ORDER, true);
+		const {code, error} = await client.orders.confirmOrder(order!.id);
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("InvalidOrderState");
+		expect(error?.message).toBe("Order " + order!.id + " can't be confirmed in status 'pending', only in draft");
+		server.setOrderStatus(order!.id, "inprocess");
+		expect((await client.orders.updateOrder("@" + EXAMPLE_ORDER.external_id, EXAMPLE_ORDER)).error?.reason).toBe("InvalidOrderState");
+		expect((await client.orders.cancelOrder(order!.id)).error?.reason).toBe("InvalidOrderState");
+		expect(server.requests.map(({method}) => method)).toEqual(["POST", "GET", "GET", "GET"]);
+	});
+
+	it("should let allowed changes through", async ()=>{
+		const {client} = createCheckedClient({throwOnError: true});
+		const {result: draft} = await client.orders.createOrder(EXAMPLE_ORDER);
+		expect((await client.orders.updateOrder(draft!.id, {...EXAMPLE_ORDER, shipping: "STANDARD"})).result?.status).toBe("draft");
+		expect((await client.orders.confirmOrder(draft!.id)).result?.status).toBe("pending");
+		expect((await client.orders.cancelOrder(draft!.id)).result?.status).toBe("canceled");
+		const error = await client.orders.cancelOrder(draft!.id).catch((error) => error);
+		expect(error).toBeInstanceOf(OrderStateError);
+		expect((await client.orders.confirmOrder(404404).catch((error) => error)).reason).toBe("NotFound");
+	});
+});
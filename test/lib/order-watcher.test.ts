@@ -0,0 +1,80 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { PrintfulTimeoutError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+import type { ClientOptions } from "../../src/types/client";
+import type { OrderStatusEvent, OrderShipmentEvent } from "../../src/types/order";
+
+const FAST = {interval: 5, maxInterval: 20, maxWait: 2000};
+
+async function createWatchedOrder(options: ClientOptions = {}){
+	const server = new MockPrintfulServer();
+	// looked up on every request, so tests can wrap server.fetch
+	const client = createPrintfulStoreClient("TOKEN", {fetch: (url, init) => server.fetch(url, init), ...options});
+	const {result: order} = await client.orders.createOrder(EXAMPLE_ORDER, true);
+	return {server, client, order};
+}
+
+describe("Order Watcher Tests", ()=>{
+	it("should emit status changes and shipments until the order is fulfilled", async ()=>{
+		const {server, client, order} = await createWatchedOrder();
+		const statuses: Array<OrderStatusEvent> = [];
+		const shipments: Array<OrderShipmentEvent> = [];
+		// play Printful's part on every poll
+		const advance = [() => server.setOrderStatus(order!.id, "inprocess"), () => {}, () => server.shipOrder(order!.id)];
+		const fetch = server.fetch;
+		server.fetch = async (url, init) => {
+			const response = await fetch(url, init);
+			const step = advance.shift();
+			step && step();
+			return response;
+		};
+		const {result, error} = await client.orders.watchOrder(order!.id, {...FAST, onStatusChange: (event) => statuses.push(event), onShipment: (event) => shipments.push(event)});
+		expect(error).toBeNull();
+		expect(result?.status).toBe("fulfilled");
+		expect(statuses.map(({previous, status}) => [previous, status])).toEqual([[null, "pending"], ["pending", "inprocess"], ["inprocess", "fulfilled"]]);
+		expect(shipments.length).toBe(1);
+		expect(shipments[0].id).toBe(order!.id);
+		expect(shipments[0].shipment.items.length).toBe(EXAMPLE_ORDER.items.length);
+	});
+
+	it("should watch several orders by ID or external ID", async ()=>{
+		const {server, client, order} = await createWatchedOrder();
+		const {result: second} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "watch-2"}, true);
+		setTimeout(() => {
+			server.setOrderStatus(order!.id, "inprocess");
+			server.setOrderStatus(second!.id, "partial");
+		}, 20);
+		const results = await client.orders.watchOrders([order!.id, "@watch-2"], {...FAST, until: ["inprocess", "partial"]});
+		expect(results.map(({result}) => result?.status)).toEqual(["inprocess", "partial"]);
+	});
+
+	it("should fail when the status can no longer be reached", async ()=>{
+		const {server, client, order} = await createWatchedOrder();
+		server.setOrderStatus(order!.id, "canceled");
+		const {code, error} = await client.orders.watchOrder(order!.id, FAST);
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("StatusUnreachable");
+		expect(error?.message).toBe("Order " + order!.id + " is canceled and can no longer become fulfilled");
+	});
+
+	it("should time out after maxWait", async ()=>{
+		const {client, order} = await createWatchedOrder({throwOnError: true});
+		const error = await client.orders.watchOrder(order!.id, {...FAST, until: "fulfilled", maxWait: 50}).catch((error) => error);
+		expect(error).toBeInstanceOf(PrintfulTimeoutError);
+		expect(error.message).toBe("Order " + order!.id + " did not become fulfilled within 50ms, it is pending");
+	});
+
+	it("should keep polling through server errors and stop when aborted", async ()=>{
+		const {server, client, order} = await createWatchedOrder();
+		let failures = 2;
+		const fetch = server.fetch;
+		server.fetch = async (url, init) => failures-- > 0 ? new Response(JSON.stringify({code: 503, result: "Unavailable", error: {reason: "ServiceUnavailable", message: "Unavailable"}}), {status: 503}) : fetch(url, init);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 60);
+		const {code, error} = await client.orders.watchOrder(order!.id, {...FAST, signal: controller.signal});
+		expect(failures).toBeLessThan(0);
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("Aborted");
+	});
+});
@@ -1,4 +1,6 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { createTestClient, LIVE } from "../data/client";
 import { EXAMPLE_ORDER } from "../data/orders";
 require('dotenv').config()
 
@@ -6,11 +8,15 @@ require('dotenv').config()
 // TODO: Needs more Tests, especially for negative outcomes, and bad inputs
 
 let client: PrintfulStoreClient;
+let server: MockPrintfulServer;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client, server} = createTestClient());
 })
 
+// Mutating methods charge the store, they only run against the mock server
+const mockOnly = LIVE ? it.skip : it;
+
 // Wait 100 mili before each test to prevent from getting blocked
 beforeEach(async ()=>{
 	await new Promise((r) => setTimeout(r, 100));
@@ -27,43 +33,70 @@ describe("OrdersAPI Tests", ()=>{
     });
 
     /* createOrder() */
-    // !!!PLEASE NOTE!!!: We leave this method to be tested manually since it might charge your account unnecessarily
-    it("Creates a new order and optionally submits it for fulfillment", async ()=>{
-        // const {order, error} = await client.orders.createOrder(...);
-        expect(true).toBe(true);
+    // !!!PLEASE NOTE!!!: Live, we leave this method to be tested manually since it might charge your account unnecessarily
+    mockOnly("Creates a new order and optionally submits it for fulfillment", async ()=>{
+        const {result, error, code} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "create-1"});
+		expect(error).toBeNull();
+		expect(code).toBeLessThan(400);
+		expect(result?.status).toBe("draft");
+		expect(result?.external_id).toBe("create-1");
+		const {result: confirmed} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "create-2"}, true);
+		expect(confirmed?.status).toBe("pending");
+		const {error: duplicate, code: duplicateCode} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "create-1"});
+		expect(duplicateCode).toBe(400);
+		expect(duplicate?.reason).toBe("BadRequest");
     });
 
     /* getOrder() */
     // TODO: needs negative tests
     it("Returns order data by ID or External ID.", async ()=>{
         const {result: orders} = await client.orders.getAllOrders(0,1);
-        if (orders.length === 0) return;
+        if (orders?.length === 0) return;
 		await new Promise((r) => setTimeout(r, 100));
-        const {result, error, code} = await client.orders.getOrder(orders[0].id);
+        const {result, error, code} = await client.orders.getOrder(orders![0].id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
     });
 
     /* cancelOrder() */
-    // !!!PLEASE NOTE!!!: We leave this method to be tested manually since it is connected to transactions
-    it("Cancels pending order or draft. Charged amount is returned to the store owner's credit card.", async ()=>{
-        // const {order, error} = await client.orders.cancelOrder(...);
-        expect(true).toBe(true);
+    // !!!PLEASE NOTE!!!: Live, we leave this method to be tested manually since it is connected to transactions
+    mockOnly("Cancels pending order or draft. Charged amount is returned to the store owner's credit card.", async ()=>{
+        const {result: order} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "cancel-1"});
+        const {result, error, code} = await client.orders.cancelOrder("@cancel-1");
+		expect(error).toBeNull();
+		expect(code).toBeLessThan(400);
+		expect(result?.status).toBe("canceled");
+		expect(result?.id).toBe(order!.id);
+		const {code: again} = await client.orders.cancelOrder(order!.id);
+		expect(again).toBe(400);
     });
 
     /* updateOrder()*/
-    // !!!PLEASE NOTE!!!: We leave this method to be tested manually since it is connected to transactions
-    it("Updates unsubmitted order and optionally submits it for the fulfillment.", async ()=>{
-        // const {order, error} = await client.orders.updateOrder(...);
-        expect(true).toBe(true);
+    // !!!PLEASE NOTE!!!: Live, we leave this method to be tested manually since it is connected to transactions
+    mockOnly("Updates unsubmitted order and optionally submits it for the fulfillment.", async ()=>{
+        const {result: order} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "update-1"});
+        const {result, error, code} = await client.orders.updateOrder(order!.id, {...EXAMPLE_ORDER, external_id: "update-1", shipping: "EXPRESS", recipient: {...EXAMPLE_ORDER.recipient, city: "Los Angeles"}});
+		expect(error).toBeNull();
+		expect(code).toBeLessThan(400);
+		expect(result?.shipping).toBe("EXPRESS");
+		expect(result?.recipient.city).toBe("Los Angeles");
+		expect(result?.status).toBe("draft");
+		server.setOrderStatus(order!.id, "inprocess");
+		const {code: locked} = await client.orders.updateOrder(order!.id, {...EXAMPLE_ORDER, external_id: "update-1"});
+		expect(locked).toBe(400);
     });
 
     /* confirmOrder()*/
-    // !!!PLEASE NOTE!!!: We leave this method to be tested manually since it is connected to transactions
-    it("Approves for fulfillment an order that was saved as a draft. Store owner's credit card is charged when the order is submitted for fulfillment.", async ()=>{
-        // const {order, error} = await client.orders.confirmOrder(...);
-        expect(true).toBe(true);
+    // !!!PLEASE NOTE!!!: Live, we leave this method to be tested manually since it is connected to transactions
+    mockOnly("Approves for fulfillment an order that was saved as a draft. Store owner's credit card is charged when the order is submitted for fulfillment.", async ()=>{
+        const {result: order} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "confirm-1"});
+        const {result, error, code} = await client.orders.confirmOrder(order!.id);
+		expect(error).toBeNull();
+		expect(code).toBeLessThan(400);
+		expect(result?.status).toBe("pending");
+		const {code: again} = await client.orders.confirmOrder(order!.id);
+		expect(again).toBe(400);
     });
 
     /* estimateOrderCost() */
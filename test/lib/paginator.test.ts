@@ -0,0 +1,84 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import { PrintfulAuthError } from "../../src/lib/errors";
+import { createFakeFetch } from "../data/fetch";
+
+const ORDERS = Array.from({length: 250}, (_, i) => ({id: i + 1, status: i % 2 ? "draft" : "fulfilled"}));
+
+// Serves ORDERS like the /orders endpoint does, 20 per page unless a limit is given
+function createOrdersFetch(){
+	return createFakeFetch((url) => {
+		const params = new URL(url).searchParams;
+		const offset = Number(params.get("offset") || 0);
+		const limit = Number(params.get("limit") || 20);
+		const status = params.get("status");
+		const orders = status ? ORDERS.filter((order) => order.status === status) : ORDERS;
+		return {body: {code: 200, result: orders.slice(offset, offset + limit), paging: {total: orders.length, offset, limit}}};
+	});
+}
+
+describe("Paginator Tests", ()=>{
+	it("should collect every item across pages of at most 100", async ()=>{
+		const {fetch, calls} = createOrdersFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const orders = await client.orders.iterateAllOrders().collectAll();
+		expect(orders).toEqual(ORDERS);
+		expect(calls.map((call) => new URL(call.url).searchParams.get("offset"))).toEqual([null, "100", "200"]);
+		expect(calls.every((call) => new URL(call.url).searchParams.get("limit") === "100")).toBe(true);
+	});
+
+	it("should cap the page size and apply filters", async ()=>{
+		const {fetch, calls} = createOrdersFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const orders = await client.orders.iterateAllOrders("draft", {limit: 500}).collectAll();
+		expect(orders.length).toBe(125);
+		expect(orders.every((order) => order.status === "draft")).toBe(true);
+		expect(calls.length).toBe(2);
+		expect(new URL(calls[0].url).searchParams.get("limit")).toBe("100");
+	});
+
+	it("should stop fetching when the loop is exited early", async ()=>{
+		const {fetch, calls} = createOrdersFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const seen = [];
+		for await (const order of client.orders.iterateAllOrders(undefined, {limit: 10})){
+			seen.push(order);
+			if (seen.length === 15) break;
+		}
+		expect(seen.length).toBe(15);
+		expect(calls.length).toBe(2);
+	});
+
+	it("should respect the start offset and max number of items", async ()=>{
+		const {fetch, calls} = createOrdersFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const orders = await client.orders.iterateAllOrders(undefined, {offset: 240, max: 5}).collectAll();
+		expect(orders.map((order) => order.id)).toEqual([241, 242, 243, 244, 245]);
+		expect(new URL(calls[0].url).searchParams.get("limit")).toBe("5");
+	});
+
+	it("should iterate pages of the other list endpoints", async ()=>{
+		// product templates are listed under `result.items`
+		const {fetch, calls} = createFakeFetch((url) => ({body: {code: 200, result: url.includes("/product-templates") ? {items: [{id: 1}]} : [{id: 1}], paging: {total: 1, offset: 0, limit: 100}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		await client.products.iterateAllSyncProducts("24").collectAll();
+		await client.ecommerceSync.iterateAllEcommProducts("synced", "shirt").collectAll();
+		expect(await client.productTemplates.iterateAllTemplates().collectAll()).toEqual([{id: 1}]);
+		await client.storeInformation.iterateAllStoresInfo().collectAll();
+		await client.warehouseProducts.iterateAllWarehouseProducts("mug").collectAll();
+		expect(calls.map((call) => call.url)).toEqual([
+			"https://api.printful.com/store/products?limit=100&category_id=24",
+			"https://api.printful.com/sync/products?limit=100&status=synced&search=shirt",
+			"https://api.printful.com/product-templates?limit=100",
+			"https://api.printful.com/stores?limit=100",
+			"https://api.printful.com/warehouse/products?query=mug&limit=100",
+		]);
+	});
+
+	it("should throw when a page fails", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 401, body: {code: 401, result: "Unauthorized", error: {reason: "Unauthorized", message: "Malformed token"}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const error = await client.orders.iterateAllOrders().collectAll().catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulAuthError);
+		expect(error.request).toEqual({method: "GET", url: "https://api.printful.com/orders"});
+	});
+})
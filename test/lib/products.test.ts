@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 import { SYNC_PRODUCT, SYNC_PRODUCT_2, SYNC_VARIANTS, MODIFIED_SYNC_VARIANT } from "../data/products";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -49,7 +50,7 @@ describe("ProductsAPI Tests", ()=>{
 	it("should delete a Sync Product with all of its Sync Variants", async ()=>{
 		const {result: product} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
 		await new Promise((r) => setTimeout(r, 100));
-		const {result, error, code} = await client.products.deleteSyncProduct(product.id)
+		const {result, error, code} = await client.products.deleteSyncProduct(product!.id)
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
@@ -58,13 +59,13 @@ describe("ProductsAPI Tests", ()=>{
 	/* modifySyncProduct() */
 	//TODO: needs negative tests
 	it("should modify an existing Sync Product with its Sync Variants.", async ()=>{
-		const {result: {id}} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
+		const {id} = (await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.products.modifySyncProduct(id, SYNC_PRODUCT_2, SYNC_VARIANTS);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
-		expect(result.name).toBe(SYNC_PRODUCT_2.name);
+		expect(result?.name).toBe(SYNC_PRODUCT_2.name);
 	});
 
 	/* getSyncVariant() */
@@ -72,7 +73,7 @@ describe("ProductsAPI Tests", ()=>{
 	it("should get information about a single Sync Variant.", async ()=>{
 		const {result: products} = await client.products.getAllSyncProducts();
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.products.getSyncProduct(products[0].id);
+        const {sync_variants} = (await client.products.getSyncProduct(products![0].id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.products.getSyncVariant(sync_variants[0].id);
 		expect(error).toBeNull();
@@ -83,9 +84,9 @@ describe("ProductsAPI Tests", ()=>{
 	/* deleteSyncVariant() */
 	//TODO: needs negative tests
 	it("should delete a single Sync Variant", async ()=>{
-		const {result: {id}} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
+		const {id} = (await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS)).result!;
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.products.getSyncProduct(id);
+        const {sync_variants} = (await client.products.getSyncProduct(id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.products.deleteSyncVariant(sync_variants[0].id);
 		expect(error).toBeNull();
@@ -96,15 +97,15 @@ describe("ProductsAPI Tests", ()=>{
 	/* modifySyncVariant() */
 	//TODO: needs negative tests
 	it("should modify an existing Sync Variant.", async ()=>{
-		const {result: {id}} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
+		const {id} = (await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS)).result!;
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.products.getSyncProduct(id);
+        const {sync_variants} = (await client.products.getSyncProduct(id)).result!;
 		await new Promise((r) => setTimeout(r, 100));
 		const {result, error, code} = await client.products.modifySyncVariant(sync_variants[0].id, MODIFIED_SYNC_VARIANT);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
-		expect(result.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
+		expect(result?.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
 	})
 
 	/* createSyncVariant() */
@@ -112,13 +113,13 @@ describe("ProductsAPI Tests", ()=>{
 	it("should create a new Sync Variant for an existing Sync Product", async ()=>{
 		const {result: product} = await client.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
 		await new Promise((r) => setTimeout(r, 100));
-		const {result, error, code} = await client.products.createSyncVariant(product.id, MODIFIED_SYNC_VARIANT);
+		const {result, error, code} = await client.products.createSyncVariant(product!.id, MODIFIED_SYNC_VARIANT);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
-		expect(result.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
+		expect(result?.variant_id).toBe(MODIFIED_SYNC_VARIANT.variant_id);
 		await new Promise((r) => setTimeout(r, 100));
-        const {result: {sync_variants}} = await client.products.getSyncProduct(product.id);
+        const {sync_variants} = (await client.products.getSyncProduct(product!.id)).result!;
 		expect(sync_variants).toHaveLength(SYNC_VARIANTS.length+1);
 	})
 })
\ No newline at end of file
@@ -0,0 +1,72 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import RateLimiter from "../../src/lib/rate-limiter";
+import { createFakeFetch } from "../data/fetch";
+
+const RATE_LIMITED = {status: 429, body: {code: 429, result: "This endpoint is rate limited. Please try again after 60 seconds.", error: {reason: "TooManyRequests", message: "Too Many Requests"}}};
+
+describe("RateLimiter Tests", ()=>{
+	it("should retry rate limited requests until they succeed", async ()=>{
+		let count = 0;
+		const {fetch, calls} = createFakeFetch(() => ++count < 3 ? RATE_LIMITED : {body: {code: 200, result: {}}});
+		const client = createPrintfulStoreClient("TOKEN", {fetch, retry: {baseDelay: 1, jitter: 0}});
+		const {result, error, code} = await client.webhook.getWebhookConfig();
+		expect(calls.length).toBe(3);
+		expect(error).toBeNull();
+		expect(result).toBeDefined();
+		expect(code).toBe(200);
+	});
+
+	it("should return the rate limited response after max attempts", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => RATE_LIMITED);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, retry: {maxAttempts: 2, baseDelay: 1}});
+		const {result, error, code} = await client.webhook.getWebhookConfig();
+		expect(calls.length).toBe(2);
+		expect(result).toBeNull();
+		expect(error?.reason).toBe("TooManyRequests");
+		expect(code).toBe(429);
+	});
+
+	it("should compute backoff delays from headers, attempts and jitter", ()=>{
+		const limiter = new RateLimiter({}, {baseDelay: 100, maxDelay: 300, jitter: 0});
+		const headers = (values: Record<string,string>) => ({get: (name: string) => values[name] ?? null}) as any;
+		expect(limiter.retryDelay(1)).toBe(100);
+		expect(limiter.retryDelay(2)).toBe(200);
+		expect(limiter.retryDelay(5)).toBe(300);
+		expect(limiter.retryDelay(1, headers({"retry-after": "2"}))).toBe(2000);
+		expect(limiter.retryDelay(1, headers({"x-ratelimit-reset": "5"}))).toBe(5000);
+		const jittered = new RateLimiter({}, {baseDelay: 100, jitter: 0.5}).retryDelay(1);
+		expect(jittered).toBeGreaterThanOrEqual(100);
+		expect(jittered).toBeLessThanOrEqual(150);
+	});
+
+	it("should throttle requests of a bucket to its limit", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: {}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, rateLimit: {rules: [{name: "orders", pattern: /^\/orders/, limit: 2, interval: 200}]}});
+		const start = Date.now();
+		await Promise.all([client.orders.getOrder(1), client.orders.getOrder(2), client.orders.getOrder(3)]);
+		expect(calls.length).toBe(3);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+		// other buckets are not affected
+		const other = Date.now();
+		await client.webhook.getWebhookConfig();
+		expect(Date.now() - other).toBeLessThan(100);
+	});
+
+	it("should hold a bucket when rate limit headers report no remaining requests", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: {}}, headers: {"x-ratelimit-remaining": "0", "x-ratelimit-reset": "0.2"}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		await client.fileLibrary.getFile(1);
+		const start = Date.now();
+		await client.fileLibrary.getFile(2);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+	});
+
+	it("should not throttle when rate limiting is disabled", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: {}}, headers: {"x-ratelimit-remaining": "0", "x-ratelimit-reset": "60"}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, rateLimit: false});
+		await client.fileLibrary.getFile(1);
+		const start = Date.now();
+		await client.fileLibrary.getFile(2);
+		expect(Date.now() - start).toBeLessThan(100);
+	});
+})
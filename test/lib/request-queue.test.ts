@@ -0,0 +1,103 @@
+import {createPrintfulStoreClient, createPrintfulAccountClient} from "../../src/client";
+import RequestQueue from "../../src/lib/request-queue";
+import { createFakeFetch } from "../data/fetch";
+
+// Fake fetch answering after delay ms, recording the most requests in flight at once
+function createSlowFetch(delay = 20){
+	let inFlight = 0;
+	const stats = {maxInFlight: 0};
+	const {fetch: fake, calls} = createFakeFetch(() => ({body: {code: 200, result: {}}, delay}));
+	const fetch = async (url: string, init?: any) => {
+		stats.maxInFlight = Math.max(stats.maxInFlight, ++inFlight);
+		try{
+			return await fake(url, init);
+		}
+		finally{
+			inFlight--;
+		}
+	};
+	return {fetch, calls, stats};
+}
+
+const paths = (calls: Array<{url: string}>) => calls.map(({url}) => new URL(url).pathname);
+
+describe("RequestQueue Tests", ()=>{
+	it("should limit the requests in flight", async ()=>{
+		const {fetch, stats} = createSlowFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, queue: {concurrency: 2}});
+		const results = await Promise.all([1, 2, 3, 4, 5].map((id) => client.orders.getOrder(id)));
+		expect(results.every(({code}) => code === 200)).toBe(true);
+		expect(stats.maxInFlight).toBe(2);
+	});
+
+	it("should start high priority calls first", async ()=>{
+		const {fetch, calls} = createSlowFetch(0);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, queue: {concurrency: 1}});
+		client.queue.pause();
+		const pending = Promise.all([
+			client.orders.getOrder("low", {priority: "low"}),
+			client.orders.getOrder("normal"),
+			client.orders.getOrder("high", {priority: "high"}),
+		]);
+		expect(client.queue.size).toBe(3);
+		client.queue.resume();
+		await pending;
+		expect(paths(calls)).toEqual(["/orders/high", "/orders/normal", "/orders/low"]);
+	});
+
+	it("should apply per endpoint limits without holding back other endpoints", async ()=>{
+		const {fetch, calls} = createSlowFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, queue: {rules: [{name: "mockups", pattern: /^\/mockup-generator\/task/, concurrency: 1}]}});
+		const mockups = Promise.all(["a", "b"].map((key) => client.mockupGenerator.getMockupTaskResult(key)));
+		const order = client.orders.getOrder(1);
+		await new Promise((r) => setTimeout(r, 5));
+		expect(calls.length).toBe(2);
+		expect(client.queue.size).toBe(1);
+		await Promise.all([mockups, order]);
+		expect(calls.length).toBe(3);
+	});
+
+	it("should drain once every request completed", async ()=>{
+		const {fetch, calls} = createSlowFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, queue: {concurrency: 1}});
+		[1, 2, 3].forEach((id) => client.orders.getOrder(id));
+		await client.queue.drain();
+		expect(calls.length).toBe(3);
+		expect(client.queue.pending).toBe(0);
+	});
+
+	it("should drain a paused queue only once it is resumed", async ()=>{
+		const queue = new RequestQueue();
+		queue.pause();
+		let drained = false;
+		const draining = queue.drain().then(() => drained = true);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(drained).toBe(false);
+		queue.resume();
+		await draining;
+		expect(drained).toBe(true);
+	});
+
+	it("should fail calls aborted while queued without sending them", async ()=>{
+		const {fetch, calls} = createSlowFetch();
+		const client = createPrintfulStoreClient("TOKEN", {fetch, queue: {concurrency: 1}});
+		const controller = new AbortController();
+		const first = client.orders.getOrder(1);
+		const second = client.orders.getOrder(2, {signal: controller.signal});
+		controller.abort();
+		const {code, error} = await second;
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("Aborted");
+		await first;
+		expect(paths(calls)).toEqual(["/orders/1"]);
+	});
+
+	it("should share the queue between store clients of an account", async ()=>{
+		const {fetch, stats} = createSlowFetch();
+		const queue = new RequestQueue({concurrency: 1});
+		const account = createPrintfulAccountClient("TOKEN", {fetch, queue});
+		await Promise.all([account.forStore(1).orders.getOrder(1), account.forStore(2).orders.getOrder(1)]);
+		expect(account.forStore(3).queue).toBe(queue);
+		expect(stats.maxInFlight).toBe(1);
+	});
+});
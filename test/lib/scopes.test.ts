@@ -0,0 +1,75 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import { MissingScopeError, PrintfulAuthError } from "../../src/lib/errors";
+import { hasScope } from "../../src/lib/scopes";
+import { createFakeFetch } from "../data/fetch";
+import { EXAMPLE_ORDER } from "../data/orders";
+
+// Replies to /oauth/scopes with the given scopes and to everything else with an empty result
+function createScopesFetch(scopes: Array<string>){
+	return createFakeFetch((url) => url.endsWith("/oauth/scopes")
+		? {body: {code: 200, result: {scopes: scopes.map((value) => ({name: value, value}))}}}
+		: {body: {code: 200, result: {}}});
+}
+
+describe("Scope Guard Tests", ()=>{
+	it("should treat write scopes as granting their read scope", ()=>{
+		expect(hasScope(["orders"], "orders/read")).toBe(true);
+		expect(hasScope(["orders/read"], "orders")).toBe(false);
+		expect(hasScope([], null)).toBe(true);
+	});
+
+	it("should answer canCall from the cached scopes", async ()=>{
+		const {fetch, calls} = createScopesFetch(["orders/read", "webhooks"]);
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		expect(await client.canCall("orders.getAllOrders")).toBe(true);
+		expect(await client.canCall("orders.createOrder")).toBe(false);
+		expect(await client.canCall("webhook.setWebhookConfig")).toBe(true);
+		expect(await client.canCall("catalog.getProduct")).toBe(true);
+		expect(calls.length).toBe(1);
+	});
+
+	it("should fail methods lacking a scope before sending the request", async ()=>{
+		const {fetch, calls} = createScopesFetch(["orders/read"]);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, checkScopes: true});
+		const {result, code, error} = await client.orders.createOrder(EXAMPLE_ORDER);
+		expect(result).toBeNull();
+		expect(code).toBe(403);
+		expect(error?.reason).toBe("MissingScope");
+		expect(calls.map((call) => call.url)).toEqual(["https://api.printful.com/oauth/scopes"]);
+
+		const allowed = await client.orders.getAllOrders();
+		expect(allowed.error).toBeNull();
+		expect(calls.length).toBe(2);
+	});
+
+	it("should throw MissingScopeError when throwOnError is set", async ()=>{
+		const {fetch} = createScopesFetch(["orders"]);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, checkScopes: true, throwOnError: true});
+		const error = await client.fileLibrary.addFile({url: "https://example.com/image.png"}).catch((e) => e);
+		expect(error).toBeInstanceOf(MissingScopeError);
+		expect(error).toBeInstanceOf(PrintfulAuthError);
+		expect(error.method).toBe("fileLibrary.addFile");
+		expect(error.scope).toBe("file_library");
+		expect(error.granted).toEqual(["orders"]);
+	});
+
+	it("should check scopes of methods called by paginators", async ()=>{
+		const {fetch} = createScopesFetch([]);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, checkScopes: true});
+		const error = await client.orders.iterateAllOrders().collectAll().catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulAuthError);
+		expect(error.reason).toBe("MissingScope");
+	});
+
+	it("should not cache scopes that failed to load", async ()=>{
+		let fail = true;
+		const {fetch, calls} = createFakeFetch(() => fail
+			? {status: 401, body: {code: 401, result: "Unauthorized", error: {reason: "Unauthorized", message: "Malformed token"}}}
+			: {body: {code: 200, result: {scopes: [{name: "orders", value: "orders"}]}}});
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		await expect(client.canCall("orders.createOrder")).rejects.toBeInstanceOf(PrintfulAuthError);
+		fail = false;
+		expect(await client.canCall("orders.createOrder")).toBe(true);
+		expect(calls.length).toBe(2);
+	});
+})
@@ -1,5 +1,11 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient, createPrintfulAccountClient, createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { selectRate } from "../../src/lib/shipping-rate";
+import { createTestClient, LIVE } from "../data/client";
+import { EXAMPLE_ORDER } from "../data/orders";
+import { SYNC_PRODUCT, SYNC_VARIANTS } from "../data/products";
 import { EXAMPLE_SHIPPING_INFO, FAULTY_SHIPPING_INFO } from "../data/shipping-rate";
+import { createFakeFetch } from "../data/fetch";
 require('dotenv').config()
 
 // NOTE: These Tests are optimistic, see TODO 
@@ -7,8 +13,19 @@ require('dotenv').config()
 
 let client: PrintfulStoreClient;
 
+const mockOnly = LIVE ? it.skip : it;
+
+const RATES = [
+	{id: "STANDARD", name: "Standard", rate: "4.75", currency: "USD", minDeliveryDays: 4, maxDeliveryDays: 8},
+	{id: "EXPRESS", name: "Express", rate: "12.95", currency: "USD", minDeliveryDays: 2, maxDeliveryDays: 3},
+	{id: "PRIORITY", name: "Priority", rate: "12.95", currency: "USD", minDeliveryDays: 1, maxDeliveryDays: 3},
+	{id: "ECONOMY", name: "Economy", rate: "3.99", currency: "USD"},
+];
+
+const CATALOG_ORDER = {recipient: EXAMPLE_ORDER.recipient, items: [{variant_id: 4011, quantity: 2, files: [{url: "https://example.com/front.png"}]}]};
+
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -30,4 +47,55 @@ describe("ShippingRateAPI Tests", ()=>{
 		expect(error).toBeDefined();
 		expect(code).toBeGreaterThanOrEqual(400);
 	});
-})
\ No newline at end of file
+
+	/* selectShipping() */
+	it("Selects the cheapest or fastest rate", ()=>{
+		expect(selectRate(RATES)?.id).toBe("ECONOMY");
+		expect(selectRate(RATES, "fastest")?.id).toBe("PRIORITY");
+		expect(selectRate(RATES, "cheapest", 5)?.id).toBe("PRIORITY");		// same rate as EXPRESS, faster
+		expect(selectRate(RATES, "fastest", 1)).toBeUndefined();
+	});
+	it("Sets the shipping method of an order by policy", async ()=>{
+		const {result, error} = await client.shippingRate.selectShipping(CATALOG_ORDER);
+		expect(error).toBeNull();
+		expect(result?.order.shipping).toBe(result!.rate.id);
+		expect(result?.order.items).toEqual(CATALOG_ORDER.items);
+		expect(result?.rates.map(({id}) => id)).toContain(result!.rate.id);
+	});
+	mockOnly("Picks the cheapest method delivering within the given days", async ()=>{
+		expect((await client.shippingRate.selectShipping(CATALOG_ORDER)).result?.rate).toMatchObject({id: "STANDARD", rate: "6.95"});
+		expect((await client.shippingRate.selectShipping(CATALOG_ORDER, {maxDeliveryDays: 5})).result?.order.shipping).toBe("EXPRESS");
+		expect((await client.shippingRate.selectShipping(CATALOG_ORDER, {policy: "fastest"})).result?.order.shipping).toBe("EXPRESS");
+		const {code, error} = await client.shippingRate.selectShipping(CATALOG_ORDER, {maxDeliveryDays: 1});
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("NoShippingRate");
+		expect(error?.message).toBe("No shipping rate matches the policy: cheapest rate delivering within 1 days, rates: STANDARD, EXPRESS");
+	});
+	mockOnly("Sends sync variants as their catalog variant", async ()=>{
+		const server = new MockPrintfulServer();
+		const mock = createPrintfulStoreClient("TOKEN", {fetch: server.fetch});
+		const {result: product} = await mock.products.createSyncProduct(SYNC_PRODUCT, SYNC_VARIANTS);
+		const {sync_variants: [variant]} = (await mock.products.getSyncProduct(product!.id)).result!;
+		const {result, error} = await mock.shippingRate.selectShipping({recipient: EXAMPLE_ORDER.recipient, items: [{sync_variant_id: variant.id, quantity: 1}]});
+		expect(error).toBeNull();
+		expect(result?.order.shipping).toBe("STANDARD");
+		const rateRequest = server.requests[server.requests.length - 1];
+		expect(rateRequest.body).toHaveProperty("items", [{variant_id: variant.variant_id, quantity: 1}]);
+	});
+	it("Rejects items without a variant before sending requests", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: []}}));
+		const offline = createPrintfulStoreClient("TOKEN", {fetch});
+		const {code, error} = await offline.shippingRate.selectShipping({recipient: EXAMPLE_ORDER.recipient, items: [{variant_id: 4011}, {quantity: 2}]});
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("NoShippingVariant");
+		expect(error?.message).toContain("Item 1 needs a variant_id");
+		expect(calls.length).toBe(0);
+	});
+	it("Requires a store to fetch sync variants with an account token", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: []}}));
+		const account = createPrintfulAccountClient("TOKEN", {fetch});
+		const {error} = await account.shippingRate.selectShipping({recipient: EXAMPLE_ORDER.recipient, items: [{sync_variant_id: 1, quantity: 1}]});
+		expect(error?.reason).toBe("StoreRequired");
+		expect(calls.length).toBe(0);
+	});
+})
@@ -0,0 +1,86 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import MemorySpendLedger from "../../src/lib/spend-ledger";
+import { SpendingLimitError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+import type { ClientOptions } from "../../src/types/client";
+
+// EXAMPLE_ORDER is estimated at 18.69 USD by the mock server
+function createGuardedClient(options: ClientOptions){
+	const server = new MockPrintfulServer();
+	return {server, client: createPrintfulStoreClient("TOKEN", {fetch: server.fetch, ...options})};
+}
+
+describe("SpendingGuard Tests", ()=>{
+	it("should refuse to confirm orders over the limit per order", async ()=>{
+		const {client, server} = createGuardedClient({spendingGuard: {maxOrderCost: 10}});
+		const {code, error} = await client.orders.createOrder(EXAMPLE_ORDER, true);
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("SpendingLimit");
+		expect(error?.message).toBe("Order total of 18.69 USD exceeds the limit of 10.00 USD per order");
+		expect(server.orders.length).toBe(0);
+		const {result: draft} = await client.orders.createOrder(EXAMPLE_ORDER);
+		expect(draft?.status).toBe("draft");
+	});
+
+	it("should check drafts before confirming them", async ()=>{
+		const {client, server} = createGuardedClient({spendingGuard: {maxOrderCost: 10}});
+		const {result: draft} = await client.orders.createOrder(EXAMPLE_ORDER);
+		const {error} = await client.orders.confirmOrder(draft!.id);
+		expect(error?.reason).toBe("SpendingLimit");
+		expect(server.orders[0].status).toBe("draft");
+		const {error: updateError} = await client.orders.updateOrder(draft!.id, {...EXAMPLE_ORDER, items: [{...EXAMPLE_ORDER.items[0], quantity: 1}]}, true);
+		expect(updateError?.reason).toBe("SpendingLimit");
+	});
+
+	it("should keep a running daily spend in the ledger", async ()=>{
+		const {client} = createGuardedClient({spendingGuard: {maxDailySpend: 30}});
+		const {result: first} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "daily-1"}, true);
+		expect(first?.status).toBe("pending");
+		const {error} = await client.orders.createOrder({...EXAMPLE_ORDER, external_id: "daily-2"}, true);
+		expect(error?.message).toBe("Order total of 18.69 USD would bring today's spend to 37.38 USD, over the daily limit of 30.00 USD (18.69 USD spent)");
+		expect(await client.spendingGuard?.spentToday("USD")).toBe(18.69);
+	});
+
+	it("should record confirmations that failed without a definite answer once", async ()=>{
+		const server = new MockPrintfulServer();
+		const failures = ["after", "before"];
+		// order creations lose their response, after or before the server processed them
+		const fetch = async (url: string, init: any = {}) => {
+			const failure = init.method === "POST" && new URL(url).pathname === "/orders" ? failures.shift() : undefined;
+			if (failure === "before") throw new TypeError("socket hang up");
+			const response = await server.fetch(url, init);
+			if (failure === "after") throw new TypeError("socket hang up");
+			return response;
+		};
+		const client = createPrintfulStoreClient("TOKEN", {fetch, spendingGuard: {}});
+		const {result: recovered} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "lost-1"}, true, {retryDelay: 0});
+		expect(recovered?.status).toBe("pending");
+		const {result: retried} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "retry-1"}, true, {retryDelay: 0});
+		expect(retried?.status).toBe("pending");
+		expect(server.orders.length).toBe(2);
+		const entries = await client.spendingGuard!.ledger.entries(0);
+		expect(entries.map(({order, external_id, amount}) => ({order, external_id, amount}))).toEqual([
+			{order: null, external_id: "lost-1", amount: 18.69},
+			{order: null, external_id: "retry-1", amount: 18.69},
+		]);
+		expect(await client.spendingGuard?.spentToday("USD")).toBe(37.38);
+	});
+
+	it("should throw for currencies that are not allowed", async ()=>{
+		const {client} = createGuardedClient({throwOnError: true, spendingGuard: {currencies: ["EUR"]}});
+		const error = await client.orders.createOrder(EXAMPLE_ORDER, true).catch((error) => error);
+		expect(error).toBeInstanceOf(SpendingLimitError);
+		expect(error.limit).toBe("currency");
+		expect(error.amount).toBe(18.69);
+	});
+
+	it("should use a pluggable ledger and not record dry runs", async ()=>{
+		const ledger = new MemorySpendLedger([{order: 1, external_id: null, amount: 90, currency: "USD", time: Date.now()}]);
+		const {client} = createGuardedClient({spendingGuard: {maxDailySpend: 100, ledger}});
+		expect((await client.orders.createOrder(EXAMPLE_ORDER, true, undefined, {dryRun: true})).error?.reason).toBe("SpendingLimit");
+		const {client: roomy} = createGuardedClient({dryRun: {log: () => {}}, spendingGuard: {maxDailySpend: 200, ledger}});
+		expect((await roomy.orders.createOrder(EXAMPLE_ORDER, true)).code).toBe(200);
+		expect(ledger.entries(0).length).toBe(1);
+	});
+});
@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 import { EXAMPLE_PACKING_SLIP } from "../data/store-information";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -40,7 +41,7 @@ describe("StoreInformationAPI Tests", ()=>{
     it("Get basic information about a store based on provided ID", async ()=>{
         const {result: stores} = await client.storeInformation.getAllStoresInfo();
 		await new Promise((r) => setTimeout(r, 100));
-        const {result, error, code} = await client.storeInformation.getStoreInfo(stores[0].id);
+        const {result, error, code} = await client.storeInformation.getStoreInfo(stores![0].id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);
@@ -0,0 +1,102 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import MockPrintfulServer from "../../src/lib/mock-server";
+import { PrintfulValidationError } from "../../src/lib/errors";
+import { EXAMPLE_ORDER } from "../data/orders";
+
+type Failure = "before" | "after";
+
+// Mock server whose requests fail with a network error, before or after it processed them, as listed per path
+function createFlakyServer(failures: Record<string, Array<Failure>>, server = new MockPrintfulServer()){
+	const sent: Array<string> = [];
+	const fetch = async (url: string, init: any = {}) => {
+		const {pathname, search} = new URL(url);
+		const key = (init.method || "GET") + " " + pathname;
+		sent.push(key + search);
+		const failure = failures[key] && failures[key].shift();
+		if (failure === "before") throw new TypeError("socket hang up");
+		const response = await server.fetch(url, init);
+		if (failure === "after") throw new TypeError("socket hang up");
+		return response;
+	};
+	return {server, sent, client: createPrintfulStoreClient("TOKEN", {fetch})};
+}
+
+const OPTIONS = {retryDelay: 0};
+
+describe("submitOrder Tests", ()=>{
+	it("should require an external_id", async ()=>{
+		const {client, sent} = createFlakyServer({});
+		const {code, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: undefined}, false, OPTIONS);
+		expect(code).toBe(400);
+		expect(error?.reason).toBe("ExternalIdRequired");
+		expect(sent).toEqual([]);
+	});
+
+	it("should return the order created by a request whose response was lost", async ()=>{
+		const {client, server, sent} = createFlakyServer({"POST /orders": ["after"]});
+		const {result, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "lost-1"}, true, OPTIONS);
+		expect(error).toBeNull();
+		expect(result?.status).toBe("pending");
+		expect(server.orders.length).toBe(1);
+		expect(sent).toEqual(["POST /orders?confirm=true", "GET /orders/@lost-1"]);
+	});
+
+	it("should create the order again with update_existing when it was not received", async ()=>{
+		const {client, server, sent} = createFlakyServer({"POST /orders": ["before"]});
+		const {result, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "retry-1"}, false, OPTIONS);
+		expect(error).toBeNull();
+		expect(result?.status).toBe("draft");
+		expect(server.orders.length).toBe(1);
+		expect(sent).toEqual(["POST /orders?confirm=false", "GET /orders/@retry-1", "POST /orders?confirm=false&update_existing=true"]);
+	});
+
+	it("should confirm an existing draft once", async ()=>{
+		const server = new MockPrintfulServer();
+		await createPrintfulStoreClient("TOKEN", {fetch: server.fetch}).orders.createOrder({...EXAMPLE_ORDER, external_id: "draft-1"});
+		const confirmPath = "POST /orders/" + server.orders[0].id + "/confirm";
+		const {client, sent} = createFlakyServer({[confirmPath]: ["after"]}, server);
+		const {result, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "draft-1"}, true, OPTIONS);
+		expect(error).toBeNull();
+		expect(result?.status).toBe("pending");
+		expect(sent.filter((key) => key === confirmPath).length).toBe(1);
+		expect(server.orders.length).toBe(1);
+	});
+
+	it("should return the confirmation failure when the draft was not submitted", async ()=>{
+		const server = new MockPrintfulServer();
+		await createPrintfulStoreClient("TOKEN", {fetch: server.fetch}).orders.createOrder({...EXAMPLE_ORDER, external_id: "draft-2"});
+		// the order is canceled while the confirmation is lost
+		const fetch = async (url: string, init: any = {}) => {
+			if (!url.endsWith("/confirm")) return server.fetch(url, init);
+			server.setOrderStatus("@draft-2", "canceled");
+			throw new TypeError("socket hang up");
+		};
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const {result, code, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "draft-2"}, true, {...OPTIONS, maxAttempts: 2});
+		expect(result).toBeNull();
+		expect(code).toBe(0);
+		expect(error).not.toBeNull();
+		expect(server.orders[0].status).toBe("canceled");
+	});
+
+	it("should return an abort failure when the signal aborts during the backoff", async ()=>{
+		const {client, server, sent} = createFlakyServer({"POST /orders": ["before"]});
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 20);
+		const started = Date.now();
+		const {result, code, error} = await client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "abort-1"}, false, {retryDelay: 60000, signal: controller.signal});
+		expect(Date.now() - started).toBeLessThan(1000);
+		expect(result).toBeNull();
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("Aborted");
+		expect(server.orders.length).toBe(0);
+		expect(sent).toEqual(["POST /orders?confirm=false", "GET /orders/@abort-1"]);
+	});
+
+	it("should throw definite failures when throwOnError is set", async ()=>{
+		const server = new MockPrintfulServer();
+		const client = createPrintfulStoreClient("TOKEN", {fetch: server.fetch, throwOnError: true});
+		await expect(client.orders.submitOrder({...EXAMPLE_ORDER, external_id: "bad-1", items: []}, true, OPTIONS)).rejects.toBeInstanceOf(PrintfulValidationError);
+		expect(server.orders.length).toBe(0);
+	});
+});
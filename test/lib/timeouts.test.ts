@@ -0,0 +1,82 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import { PrintfulAbortError, PrintfulTimeoutError } from "../../src/lib/errors";
+import { createFakeFetch } from "../data/fetch";
+
+const SLOW = {body: {code: 200, result: {}}, delay: 200};
+
+describe("Timeout and Abort Tests", ()=>{
+	it("should fail calls exceeding the client timeout", async ()=>{
+		const {fetch} = createFakeFetch(() => SLOW);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, timeout: 20});
+		const {result, code, error} = await client.shippingRate.calculateShipping({recipient: {address1: "", city: "", country_code: "US", state_code: "CA", zip: "", phone: ""}, items: [], currency: "USD", locale: "en_US"});
+		expect(result).toBeNull();
+		expect(code).toBe(0);
+		expect(error?.reason).toBe("Timeout");
+	});
+
+	it("should let a call override the client timeout", async ()=>{
+		const {fetch} = createFakeFetch(() => SLOW);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, timeout: 20, throwOnError: true});
+		const {error} = await client.orders.getOrder(1, {timeout: 1000});
+		expect(error).toBeNull();
+		const timedOut = await client.mockupGenerator.createMockupTask(71, {}, {timeout: 10}).catch((e) => e);
+		expect(timedOut).toBeInstanceOf(PrintfulTimeoutError);
+		expect(timedOut.timeout).toBe(10);
+	});
+
+	it("should abort calls through their signal", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => SLOW);
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true});
+		const controller = new AbortController();
+		const pending = client.orders.getOrder(1, {signal: controller.signal});
+		setTimeout(() => controller.abort(), 10);
+		const error = await pending.catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulAbortError);
+		expect(error.request).toEqual({method: "GET", url: "https://api.printful.com/orders/1"});
+
+		// already aborted signals fail without sending a request
+		const aborted = await client.orders.getOrder(2, {signal: controller.signal}).catch((e) => e);
+		expect(aborted).toBeInstanceOf(PrintfulAbortError);
+		expect(calls.length).toBe(1);
+	});
+
+	it("should stop waiting for the rate limit when aborted or timed out", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: {}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, rateLimit: {rules: [{name: "orders", pattern: /^\/orders/, limit: 1, interval: 60000}]}});
+		await client.orders.getOrder(1);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+		const start = Date.now();
+		expect((await client.orders.getOrder(2, {signal: controller.signal})).error?.reason).toBe("Aborted");
+		expect((await client.orders.getOrder(3, {timeout: 10})).error?.reason).toBe("Timeout");
+		expect(Date.now() - start).toBeLessThan(1000);
+		expect(calls.length).toBe(1);
+	});
+
+	it("should stop the backoff of rate limited calls when aborted", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({status: 429, body: {code: 429, result: "Too many requests", error: {reason: "TooManyRequests", message: "Too many requests"}}, headers: {"retry-after": "60"}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, throwOnError: true});
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+		const error = await client.orders.getOrder(1, {signal: controller.signal}).catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulAbortError);
+		expect(calls.length).toBe(1);
+		const timedOut = await client.orders.getOrder(1, {timeout: 10}).catch((e) => e);
+		expect(timedOut).toBeInstanceOf(PrintfulTimeoutError);
+	});
+
+	it("should stop paginators when aborted", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: [{id: 1}], paging: {total: 10, offset: 0, limit: 1}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const controller = new AbortController();
+		const seen = [];
+		const error = await (async () => {
+			for await (const order of client.orders.iterateAllOrders(undefined, {limit: 1, signal: controller.signal})){
+				seen.push(order);
+				controller.abort();
+			}
+		})().catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulAbortError);
+		expect(seen.length).toBe(1);
+	});
+})
@@ -0,0 +1,47 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import { createFakeFetch } from "../data/fetch";
+
+describe("Transport Tests", ()=>{
+	it("should send requests to the configured origin through the injected fetch", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: [{id: 1}], paging: {total: 1, offset: 0, limit: 20}}}));
+		const client = createPrintfulStoreClient("TOKEN", {origin: "http://localhost:8080/", fetch});
+		const {result, paging, error, code} = await client.orders.getAllOrders(0, 20, "draft");
+		expect(error).toBeNull();
+		expect(code).toBe(200);
+		expect(result).toEqual([{id: 1}]);
+		expect(paging).toEqual({total: 1, offset: 0, limit: 20});
+		expect(calls[0].url).toBe("http://localhost:8080/orders?limit=20&status=draft");
+		expect(calls[0].init.method).toBe("GET");
+		expect(calls[0].init.headers.Authorization).toBe("Bearer TOKEN");
+	});
+
+	it("should send default headers and user agent, and a JSON body", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: {}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, headers: {"X-Test": "1"}, userAgent: "my-app/1.0"});
+		await client.webhook.setWebhookConfig({url: "https://example.com/hook", types: ["package_shipped"]});
+		expect(calls[0].url).toBe("https://api.printful.com/webhooks");
+		expect(calls[0].init.method).toBe("POST");
+		expect(calls[0].init.headers).toEqual({"X-Test": "1", "User-Agent": "my-app/1.0", Authorization: "Bearer TOKEN"});
+		expect(JSON.parse(calls[0].init.body)).toEqual({url: "https://example.com/hook", types: ["package_shipped"]});
+	});
+
+	it("should not send the Authorization header to public endpoints", async ()=>{
+		const {fetch, calls} = createFakeFetch(() => ({body: {code: 200, result: []}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		await client.countryCodes.getCountryList();
+		await client.catalog.getProduct(71);
+		expect(calls[0].init.headers.Authorization).toBeUndefined();
+		expect(calls[1].url).toBe("https://api.printful.com/products/71");
+		expect(calls[1].init.headers.Authorization).toBeUndefined();
+	});
+
+	it("should return null result and request paging when the API returns an error", async ()=>{
+		const {fetch} = createFakeFetch(() => ({status: 401, body: {code: 401, result: "Unauthorized", error: {reason: "Unauthorized", message: "Malformed token"}}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const {result, paging, code, error} = await client.products.getAllSyncProducts(10, 5);
+		expect(result).toBeNull();
+		expect(paging).toEqual({offset: 10, limit: 5});
+		expect(code).toBe(401);
+		expect(error).toEqual({reason: "Unauthorized", message: "Malformed token"});
+	});
+})
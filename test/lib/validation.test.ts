@@ -0,0 +1,86 @@
+import {createPrintfulStoreClient} from "../../src/client";
+import { PrintfulSchemaError } from "../../src/lib/errors";
+import { schema, validateSchema } from "../../src/lib/schemas";
+import type { SchemaDrift } from "../../src/types/validation";
+import { createFakeFetch } from "../data/fetch";
+
+const ORDER = {
+	id: 13, external_id: "my-order-1", store: 10, status: "draft", shipping: "STANDARD", created: 1602607640, updated: 1602607640,
+	recipient: {name: "John Smith"}, items: [{id: 1, quantity: 1, files: [{id: 10}]}],
+	costs: {currency: "USD", subtotal: "10.00", discount: "0.00", shipping: "5.00", tax: "0.00", vat: "0.00", total: "15.00"},
+	retail_costs: {}, shipments: []
+};
+
+describe("Response Validation Tests", ()=>{
+	it("should report issues with their path", ()=>{
+		const {string, number, nullable, optional, array, object, oneOf} = schema;
+		const order = object({id: number(), external_id: nullable(string()), note: optional(string()), status: oneOf("draft", "pending"), items: array(object({id: number()}))});
+		expect(validateSchema(order, {id: 1, external_id: null, status: "draft", items: [{id: 2}], extra: true})).toEqual([]);
+		expect(validateSchema(order, {id: "1", status: "shipped", note: 5, items: [{}, {id: 3}]})).toEqual([
+			{path: "result.id", expected: "number", received: "string"},
+			{path: "result.external_id", expected: "string | null", received: "missing"},
+			{path: "result.note", expected: "string", received: "number"},
+			{path: "result.status", expected: "\"draft\" | \"pending\"", received: "\"shipped\""},
+			{path: "result.items[0].id", expected: "number", received: "missing"},
+		]);
+	});
+
+	it("should not check responses when disabled", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: {id: "oops"}}}));
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		const client = createPrintfulStoreClient("TOKEN", {fetch});
+		const {result} = await client.orders.getOrder(13);
+		expect(result).toEqual({id: "oops"});
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it("should warn about drift and still return the result", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: {...ORDER, costs: {...ORDER.costs, total: 15}}}}));
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		const client = createPrintfulStoreClient("TOKEN", {fetch, validate: true});
+		const {result, error} = await client.orders.getOrder(13);
+		expect(error).toBeNull();
+		expect(result?.id).toBe(13);
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn.mock.calls[0][0]).toContain("orders.getOrder");
+		expect(warn.mock.calls[0][0]).toContain("result.costs.total (expected string, received number)");
+		warn.mockRestore();
+	});
+
+	it("should report drift through the hook", async ()=>{
+		// the documented response of deleteSyncProduct is {sync_product, sync_variants}
+		const {fetch} = createFakeFetch((url, init) => ({body: {code: 200, result: init?.method === "DELETE" ? {} : ORDER}}));
+		const drifts: Array<SchemaDrift> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, validate: {mode: "report", onDrift: (drift) => {drifts.push(drift)}}});
+		await client.orders.getOrder(13);
+		await client.products.deleteSyncProduct(7);
+		expect(drifts.length).toBe(1);
+		expect(drifts[0].name).toBe("products.deleteSyncProduct");
+		expect(drifts[0].request).toEqual({method: "DELETE", url: "https://api.printful.com/store/products/7"});
+		expect(drifts[0].issues.map((issue) => issue.path)).toEqual(["result.sync_product", "result.sync_variants"]);
+	});
+
+	it("should throw on drift in throw mode", async ()=>{
+		const {fetch} = createFakeFetch(() => ({body: {code: 200, result: [{id: 1, name: "Shopify store"}]}}));
+		const client = createPrintfulStoreClient("TOKEN", {fetch, validate: {mode: "throw"}});
+		const error = await client.storeInformation.getAllStoresInfo().catch((e) => e);
+		expect(error).toBeInstanceOf(PrintfulSchemaError);
+		expect(error.reason).toBe("SchemaMismatch");
+		expect(error.issues).toEqual([{path: "result[0].type", expected: "string", received: "missing"}]);
+	});
+
+	it("should skip failed responses and use custom rules first", async ()=>{
+		const {fetch} = createFakeFetch((url) => url.endsWith("/orders/1")
+			? {status: 404, body: {code: 404, result: "Not found", error: {reason: "NotFound", message: "Not found"}}}
+			: {body: {code: 200, result: ORDER}});
+		const drifts: Array<SchemaDrift> = [];
+		const client = createPrintfulStoreClient("TOKEN", {fetch, validate: {mode: "report", onDrift: (drift) => {drifts.push(drift)}, rules: [
+			{name: "orders.getOrder", method: "GET", pattern: /^\/orders\/[^/]+$/, schema: schema.object({gift: schema.object({})})},
+		]}});
+		await client.orders.getOrder(1);
+		expect(drifts).toEqual([]);
+		await client.orders.getOrder(13);
+		expect(drifts[0].issues).toEqual([{path: "result.gift", expected: "object", received: "missing"}]);
+	});
+});
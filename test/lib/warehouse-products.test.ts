@@ -1,4 +1,5 @@
-import {createPrintfulStoreClient, PrintfulStoreClient} from "../../src/client";
+import {PrintfulStoreClient} from "../../src/client";
+import { createTestClient } from "../data/client";
 import { EXAMPLE_RECIPIENT } from "../data/tax-rate";
 require('dotenv').config()
 
@@ -8,7 +9,7 @@ require('dotenv').config()
 let client: PrintfulStoreClient;
 
 beforeAll(()=>{
-    client = createPrintfulStoreClient(process.env.TEST_AUTH);
+    ({client} = createTestClient());
 })
 
 // Wait 100 mili before each test to prevent from getting blocked
@@ -29,9 +30,9 @@ describe("WarehouseProductsAPI Tests", ()=>{
     /* getWarehouseProduct() */
     it("Returns warehouse product data by ID", async ()=>{
         const {result: products} = await client.warehouseProducts.getAllWarehouseProducts();
-        if(!products.length) return; // no warehouse products exist in system
+        if(!products?.length) return; // no warehouse products exist in system
 		await new Promise((r) => setTimeout(r, 100));
-        const {result, error, code} = await client.warehouseProducts.getWarehouseProduct(products[0].id);
+        const {result, error, code} = await client.warehouseProducts.getWarehouseProduct(products?.[0].id);
 		expect(error).toBeNull();
 		expect(result).toBeDefined();
 		expect(code).toBeLessThan(400);